@@ -0,0 +1,423 @@
+import { Server } from "http";
+import { RawData, WebSocket, WebSocketServer } from "ws";
+import { BookLevel } from "../sdk";
+import { IndexedEvent, IndexedSwap, IndexerStore, StoreChange } from "../sdk/indexer";
+import { HttpError, parseUint, toJson } from "./http";
+import { LiteswapReadModel } from "./model";
+
+export type FeedTopic = "trades" | "ticker" | "book" | "liquidity";
+
+export const FEED_TOPICS: FeedTopic[] = ["trades", "ticker", "book", "liquidity"];
+
+// Why a snapshot was sent: a new subscription, a client asking after a gap, or a chain reorg
+export type SnapshotReason = "subscribe" | "resync" | "reorg";
+
+export interface FeedOptions {
+  // Path the WebSocket upgrade is accepted on
+  path?: string;
+  // Trades included in a trades snapshot, most recent last
+  recentTrades?: number;
+  // Price bucket of the book levels, see OrderBook.depth
+  bookTickSize?: bigint;
+  // Channels one connection may subscribe to
+  maxSubscriptions?: number;
+  // Interval of the WebSocket pings that drop unresponsive connections, 0 disables them
+  heartbeatMs?: number;
+}
+
+/**
+ * What a client sends, e.g. {"op":"subscribe","channels":["trades:1","book:1"]}.
+ * resync asks for a fresh snapshot after the client saw a gap in `seq`.
+ */
+export interface FeedRequest {
+  op: "subscribe" | "unsubscribe" | "resync" | "ping";
+  channels?: string[];
+}
+
+export interface FeedSnapshot<T = unknown> {
+  type: "snapshot";
+  channel: string;
+  // Sequence number of the channel the snapshot is current at, the next update has seq + 1
+  seq: number;
+  // Last indexed block, null before the first sync
+  blockNumber: number | null;
+  reason: SnapshotReason;
+  data: T;
+}
+
+export interface FeedUpdate<T = unknown> {
+  type: "update";
+  channel: string;
+  seq: number;
+  blockNumber: number;
+  data: T;
+}
+
+export type FeedMessage =
+  | FeedSnapshot
+  | FeedUpdate
+  | { type: "unsubscribed"; channel: string }
+  | { type: "error"; channel?: string; message: string }
+  | { type: "pong" };
+
+/**
+ * One price level of the book channel. In updates a level with no orders left
+ * has been removed.
+ */
+export interface BookLevelUpdate {
+  side: "asks" | "bids";
+  quotePrice: bigint;
+  offerAmount: bigint;
+  desiredAmount: bigint;
+  orders: number;
+}
+
+export interface BookSnapshot {
+  asks: BookLevelUpdate[];
+  bids: BookLevelUpdate[];
+}
+
+export interface LiquidityEvent {
+  kind: "added" | "removed";
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  provider: string;
+  amountA: bigint;
+  amountB: bigint;
+  shares: bigint;
+}
+
+interface Channel {
+  name: string;
+  topic: FeedTopic;
+  pairId: bigint;
+  seq: number;
+  subscribers: Set<WebSocket>;
+  // Book levels last published, keyed by side and price, to diff against
+  levels?: Map<string, BookLevelUpdate>;
+}
+
+const TICKER_EVENTS = new Set(["PairInitialized", "ReservesUpdated", "LiquidityAdded", "LiquidityRemoved"]);
+const BOOK_EVENTS = new Set(["LimitOrderPlaced", "LimitOrderFilled", "LimitOrderCancelled"]);
+
+/**
+ * Parses "<topic>:<pairId>", e.g. "book:1".
+ */
+export function parseChannel(name: unknown): { topic: FeedTopic; pairId: bigint } {
+  const [topic, pairId, ...rest] = typeof name === "string" ? name.split(":") : [];
+  if (!FEED_TOPICS.includes(topic as FeedTopic) || rest.length > 0) {
+    throw new HttpError(400, `Unknown channel ${JSON.stringify(name)}, expected one of ${FEED_TOPICS.join(", ")}`);
+  }
+  return { topic: topic as FeedTopic, pairId: parseUint(pairId, "pairId") };
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function levelKey(level: BookLevelUpdate): string {
+  return `${level.side}:${level.quotePrice}`;
+}
+
+function toLevelUpdate(side: BookLevelUpdate["side"], level: BookLevel): BookLevelUpdate {
+  const { quotePrice, offerAmount, desiredAmount, orders } = level;
+  return { side, quotePrice, offerAmount, desiredAmount, orders };
+}
+
+// Same shape as the rows of the swaps table the trades snapshot is read from
+function toTrade(event: IndexedEvent, timestamp: number): IndexedSwap {
+  return {
+    blockNumber: event.blockNumber,
+    logIndex: event.logIndex,
+    transactionHash: event.transactionHash,
+    timestamp,
+    pairId: event.args.pairId as bigint,
+    user: event.args.user as string,
+    tokenIn: event.args.tokenIn as string,
+    tokenOut: event.args.tokenOut as string,
+    amountIn: event.args.amountIn as bigint,
+    amountOut: event.args.amountOut as bigint,
+  };
+}
+
+function toLiquidityEvent(event: IndexedEvent): LiquidityEvent {
+  return {
+    kind: event.name === "LiquidityAdded" ? "added" : "removed",
+    blockNumber: event.blockNumber,
+    logIndex: event.logIndex,
+    transactionHash: event.transactionHash,
+    provider: event.args.liquidityProvider as string,
+    amountA: event.args.amountA as bigint,
+    amountB: event.args.amountB as bigint,
+    shares: event.args.shares as bigint,
+  };
+}
+
+/**
+ * WebSocket feed of the indexed data, so frontends get pushed what they would
+ * otherwise poll `/pairs/:pairId` for. Every pair has four channels:
+ *
+ *   trades:<pairId>     swaps as they are indexed
+ *   ticker:<pairId>     reserves, price and total shares after each indexed batch
+ *   book:<pairId>       L2 levels of the open limit orders, updates carry changed levels only
+ *   liquidity:<pairId>  LiquidityAdded/Removed, the snapshot lists the positions
+ *
+ * Subscribing sends a snapshot, then updates numbered one after another per
+ * channel. A client that sees a gap in `seq` sends a resync for a new snapshot.
+ * Updates follow the IndexerStore commits, and when the indexer rolls back a
+ * reorg every subscriber gets a snapshot with reason "reorg" instead.
+ */
+export class LiteswapFeed {
+  readonly model: LiteswapReadModel;
+  readonly wss: WebSocketServer;
+  readonly options: Required<FeedOptions>;
+  private readonly channels = new Map<string, Channel>();
+  private readonly subscriptions = new Map<WebSocket, Set<Channel>>();
+  private readonly alive = new WeakSet<WebSocket>();
+  private readonly detach: () => void;
+  private readonly heartbeat?: NodeJS.Timeout;
+
+  /**
+   * Accepts WebSocket upgrades on `server`, usually LiteswapApiServer.server so
+   * the feed shares its port.
+   */
+  constructor(store: IndexerStore, server: Server, options: FeedOptions = {}) {
+    this.options = {
+      path: options.path ?? "/ws",
+      recentTrades: options.recentTrades ?? 50,
+      bookTickSize: options.bookTickSize ?? 1n,
+      maxSubscriptions: options.maxSubscriptions ?? 100,
+      heartbeatMs: options.heartbeatMs ?? 30_000,
+    };
+    this.model = new LiteswapReadModel(store);
+    this.wss = new WebSocketServer({ server, path: this.options.path });
+    this.wss.on("connection", (socket) => this.connect(socket));
+    this.detach = store.onChange((change) => this.publish(change));
+    if (this.options.heartbeatMs > 0) {
+      this.heartbeat = setInterval(() => this.ping(), this.options.heartbeatMs);
+      this.heartbeat.unref();
+    }
+  }
+
+  /**
+   * Disconnects every client and stops following the store. The HTTP server is left to its owner.
+   */
+  async close(): Promise<void> {
+    this.detach();
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    for (const socket of this.wss.clients) socket.terminate();
+    await new Promise<void>((resolve, reject) => this.wss.close((err) => (err ? reject(err) : resolve())));
+  }
+
+  private connect(socket: WebSocket): void {
+    this.subscriptions.set(socket, new Set());
+    this.alive.add(socket);
+    socket.on("pong", () => this.alive.add(socket));
+    socket.on("message", (data) => this.receive(socket, data));
+    socket.on("close", () => {
+      for (const channel of this.subscriptions.get(socket) ?? []) this.leave(socket, channel);
+      this.subscriptions.delete(socket);
+    });
+  }
+
+  private ping(): void {
+    for (const socket of this.wss.clients) {
+      if (!this.alive.has(socket)) {
+        socket.terminate();
+        continue;
+      }
+      this.alive.delete(socket);
+      socket.ping();
+    }
+  }
+
+  private receive(socket: WebSocket, data: RawData): void {
+    let request: FeedRequest;
+    try {
+      request = JSON.parse(data.toString());
+    } catch {
+      this.send(socket, { type: "error", message: "Messages must be JSON" });
+      return;
+    }
+    if (request?.op === "ping") {
+      this.send(socket, { type: "pong" });
+      return;
+    }
+    if (!["subscribe", "unsubscribe", "resync"].includes(request?.op) || !Array.isArray(request.channels)) {
+      this.send(socket, { type: "error", message: "Expected {op: subscribe | unsubscribe | resync, channels: [...]}" });
+      return;
+    }
+    for (const name of request.channels) {
+      try {
+        this.handle(socket, request.op, name);
+      } catch (err) {
+        // Thrown from the socket's message listener it would take the process down
+        this.send(socket, { type: "error", channel: String(name), message: errorMessage(err) });
+      }
+    }
+  }
+
+  private handle(socket: WebSocket, op: FeedRequest["op"], name: unknown): void {
+    const { topic, pairId } = parseChannel(name);
+    const key = `${topic}:${pairId}`;
+    const joined = this.subscriptions.get(socket)!;
+    const channel = this.channels.get(key);
+    if (op === "unsubscribe") {
+      if (channel && joined.has(channel)) this.leave(socket, channel);
+      this.send(socket, { type: "unsubscribed", channel: key });
+      return;
+    }
+    if (op === "resync") {
+      if (!channel || !joined.has(channel)) throw new HttpError(400, `Not subscribed to ${key}`);
+      this.send(socket, this.snapshot(channel, "resync"));
+      return;
+    }
+    if (channel && joined.has(channel)) return;
+    if (joined.size >= this.options.maxSubscriptions) {
+      throw new HttpError(400, `At most ${this.options.maxSubscriptions} channels per connection`);
+    }
+    this.model.pair(pairId);
+    const target = channel ?? { name: key, topic, pairId, seq: 0, subscribers: new Set<WebSocket>() };
+    this.channels.set(key, target);
+    target.subscribers.add(socket);
+    joined.add(target);
+    this.send(socket, this.snapshot(target, "subscribe"));
+  }
+
+  private leave(socket: WebSocket, channel: Channel): void {
+    channel.subscribers.delete(socket);
+    this.subscriptions.get(socket)?.delete(channel);
+    // Nobody left to keep the sequence for, a new subscriber starts from a snapshot anyway
+    if (channel.subscribers.size === 0) this.channels.delete(channel.name);
+  }
+
+  /**
+   * Unsubscribes everyone from a channel that can no longer be read, telling them why.
+   */
+  private drop(channel: Channel, err: unknown): void {
+    const message = errorMessage(err);
+    for (const socket of [...channel.subscribers]) {
+      this.leave(socket, channel);
+      this.send(socket, { type: "error", channel: channel.name, message });
+      this.send(socket, { type: "unsubscribed", channel: channel.name });
+    }
+  }
+
+  private snapshot(channel: Channel, reason: SnapshotReason): FeedSnapshot {
+    const blockNumber = this.model.status().blockNumber;
+    return { type: "snapshot", channel: channel.name, seq: channel.seq, blockNumber, reason, data: this.read(channel) };
+  }
+
+  private read(channel: Channel): unknown {
+    const { pairId } = channel;
+    switch (channel.topic) {
+      case "trades":
+        return this.recentTrades(pairId);
+      case "ticker":
+        return this.model.pair(pairId);
+      case "book": {
+        channel.levels = this.bookLevels(pairId);
+        const levels = [...channel.levels.values()];
+        const book: BookSnapshot = {
+          asks: levels.filter((level) => level.side === "asks"),
+          bids: levels.filter((level) => level.side === "bids"),
+        };
+        return book;
+      }
+      case "liquidity":
+        return this.model.positions(pairId, { limit: Number.MAX_SAFE_INTEGER, offset: 0 }).items;
+    }
+  }
+
+  private recentTrades(pairId: bigint): IndexedSwap[] {
+    const trades = this.model.store.getSwaps(pairId);
+    return trades.slice(Math.max(0, trades.length - this.options.recentTrades));
+  }
+
+  private bookLevels(pairId: bigint): Map<string, BookLevelUpdate> {
+    const { depth } = this.model.orderBook(pairId, this.options.bookTickSize);
+    const levels = [
+      ...depth.asks.map((level) => toLevelUpdate("asks", level)),
+      ...depth.bids.map((level) => toLevelUpdate("bids", level)),
+    ];
+    return new Map(levels.map((level) => [levelKey(level), level]));
+  }
+
+  /**
+   * Levels that differ from the last published book, removed ones with zero orders.
+   */
+  private bookChanges(channel: Channel): BookLevelUpdate[] {
+    const previous = channel.levels ?? new Map<string, BookLevelUpdate>();
+    const current = this.bookLevels(channel.pairId);
+    const changes: BookLevelUpdate[] = [];
+    for (const [key, level] of current) {
+      const before = previous.get(key);
+      const unchanged =
+        before?.offerAmount === level.offerAmount &&
+        before.desiredAmount === level.desiredAmount &&
+        before.orders === level.orders;
+      if (!unchanged) changes.push(level);
+    }
+    for (const [key, level] of previous) {
+      if (!current.has(key)) changes.push({ ...level, offerAmount: 0n, desiredAmount: 0n, orders: 0 });
+    }
+    channel.levels = current;
+    return changes;
+  }
+
+  private publish(change: StoreChange): void {
+    if (change.kind === "rollback") {
+      for (const channel of [...this.channels.values()]) {
+        channel.seq += 1;
+        let snapshot: FeedSnapshot;
+        try {
+          snapshot = this.snapshot(channel, "reorg");
+        } catch (err) {
+          // Usually a pair the reorg removed. This runs inside IndexerStore.rollback, throwing would abort the sync
+          this.drop(channel, err);
+          continue;
+        }
+        for (const socket of channel.subscribers) this.send(socket, snapshot);
+      }
+      return;
+    }
+
+    const blockNumber = change.checkpoint.blockNumber;
+    const touched = (topic: FeedTopic, names: Set<string>) =>
+      new Set(change.events.filter((event) => names.has(event.name)).map((event) => `${topic}:${event.args.pairId}`));
+    const tickers = touched("ticker", TICKER_EVENTS);
+    const books = touched("book", BOOK_EVENTS);
+
+    for (const event of change.events) {
+      const pairId = event.args.pairId;
+      if (event.name === "Swap") {
+        const timestamp = this.model.store.getBlock(event.blockNumber)?.timestamp ?? 0;
+        this.update(`trades:${pairId}`, event.blockNumber, toTrade(event, timestamp));
+      } else if (event.name === "LiquidityAdded" || event.name === "LiquidityRemoved") {
+        this.update(`liquidity:${pairId}`, event.blockNumber, toLiquidityEvent(event));
+      }
+    }
+    for (const name of tickers) {
+      const channel = this.channels.get(name);
+      if (channel) this.update(name, blockNumber, this.model.pair(channel.pairId));
+    }
+    for (const name of books) {
+      const channel = this.channels.get(name);
+      const changes = channel ? this.bookChanges(channel) : [];
+      if (changes.length > 0) this.update(name, blockNumber, changes);
+    }
+  }
+
+  private update(name: string, blockNumber: number, data: unknown): void {
+    const channel = this.channels.get(name);
+    if (!channel) return;
+    channel.seq += 1;
+    const update: FeedUpdate = { type: "update", channel: name, seq: channel.seq, blockNumber, data };
+    for (const socket of channel.subscribers) this.send(socket, update);
+  }
+
+  private send(socket: WebSocket, message: FeedMessage): void {
+    if (socket.readyState === WebSocket.OPEN) socket.send(toJson(message));
+  }
+}
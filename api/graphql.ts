@@ -0,0 +1,70 @@
+/**
+ * GraphQL over HTTP on top of the reference `graphql` package: requests as
+ * clients send them and responses as the server returns them, with resolver
+ * HttpErrors carried in the error's extensions.
+ */
+
+import { GraphQLError, GraphQLScalarType, GraphQLSchema, Kind, graphql } from "graphql";
+import { HttpError } from "./http";
+
+export interface GraphqlRequest {
+  query: string;
+  variables?: Record<string, unknown> | null;
+  operationName?: string | null;
+}
+
+export interface GraphqlError {
+  message: string;
+  path?: readonly (string | number)[];
+  extensions?: Record<string, unknown>;
+}
+
+export interface GraphqlResponse {
+  // Absent when the request could not be parsed or validated
+  data?: Record<string, unknown> | null;
+  errors?: GraphqlError[];
+}
+
+// uint256 values as decimal strings, accepted as strings or safe integers
+export const Uint256 = new GraphQLScalarType<bigint, string>({
+  name: "Uint256",
+  serialize(value) {
+    if (typeof value !== "bigint") throw new GraphQLError(`Uint256 cannot represent ${String(value)}`);
+    return value.toString();
+  },
+  parseValue(value) {
+    if (typeof value === "number" && Number.isSafeInteger(value) && value >= 0) return BigInt(value);
+    if (typeof value === "string" && /^\d+$/.test(value)) return BigInt(value);
+    throw new GraphQLError(`Uint256 cannot represent ${JSON.stringify(value)}`);
+  },
+  parseLiteral(node) {
+    if ((node.kind === Kind.STRING || node.kind === Kind.INT) && /^\d+$/.test(node.value)) return BigInt(node.value);
+    throw new GraphQLError("Uint256 must be a non-negative integer");
+  },
+});
+
+function toGraphqlError(error: GraphQLError): GraphqlError {
+  const { message, path, originalError } = error;
+  const result: GraphqlError = path ? { message, path } : { message };
+  if (originalError instanceof HttpError) {
+    result.extensions = { status: originalError.status, ...originalError.details };
+  }
+  return result;
+}
+
+/**
+ * Runs a query against `schema`. Resolver errors null their field and are listed
+ * in `errors` with its path, invalid documents return only `errors`.
+ */
+export async function executeGraphql(schema: GraphQLSchema, request: GraphqlRequest): Promise<GraphqlResponse> {
+  const result = await graphql({
+    schema,
+    source: request.query,
+    variableValues: request.variables,
+    operationName: request.operationName,
+  });
+  const response: GraphqlResponse = {};
+  if ("data" in result) response.data = result.data;
+  if (result.errors) response.errors = result.errors.map(toGraphqlError);
+  return response;
+}
@@ -0,0 +1,162 @@
+import { createHash } from "crypto";
+import { IncomingMessage, ServerResponse } from "http";
+import { isAddress } from "ethers";
+import { CANDLE_INTERVALS, CandleInterval, isCandleInterval } from "../sdk";
+
+/**
+ * A request the API rejects, answered with `status` and the message as JSON.
+ */
+export class HttpError extends Error {
+  readonly status: number;
+  readonly details?: Record<string, unknown>;
+
+  constructor(status: number, message: string, details?: Record<string, unknown>) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+    this.details = details;
+  }
+}
+
+/**
+ * A response a route sends as it is instead of as JSON, e.g. a CSV export.
+ */
+export class TextBody {
+  readonly contentType: string;
+  readonly text: string;
+
+  constructor(contentType: string, text: string) {
+    this.contentType = contentType;
+    this.text = text;
+  }
+}
+
+export interface Page<T> {
+  items: T[];
+  // Pass as `cursor` to get the next page, null on the last one
+  nextCursor: string | null;
+}
+
+export interface PageQuery {
+  limit: number;
+  offset: number;
+}
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 1000;
+
+function jsonReplacer(_key: string, value: unknown): unknown {
+  return typeof value === "bigint" ? value.toString() : value;
+}
+
+/**
+ * JSON with bigints as decimal strings so uint256 values survive the round trip.
+ */
+export function toJson(value: unknown): string {
+  return JSON.stringify(value, jsonReplacer);
+}
+
+/**
+ * Strong ETag of a response body. Bodies only change when the indexer commits
+ * new blocks, so clients revalidating with If-None-Match mostly get a 304.
+ */
+export function etagOf(body: string): string {
+  return `"${createHash("sha1").update(body).digest("base64url")}"`;
+}
+
+function matchesEtag(header: string | undefined, etag: string): boolean {
+  if (!header) return false;
+  if (header.trim() === "*") return true;
+  return header.split(",").some((tag) => tag.trim().replace(/^W\//, "") === etag);
+}
+
+/**
+ * Sends `value` as JSON with an ETag, or 304 without a body when the client
+ * already holds this exact representation.
+ */
+export function sendJson(req: IncomingMessage, res: ServerResponse, status: number, value: unknown): void {
+  sendText(req, res, status, new TextBody("application/json; charset=utf-8", toJson(value)));
+}
+
+/**
+ * Like sendJson for a body that is already serialized.
+ */
+export function sendText(req: IncomingMessage, res: ServerResponse, status: number, body: TextBody): void {
+  const etag = etagOf(body.text);
+  res.setHeader("ETag", etag);
+  res.setHeader("Cache-Control", "no-cache");
+  if (status === 200 && matchesEtag(req.headers["if-none-match"], etag)) {
+    res.writeHead(304).end();
+    return;
+  }
+  res.writeHead(status, { "Content-Type": body.contentType }).end(body.text);
+}
+
+export async function readBody(req: IncomingMessage, maxBytes: number): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > maxBytes) throw new HttpError(413, `Request body is larger than ${maxBytes} bytes`);
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+// Cursors are opaque to clients, they only encode the offset of the next page
+export function encodeCursor(offset: number): string {
+  return Buffer.from(`offset:${offset}`).toString("base64url");
+}
+
+function decodeCursor(cursor: string): number {
+  const match = /^offset:(\d+)$/.exec(Buffer.from(cursor, "base64url").toString("utf8"));
+  if (!match) throw new HttpError(400, `Invalid cursor "${cursor}"`);
+  return Number(match[1]);
+}
+
+export function pageQuery(limit: unknown, cursor: unknown, maxPageSize: number = MAX_PAGE_SIZE): PageQuery {
+  const size = limit === undefined || limit === null ? Math.min(DEFAULT_PAGE_SIZE, maxPageSize) : Number(limit);
+  if (!Number.isInteger(size) || size < 1 || size > maxPageSize) {
+    throw new HttpError(400, `limit must be an integer between 1 and ${maxPageSize}`);
+  }
+  return { limit: size, offset: cursor === undefined || cursor === null ? 0 : decodeCursor(String(cursor)) };
+}
+
+/**
+ * Slices one page out of `items`. Pass `hasMore` when `items` is already the
+ * page, fetched with one extra row to tell whether another page follows.
+ */
+export function paginate<T>(items: T[], query: PageQuery, hasMore?: boolean): Page<T> {
+  const page = hasMore === undefined ? items.slice(query.offset, query.offset + query.limit) : items;
+  const more = hasMore ?? query.offset + query.limit < items.length;
+  return { items: page, nextCursor: more ? encodeCursor(query.offset + query.limit) : null };
+}
+
+// Query strings and GraphQL String arguments carry uint256 values as decimal text, small ones may be Ints
+export function parseUint(value: unknown, name: string): bigint {
+  const text = typeof value === "number" && Number.isSafeInteger(value) ? String(value) : value;
+  if (typeof text !== "string" || !/^\d+$/.test(text)) {
+    throw new HttpError(400, `${name} must be a non-negative integer, got ${JSON.stringify(value)}`);
+  }
+  return BigInt(text);
+}
+
+export function parseAddress(value: unknown, name: string): string {
+  if (typeof value !== "string" || !isAddress(value)) {
+    throw new HttpError(400, `${name} must be an address, got ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+export function parseTimestamp(value: unknown, name: string): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  return Number(parseUint(value, name));
+}
+
+export function parseInterval(value: unknown, name: string): CandleInterval {
+  if (!isCandleInterval(value)) {
+    const intervals = Object.keys(CANDLE_INTERVALS).join(", ");
+    throw new HttpError(400, `${name} must be one of ${intervals}, got ${JSON.stringify(value)}`);
+  }
+  return value;
+}
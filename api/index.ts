@@ -0,0 +1,41 @@
+#!/usr/bin/env node
+import { JsonRpcProvider } from "ethers";
+import { IndexerStore, LiteswapIndexer } from "../sdk/indexer";
+import { LiteswapFeed } from "./feed";
+import { LiteswapApiServer } from "./server";
+
+export * from "./feed";
+export * from "./graphql";
+export * from "./http";
+export * from "./model";
+export * from "./rest";
+export * from "./schema";
+export * from "./server";
+
+/**
+ * Indexes the contract at LITESWAP_ADDRESS into LITESWAP_DB and serves it on
+ * LITESWAP_API_PORT, with the WebSocket feed at /ws on the same port. The
+ * indexer keeps polling the node while the API answers from the database only.
+ */
+export async function main(env: NodeJS.ProcessEnv = process.env): Promise<LiteswapApiServer> {
+  const address = env.LITESWAP_ADDRESS;
+  if (!address) throw new Error("LITESWAP_ADDRESS is required");
+  const provider = new JsonRpcProvider(env.LITESWAP_RPC_URL ?? "http://127.0.0.1:8545");
+  const store = new IndexerStore(env.LITESWAP_DB ?? "liteswap.db");
+  const indexer = new LiteswapIndexer(provider, address, store, { startBlock: Number(env.LITESWAP_START_BLOCK ?? 0) });
+  await indexer.sync();
+  indexer.start((err) => console.error("Indexer sync failed:", err));
+
+  const server = new LiteswapApiServer(store, { corsOrigin: env.LITESWAP_API_CORS_ORIGIN });
+  const feed = new LiteswapFeed(store, server.server);
+  const url = await server.listen(Number(env.LITESWAP_API_PORT ?? 8080), env.LITESWAP_API_HOST ?? "127.0.0.1");
+  console.log(`Liteswap API listening on ${url}, feed on ${url.replace(/^http/, "ws")}${feed.options.path}`);
+  return server;
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exitCode = 1;
+  });
+}
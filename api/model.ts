@@ -0,0 +1,147 @@
+import {
+  BookDepth,
+  CANDLE_INTERVALS,
+  Candle,
+  CandleInterval,
+  LimitOrder,
+  LiteswapError,
+  OrderBook,
+  OrderBookEntry,
+  Pair,
+  SwapQuote,
+  pairPrice,
+  buildCandles,
+  quoteSwap,
+  redeemableAmounts,
+  shareBps,
+} from "../sdk";
+import { IndexedPosition, IndexedSwap, IndexerStore } from "../sdk/indexer";
+import { HttpError, Page, PageQuery, paginate } from "./http";
+
+export interface PairView extends Pair {
+  // tokenB per tokenA in base units scaled by PRICE_SCALE, see pairPrice
+  price: bigint;
+}
+
+export interface PositionView extends IndexedPosition {
+  shareBps: bigint;
+  // What removeLiquidity would return for all shares at the indexed reserves
+  amountA: bigint;
+  amountB: bigint;
+}
+
+export interface OrderBookView {
+  pairId: bigint;
+  asks: OrderBookEntry[];
+  bids: OrderBookEntry[];
+  depth: BookDepth;
+}
+
+export interface StatusView {
+  // Last indexed block, null before the first sync
+  blockNumber: number | null;
+  blockHash: string | null;
+}
+
+export interface TradeQuery {
+  fromTimestamp?: number;
+  toTimestamp?: number;
+}
+
+/**
+ * What the API serves, read from an IndexerStore only so no request reaches the
+ * node. Shared by the REST routes and the GraphQL resolvers, unknown pairs and
+ * rejected quotes are HttpErrors.
+ */
+export class LiteswapReadModel {
+  readonly store: IndexerStore;
+
+  constructor(store: IndexerStore) {
+    this.store = store;
+  }
+
+  status(): StatusView {
+    const checkpoint = this.store.getCheckpoint();
+    return { blockNumber: checkpoint?.blockNumber ?? null, blockHash: checkpoint?.blockHash ?? null };
+  }
+
+  pairs(page: PageQuery): Page<PairView> {
+    return paginate(this.store.getPairs().map(toPairView), page);
+  }
+
+  pair(pairId: bigint): PairView {
+    const pair = this.store.getPair(pairId);
+    if (!pair) throw new HttpError(404, `Pair ${pairId} does not exist`);
+    return toPairView(pair);
+  }
+
+  positions(pairId: bigint, page: PageQuery): Page<PositionView> {
+    const pair = this.pair(pairId);
+    return paginate(this.store.getPositions(pairId).map((position) => toPositionView(pair, position)), page);
+  }
+
+  position(pairId: bigint, provider: string): PositionView {
+    return toPositionView(this.pair(pairId), this.store.getPosition(pairId, provider));
+  }
+
+  /**
+   * Every pair `provider` holds shares of, what the frontend used getUserShareBps for.
+   */
+  accountPositions(provider: string): PositionView[] {
+    return this.store
+      .getPairs()
+      .map((pair) => toPositionView(toPairView(pair), this.store.getPosition(pair.pairId, provider)))
+      .filter((position) => position.hasPosition);
+  }
+
+  orders(pairId: bigint, page: PageQuery, activeOnly = false): Page<LimitOrder> {
+    this.pair(pairId);
+    return paginate(this.store.getLimitOrders(pairId, activeOnly), page);
+  }
+
+  orderBook(pairId: bigint, tickSize: bigint = 1n): OrderBookView {
+    if (tickSize === 0n) throw new HttpError(400, "tickSize must be positive");
+    const book = new OrderBook(this.pair(pairId), this.store.getLimitOrders(pairId, true));
+    return { pairId, asks: book.asks, bids: book.bids, depth: book.depth(tickSize) };
+  }
+
+  quote(pairId: bigint, tokenIn: string, amountIn: bigint): SwapQuote {
+    try {
+      return quoteSwap(this.pair(pairId), tokenIn, amountIn);
+    } catch (err) {
+      if (!(err instanceof LiteswapError)) throw err;
+      throw new HttpError(400, err.message, { errorName: err.errorName });
+    }
+  }
+
+  /**
+   * Swaps of the pair oldest first, paged in SQL with one extra row to find out
+   * whether another page follows.
+   */
+  trades(pairId: bigint, query: TradeQuery, page: PageQuery): Page<IndexedSwap> {
+    this.pair(pairId);
+    const rows = this.store.getSwaps(pairId, { ...query, limit: page.limit + 1, offset: page.offset });
+    return paginate(rows.slice(0, page.limit), page, rows.length > page.limit);
+  }
+
+  /**
+   * OHLCV candles of the pair's swaps. `from` is rounded down to the start of its
+   * interval so the first candle covers every trade in it.
+   */
+  candles(pairId: bigint, interval: CandleInterval, query: TradeQuery, fillGaps = false): Candle[] {
+    const pair = this.pair(pairId);
+    const from = query.fromTimestamp;
+    const fromTimestamp = from === undefined ? undefined : from - (from % CANDLE_INTERVALS[interval]);
+    const swaps = this.store.getSwaps(pairId, { fromTimestamp, toTimestamp: query.toTimestamp });
+    return buildCandles(pair.tokenA, swaps, interval, { fillGaps });
+  }
+}
+
+function toPairView(pair: Pair): PairView {
+  return { ...pair, price: pairPrice(pair) };
+}
+
+function toPositionView(pair: Pair, position: IndexedPosition): PositionView {
+  const { amountA, amountB } = redeemableAmounts(pair, position.shares);
+  return { ...position, shareBps: shareBps(position.shares, pair.totalShares), amountA, amountB };
+}
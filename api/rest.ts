@@ -0,0 +1,153 @@
+import { candlesToCsv } from "../sdk";
+import { HttpError, TextBody, pageQuery, parseAddress, parseInterval, parseTimestamp, parseUint } from "./http";
+import { LiteswapReadModel } from "./model";
+
+export interface RouteContext {
+  model: LiteswapReadModel;
+  // Path parameters by name, e.g. pairId for /pairs/:pairId
+  params: Record<string, string>;
+  query: URLSearchParams;
+  maxPageSize: number;
+}
+
+export interface Route {
+  path: string;
+  description: string;
+  handle(ctx: RouteContext): unknown;
+}
+
+function pairId(ctx: RouteContext): bigint {
+  return parseUint(ctx.params.pairId, "pairId");
+}
+
+function paging(ctx: RouteContext) {
+  return pageQuery(ctx.query.get("limit") ?? undefined, ctx.query.get("cursor") ?? undefined, ctx.maxPageSize);
+}
+
+function required(ctx: RouteContext, name: string): string {
+  const value = ctx.query.get(name);
+  if (value === null) throw new HttpError(400, `Query parameter ${name} is required`);
+  return value;
+}
+
+/**
+ * GET routes of the REST API. Lists are paged with `limit` and the `nextCursor`
+ * of the previous page passed as `cursor`.
+ */
+export const ROUTES: Route[] = [
+  {
+    path: "/status",
+    description: "Last indexed block",
+    handle: (ctx) => ctx.model.status(),
+  },
+  {
+    path: "/pairs",
+    description: "Pairs with their reserves and price",
+    handle: (ctx) => ctx.model.pairs(paging(ctx)),
+  },
+  {
+    path: "/pairs/:pairId",
+    description: "One pair with its reserves and price",
+    handle: (ctx) => ctx.model.pair(pairId(ctx)),
+  },
+  {
+    path: "/pairs/:pairId/positions",
+    description: "LP positions of a pair",
+    handle: (ctx) => ctx.model.positions(pairId(ctx), paging(ctx)),
+  },
+  {
+    path: "/pairs/:pairId/positions/:provider",
+    description: "One provider's position, share and redeemable amounts",
+    handle: (ctx) => ctx.model.position(pairId(ctx), parseAddress(ctx.params.provider, "provider")),
+  },
+  {
+    path: "/pairs/:pairId/orders",
+    description: "Limit orders of a pair, ?active=true for open ones only",
+    handle: (ctx) => ctx.model.orders(pairId(ctx), paging(ctx), ctx.query.get("active") === "true"),
+  },
+  {
+    path: "/pairs/:pairId/orderbook",
+    description: "Open orders as asks and bids, with depth levels ?tickSize apart",
+    handle: (ctx) => {
+      const tickSize = ctx.query.get("tickSize");
+      return ctx.model.orderBook(pairId(ctx), tickSize === null ? undefined : parseUint(tickSize, "tickSize"));
+    },
+  },
+  {
+    path: "/pairs/:pairId/quote",
+    description: "Swap quote for ?tokenIn&amountIn at the indexed reserves",
+    handle: (ctx) =>
+      ctx.model.quote(
+        pairId(ctx),
+        parseAddress(required(ctx, "tokenIn"), "tokenIn"),
+        parseUint(required(ctx, "amountIn"), "amountIn")
+      ),
+  },
+  {
+    path: "/pairs/:pairId/trades",
+    description: "Swaps oldest first, ?from and ?to filter by block timestamp",
+    handle: (ctx) =>
+      ctx.model.trades(
+        pairId(ctx),
+        {
+          fromTimestamp: parseTimestamp(ctx.query.get("from") ?? undefined, "from"),
+          toTimestamp: parseTimestamp(ctx.query.get("to") ?? undefined, "to"),
+        },
+        paging(ctx)
+      ),
+  },
+  {
+    path: "/pairs/:pairId/candles",
+    description: "OHLCV candles of the swaps per ?interval (1m, 5m, 1h, 1d), ?from&to&fill=true&format=csv",
+    handle: (ctx) => {
+      const candles = ctx.model.candles(
+        pairId(ctx),
+        parseInterval(ctx.query.get("interval") ?? "1h", "interval"),
+        {
+          fromTimestamp: parseTimestamp(ctx.query.get("from") ?? undefined, "from"),
+          toTimestamp: parseTimestamp(ctx.query.get("to") ?? undefined, "to"),
+        },
+        ctx.query.get("fill") === "true"
+      );
+      if (ctx.query.get("format") !== "csv") return candles;
+      return new TextBody("text/csv; charset=utf-8", candlesToCsv(candles));
+    },
+  },
+  {
+    path: "/accounts/:provider/positions",
+    description: "Every position of a provider across pairs",
+    handle: (ctx) => ctx.model.accountPositions(parseAddress(ctx.params.provider, "provider")),
+  },
+];
+
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new HttpError(400, `Malformed path segment "${segment}"`);
+  }
+}
+
+/**
+ * Finds the route for `pathname` and extracts its parameters.
+ */
+export function matchRoute(
+  routes: Route[],
+  pathname: string
+): { route: Route; params: Record<string, string> } | undefined {
+  const segments = pathname.split("/").filter(Boolean);
+  for (const route of routes) {
+    const pattern = route.path.split("/").filter(Boolean);
+    if (pattern.length !== segments.length) continue;
+    const params: Record<string, string> = {};
+    const matches = pattern.every((part, index) => {
+      if (part.startsWith(":")) {
+        params[part.slice(1)] = decodeSegment(segments[index]);
+        return true;
+      }
+      return part === segments[index];
+    });
+    if (matches) return { route, params };
+  }
+  return undefined;
+}
@@ -0,0 +1,255 @@
+import {
+  GraphQLBoolean,
+  GraphQLFieldConfigMap,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLOutputType,
+  GraphQLSchema,
+  GraphQLString,
+} from "graphql";
+import { BookDepth, BookLevel, Candle, LimitOrder, OrderBookEntry, SwapQuote } from "../sdk";
+import { IndexedSwap } from "../sdk/indexer";
+import { Uint256 } from "./graphql";
+import { Page, pageQuery, parseAddress, parseInterval, parseTimestamp, parseUint } from "./http";
+import { LiteswapReadModel, OrderBookView, PairView, PositionView, StatusView } from "./model";
+
+const UINT = new GraphQLNonNull(Uint256);
+const INT = new GraphQLNonNull(GraphQLInt);
+const STRING = new GraphQLNonNull(GraphQLString);
+const BOOLEAN = new GraphQLNonNull(GraphQLBoolean);
+
+interface PageArgs {
+  limit?: number | null;
+  cursor?: string | null;
+}
+
+interface TradeArgs extends PageArgs {
+  // Block timestamps, both inclusive
+  from?: number | null;
+  to?: number | null;
+}
+
+// Fields read straight off the parent record by the default resolver
+function scalars<T>(types: Partial<Record<keyof T & string, GraphQLOutputType>>): GraphQLFieldConfigMap<T, unknown> {
+  const fields: GraphQLFieldConfigMap<T, unknown> = {};
+  for (const [name, type] of Object.entries<GraphQLOutputType | undefined>(types)) if (type) fields[name] = { type };
+  return fields;
+}
+
+function list(type: GraphQLOutputType): GraphQLNonNull<GraphQLList<GraphQLOutputType>> {
+  return new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(type)));
+}
+
+function page<T>(item: GraphQLObjectType<T>): GraphQLObjectType<Page<T>> {
+  return new GraphQLObjectType<Page<T>>({
+    name: `${item.name}Page`,
+    fields: { items: { type: list(item) }, nextCursor: { type: GraphQLString } },
+  });
+}
+
+const pageArgs = { limit: { type: GraphQLInt }, cursor: { type: GraphQLString } };
+const rangeArgs = { from: { type: GraphQLInt }, to: { type: GraphQLInt } };
+
+const Status = new GraphQLObjectType<StatusView>({
+  name: "Status",
+  fields: scalars<StatusView>({ blockNumber: GraphQLInt, blockHash: GraphQLString }),
+});
+
+const Position = new GraphQLObjectType<PositionView>({
+  name: "Position",
+  fields: scalars<PositionView>({
+    pairId: UINT,
+    provider: STRING,
+    shares: UINT,
+    hasPosition: BOOLEAN,
+    shareBps: UINT,
+    amountA: UINT,
+    amountB: UINT,
+  }),
+});
+
+const orderFields = {
+  pairId: UINT,
+  orderId: UINT,
+  maker: STRING,
+  offerToken: STRING,
+  desiredToken: STRING,
+  offerAmount: UINT,
+  desiredAmount: UINT,
+  active: BOOLEAN,
+};
+
+const Order = new GraphQLObjectType<LimitOrder>({ name: "Order", fields: scalars<LimitOrder>(orderFields) });
+
+// Book entries also carry their prices, see OrderBookEntry
+const BookOrder = new GraphQLObjectType<OrderBookEntry>({
+  name: "BookOrder",
+  fields: scalars<OrderBookEntry>({ ...orderFields, impliedPrice: UINT, quotePrice: UINT }),
+});
+
+const BookLevelType = new GraphQLObjectType<BookLevel>({
+  name: "BookLevel",
+  fields: scalars<BookLevel>({
+    quotePrice: UINT,
+    offerAmount: UINT,
+    desiredAmount: UINT,
+    cumulativeOfferAmount: UINT,
+    orders: INT,
+  }),
+});
+
+const Depth = new GraphQLObjectType<BookDepth>({
+  name: "Depth",
+  fields: scalars<BookDepth>({ asks: list(BookLevelType), bids: list(BookLevelType) }),
+});
+
+const OrderBook = new GraphQLObjectType<OrderBookView>({
+  name: "OrderBook",
+  fields: scalars<OrderBookView>({ pairId: UINT, asks: list(BookOrder), bids: list(BookOrder), depth: Depth }),
+});
+
+const Quote = new GraphQLObjectType<SwapQuote>({
+  name: "Quote",
+  fields: scalars<SwapQuote>({
+    pairId: UINT,
+    tokenIn: STRING,
+    tokenOut: STRING,
+    amountIn: UINT,
+    amountOut: UINT,
+    reserveIn: UINT,
+    reserveOut: UINT,
+    spotPrice: UINT,
+    effectivePrice: UINT,
+    priceImpactBps: UINT,
+    newReserveIn: UINT,
+    newReserveOut: UINT,
+  }),
+});
+
+const Trade = new GraphQLObjectType<IndexedSwap>({
+  name: "Trade",
+  fields: scalars<IndexedSwap>({
+    blockNumber: INT,
+    logIndex: INT,
+    transactionHash: STRING,
+    timestamp: INT,
+    pairId: UINT,
+    user: STRING,
+    tokenIn: STRING,
+    tokenOut: STRING,
+    amountIn: UINT,
+    amountOut: UINT,
+  }),
+});
+
+const CandleType = new GraphQLObjectType<Candle>({
+  name: "Candle",
+  fields: scalars<Candle>({
+    openTime: INT,
+    closeTime: INT,
+    open: UINT,
+    high: UINT,
+    low: UINT,
+    close: UINT,
+    volumeA: UINT,
+    volumeB: UINT,
+    trades: INT,
+  }),
+});
+
+/**
+ * GraphQL schema over the same read model as the REST routes. Pairs nest their
+ * positions, orders, book, quotes, trades and candles:
+ *
+ *   { pair(pairId: "1") { price reserveA trades(limit: 10) { items { amountIn } nextCursor } } }
+ *
+ * uint256 values are Uint256 decimal strings, and uint256 arguments are Strings.
+ */
+export function liteswapSchema(model: LiteswapReadModel, maxPageSize?: number): GraphQLSchema {
+  const paging = (args: PageArgs) => pageQuery(args.limit, args.cursor, maxPageSize);
+  const range = (args: TradeArgs) => ({
+    fromTimestamp: parseTimestamp(args.from, "from"),
+    toTimestamp: parseTimestamp(args.to, "to"),
+  });
+
+  const Pair = new GraphQLObjectType<PairView>({
+    name: "Pair",
+    fields: {
+      ...scalars<PairView>({
+        pairId: UINT,
+        tokenA: STRING,
+        tokenB: STRING,
+        reserveA: UINT,
+        reserveB: UINT,
+        totalShares: UINT,
+        price: UINT,
+      }),
+      positions: {
+        type: page(Position),
+        args: pageArgs,
+        resolve: (pair, args: PageArgs) => model.positions(pair.pairId, paging(args)),
+      },
+      position: {
+        type: Position,
+        args: { provider: { type: STRING } },
+        resolve: (pair, args: { provider: string }) =>
+          model.position(pair.pairId, parseAddress(args.provider, "provider")),
+      },
+      orders: {
+        type: page(Order),
+        args: { ...pageArgs, activeOnly: { type: GraphQLBoolean, defaultValue: false } },
+        resolve: (pair, args: PageArgs & { activeOnly: boolean }) =>
+          model.orders(pair.pairId, paging(args), args.activeOnly),
+      },
+      orderBook: {
+        type: OrderBook,
+        args: { tickSize: { type: GraphQLString } },
+        resolve: (pair, args: { tickSize?: string | null }) =>
+          model.orderBook(pair.pairId, args.tickSize == null ? undefined : parseUint(args.tickSize, "tickSize")),
+      },
+      quote: {
+        type: Quote,
+        args: { tokenIn: { type: STRING }, amountIn: { type: STRING } },
+        resolve: (pair, args: { tokenIn: string; amountIn: string }) =>
+          model.quote(pair.pairId, parseAddress(args.tokenIn, "tokenIn"), parseUint(args.amountIn, "amountIn")),
+      },
+      trades: {
+        type: page(Trade),
+        args: { ...rangeArgs, ...pageArgs },
+        resolve: (pair, args: TradeArgs) => model.trades(pair.pairId, range(args), paging(args)),
+      },
+      candles: {
+        type: list(CandleType),
+        args: {
+          interval: { type: STRING, defaultValue: "1h" },
+          ...rangeArgs,
+          fill: { type: BOOLEAN, defaultValue: false },
+        },
+        resolve: (pair, args: TradeArgs & { interval: string; fill: boolean }) =>
+          model.candles(pair.pairId, parseInterval(args.interval, "interval"), range(args), args.fill),
+      },
+    },
+  });
+
+  const Query = new GraphQLObjectType<undefined>({
+    name: "Query",
+    fields: {
+      status: { type: new GraphQLNonNull(Status), resolve: () => model.status() },
+      pairs: { type: page(Pair), args: pageArgs, resolve: (_, args: PageArgs) => model.pairs(paging(args)) },
+      pair: {
+        type: Pair,
+        args: { pairId: { type: STRING } },
+        resolve: (_, args: { pairId: string }) => model.pair(parseUint(args.pairId, "pairId")),
+      },
+      positions: {
+        type: list(Position),
+        args: { provider: { type: STRING } },
+        resolve: (_, args: { provider: string }) => model.accountPositions(parseAddress(args.provider, "provider")),
+      },
+    },
+  });
+
+  return new GraphQLSchema({ query: Query });
+}
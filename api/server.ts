@@ -0,0 +1,148 @@
+import { GraphQLSchema } from "graphql";
+import { IncomingMessage, Server, ServerResponse, createServer } from "http";
+import { AddressInfo } from "net";
+import { IndexerStore } from "../sdk/indexer";
+import { GraphqlRequest, executeGraphql } from "./graphql";
+import { HttpError, MAX_PAGE_SIZE, TextBody, readBody, sendJson, sendText } from "./http";
+import { LiteswapReadModel } from "./model";
+import { ROUTES, matchRoute } from "./rest";
+import { liteswapSchema } from "./schema";
+
+export interface ApiServerOptions {
+  // Largest `limit` a list request may ask for
+  maxPageSize?: number;
+  // Largest GraphQL POST body accepted
+  maxBodyBytes?: number;
+  // Access-Control-Allow-Origin sent with every response, none when empty
+  corsOrigin?: string;
+}
+
+/**
+ * HTTP server for frontends that should not talk to a node: REST routes and a
+ * GraphQL endpoint at /graphql, both answered from an IndexerStore kept current
+ * by a LiteswapIndexer. JSON responses carry an ETag and honour If-None-Match.
+ */
+export class LiteswapApiServer {
+  readonly model: LiteswapReadModel;
+  readonly schema: GraphQLSchema;
+  readonly server: Server;
+  readonly options: Required<ApiServerOptions>;
+
+  constructor(store: IndexerStore, options: ApiServerOptions = {}) {
+    this.options = {
+      maxPageSize: options.maxPageSize ?? MAX_PAGE_SIZE,
+      maxBodyBytes: options.maxBodyBytes ?? 100_000,
+      corsOrigin: options.corsOrigin ?? "*",
+    };
+    this.model = new LiteswapReadModel(store);
+    this.schema = liteswapSchema(this.model, this.options.maxPageSize);
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch((err: unknown) => {
+        if (!res.headersSent) sendJson(req, res, 500, { error: err instanceof Error ? err.message : String(err) });
+      });
+    });
+  }
+
+  /**
+   * Starts listening and resolves with the base URL. Port 0 picks a free port.
+   */
+  async listen(port: number = 0, host: string = "127.0.0.1"): Promise<string> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(port, host, () => {
+        this.server.off("error", reject);
+        resolve();
+      });
+    });
+    const address = this.server.address() as AddressInfo;
+    return `http://${address.family === "IPv6" ? `[${address.address}]` : address.address}:${address.port}`;
+  }
+
+  async close(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve, reject) => this.server.close((err) => (err ? reject(err) : resolve())));
+  }
+
+  async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (this.options.corsOrigin) {
+      res.setHeader("Access-Control-Allow-Origin", this.options.corsOrigin);
+      res.setHeader("Access-Control-Expose-Headers", "ETag");
+    }
+    try {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      if (req.method === "OPTIONS") {
+        res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+        res.setHeader("Access-Control-Allow-Headers", "Content-Type, If-None-Match");
+        res.writeHead(204).end();
+        return;
+      }
+      if (url.pathname === "/graphql") {
+        await this.graphql(req, res, url);
+        return;
+      }
+      if (req.method !== "GET" && req.method !== "HEAD") {
+        throw new HttpError(405, `${req.method} is not allowed, the REST API is read-only`);
+      }
+      if (url.pathname === "/") {
+        sendJson(req, res, 200, { routes: ROUTES.map(({ path, description }) => ({ path, description })) });
+        return;
+      }
+      const match = matchRoute(ROUTES, url.pathname);
+      if (!match) throw new HttpError(404, `No route for ${url.pathname}`);
+      const result = match.route.handle({
+        model: this.model,
+        params: match.params,
+        query: url.searchParams,
+        maxPageSize: this.options.maxPageSize,
+      });
+      if (result instanceof TextBody) sendText(req, res, 200, result);
+      else sendJson(req, res, 200, result);
+    } catch (err) {
+      if (!(err instanceof HttpError)) throw err;
+      sendJson(req, res, err.status, { error: err.message, ...err.details });
+    }
+  }
+
+  // GraphQL over HTTP: GET with ?query&variables&operationName or POST with a JSON body
+  private async graphql(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+    let request: GraphqlRequest;
+    if (req.method === "GET") {
+      const variables = url.searchParams.get("variables");
+      request = {
+        query: url.searchParams.get("query") ?? "",
+        variables: variables ? parseObject(variables, "variables") : undefined,
+        operationName: url.searchParams.get("operationName"),
+      };
+    } else if (req.method === "POST") {
+      const { query, variables, operationName } = parseObject(
+        await readBody(req, this.options.maxBodyBytes),
+        "request body"
+      );
+      if (typeof query !== "string") throw new HttpError(400, "query must be a string");
+      if (variables != null && !isObject(variables)) throw new HttpError(400, "variables must be an object");
+      if (operationName != null && typeof operationName !== "string") {
+        throw new HttpError(400, "operationName must be a string");
+      }
+      request = { query, variables, operationName };
+    } else {
+      throw new HttpError(405, `${req.method} is not allowed on /graphql`);
+    }
+    const response = await executeGraphql(this.schema, request);
+    sendJson(req, res, response.data === undefined ? 400 : 200, response);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseObject(text: string, name: string): Record<string, unknown> {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new HttpError(400, `${name} is not valid JSON`);
+  }
+  if (!isObject(value)) throw new HttpError(400, `${name} must be a JSON object`);
+  return value;
+}
@@ -0,0 +1,392 @@
+import {
+  BPS_DENOMINATOR,
+  LiteswapClient,
+  LiteswapError,
+  OrderBook,
+  OrderBookEntry,
+  TokenRegistry,
+  TxOptions,
+  formatPrice,
+  formatQuote,
+  loadPositionReport,
+  minAmountOutForSlippage,
+  quoteSwap,
+  redeemableAmounts,
+  pairPrice,
+  requiredAmountB,
+  sameAddress,
+} from "../sdk";
+import { CommandOutput, Row, UsageError, parseAmount } from "./output";
+
+export interface CommandContext {
+  client: LiteswapClient;
+  tokens: TokenRegistry;
+  dryRun: boolean;
+  // Token amounts are whole tokens with up to the token's decimals instead of base units
+  decimalAmounts: boolean;
+  options: Record<string, string | boolean | undefined>;
+}
+
+export interface CommandOption {
+  type: "string" | "boolean";
+  description: string;
+}
+
+export interface Command {
+  // Positional argument names, in order
+  args: string[];
+  description: string;
+  options?: Record<string, CommandOption>;
+  // Sends a transaction, needs a key and supports --dry-run
+  write?: boolean;
+  run(ctx: CommandContext, args: Record<string, string>): Promise<CommandOutput>;
+}
+
+interface Approval {
+  token: string;
+  amount: bigint;
+}
+
+/**
+ * Sends the write through the client, or with --dry-run replays it with eth_call.
+ * A dry run cannot set allowances, so a revert caused only by a missing approval
+ * is reported together with the approvals the real run would send first.
+ */
+async function send(
+  ctx: CommandContext,
+  method: string,
+  args: unknown[],
+  approvals: Approval[],
+  execute: () => Promise<Row>
+): Promise<Row> {
+  if (!ctx.dryRun) return execute();
+
+  const approvalsNeeded: Row[] = [];
+  for (const { token, amount } of approvals) {
+    const allowance = await ctx.client.getAllowance(token);
+    if (allowance < amount) approvalsNeeded.push({ token, allowance, required: amount });
+  }
+  try {
+    const result = await ctx.client.simulate(method, args);
+    return { dryRun: true, method, ...result, approvalsNeeded };
+  } catch (err) {
+    if (approvalsNeeded.length > 0 && err instanceof LiteswapError && err.errorName === "ERC20InsufficientAllowance") {
+      return { dryRun: true, method, result: "not simulated, approvals missing", approvalsNeeded };
+    }
+    throw err;
+  }
+}
+
+/**
+ * A token amount argument in `token`'s base units, or with --decimal in whole
+ * tokens such as 1.5, scaled by the decimals the registry reads from the token.
+ */
+async function tokenAmount(ctx: CommandContext, token: string, value: string, name: string): Promise<bigint> {
+  if (!ctx.decimalAmounts) return parseAmount(value, name);
+  try {
+    return await ctx.tokens.parse(token, value);
+  } catch (err) {
+    if (err instanceof RangeError) throw new UsageError(`${name}: ${err.message}`);
+    throw err;
+  }
+}
+
+function slippageOption(ctx: CommandContext): bigint {
+  const value = ctx.options.slippage;
+  return typeof value === "string" ? parseAmount(value, "--slippage") : 50n;
+}
+
+// --deadline-blocks n allows inclusion up to n blocks after the current one
+async function deadlineOption(ctx: CommandContext): Promise<TxOptions> {
+  const value = ctx.options["deadline-blocks"];
+  if (typeof value !== "string") return {};
+  const blocks = parseAmount(value, "--deadline-blocks");
+  const provider = ctx.client.signer.provider;
+  if (!provider) throw new UsageError("--deadline-blocks needs a connected provider");
+  return { deadline: (await provider.getBlockNumber()) + Number(blocks) };
+}
+
+const DEADLINE_OPTION: CommandOption = {
+  type: "string",
+  description: "Replace the transaction if it is not mined within this many blocks",
+};
+
+function orderRow(entry: OrderBookEntry, side: "ask" | "bid", decimalsA: number, decimalsB: number): Row {
+  return {
+    orderId: entry.orderId,
+    side,
+    maker: entry.maker,
+    offerToken: entry.offerToken,
+    offerAmount: entry.offerAmount,
+    desiredAmount: entry.desiredAmount,
+    quotePrice: entry.quotePrice,
+    price: formatPrice(entry.quotePrice, decimalsA, decimalsB),
+  };
+}
+
+async function initializedPair(client: LiteswapClient, pairId: bigint) {
+  const pair = await client.getPair(pairId);
+  if (!pair.initialized) throw new UsageError(`Pair ${pairId} does not exist`);
+  return pair;
+}
+
+const pair: Record<string, Command> = {
+  init: {
+    args: ["tokenA", "tokenB", "amountA", "amountB"],
+    description: "Create a pair and provide its initial liquidity",
+    write: true,
+    async run(ctx, { tokenA, tokenB, amountA, amountB }) {
+      const a = await tokenAmount(ctx, tokenA, amountA, "amountA");
+      const b = await tokenAmount(ctx, tokenB, amountB, "amountB");
+      return send(
+        ctx,
+        "initializePair",
+        [tokenA, tokenB, a, b],
+        [
+          { token: tokenA, amount: a },
+          { token: tokenB, amount: b },
+        ],
+        async () => ({ ...(await ctx.client.initializePair(tokenA, tokenB, a, b)) })
+      );
+    },
+  },
+  info: {
+    args: ["pairId"],
+    description: "Show the tokens, reserves, total shares and price of a pair",
+    async run(ctx, { pairId }) {
+      const current = await initializedPair(ctx.client, parseAmount(pairId, "pairId"));
+      const { tokenA, tokenB } = await ctx.tokens.forPair(current);
+      return {
+        ...current,
+        symbolA: tokenA.symbol,
+        symbolB: tokenB.symbol,
+        decimalsA: tokenA.decimals,
+        decimalsB: tokenB.decimals,
+        price: formatPrice(pairPrice(current), tokenA.decimals, tokenB.decimals),
+      };
+    },
+  },
+  list: {
+    args: [],
+    description: "List every pair",
+    async run(ctx) {
+      return (await ctx.client.getPairs()).map(({ pairId, tokenA, tokenB, reserveA, reserveB, totalShares }) => ({
+        pairId,
+        tokenA,
+        tokenB,
+        reserveA,
+        reserveB,
+        totalShares,
+      }));
+    },
+  },
+};
+
+const liquidity: Record<string, Command> = {
+  add: {
+    args: ["pairId", "amountA"],
+    description: "Add liquidity, the tokenB amount follows from the reserves",
+    write: true,
+    options: {
+      slippage: { type: "string", description: "Most extra tokenB in bps, set as its exact allowance (default 50)" },
+      "deadline-blocks": DEADLINE_OPTION,
+    },
+    async run(ctx, args) {
+      const pairId = parseAmount(args.pairId, "pairId");
+      const current = await initializedPair(ctx.client, pairId);
+      const amountA = await tokenAmount(ctx, current.tokenA, args.amountA, "amountA");
+      const slippageBps = slippageOption(ctx);
+      const maxAmountB = (requiredAmountB(current, amountA) * (BPS_DENOMINATOR + slippageBps)) / BPS_DENOMINATOR;
+      const options = { maxAmountB, ...(await deadlineOption(ctx)) };
+      return send(
+        ctx,
+        "addLiquidity",
+        [pairId, amountA],
+        [
+          { token: current.tokenA, amount: amountA },
+          { token: current.tokenB, amount: maxAmountB },
+        ],
+        async () => ({ ...(await ctx.client.addLiquidity(pairId, amountA, options)), maxAmountB })
+      );
+    },
+  },
+  remove: {
+    args: ["pairId", "shares"],
+    description: "Burn shares and withdraw both tokens",
+    write: true,
+    async run(ctx, args) {
+      const pairId = parseAmount(args.pairId, "pairId");
+      const shares = parseAmount(args.shares, "shares");
+      return send(ctx, "removeLiquidity", [pairId, shares], [], async () => ({
+        ...(await ctx.client.removeLiquidity(pairId, shares)),
+      }));
+    },
+  },
+  position: {
+    args: ["pairId"],
+    description: "Show the shares of an account and what they redeem for",
+    options: { user: { type: "string", description: "Account to inspect, defaults to the signer" } },
+    async run(ctx, args) {
+      const pairId = parseAmount(args.pairId, "pairId");
+      const user = typeof ctx.options.user === "string" ? ctx.options.user : await ctx.client.signer.getAddress();
+      const current = await initializedPair(ctx.client, pairId);
+      const position = await ctx.client.getPosition(pairId, user);
+      const { amountA, amountB } = redeemableAmounts(current, position.shares);
+      return {
+        pairId,
+        user,
+        shares: position.shares,
+        shareBps: await ctx.client.getUserShareBps(pairId, user),
+        amountA,
+        amountB,
+      };
+    },
+  },
+  report: {
+    args: ["pairId"],
+    description: "Cost basis, fees earned and impermanent loss of a position",
+    options: {
+      user: { type: "string", description: "Account to inspect, defaults to the signer" },
+      "from-block": { type: "string", description: "First block to scan for the account's deposits (default 0)" },
+    },
+    async run(ctx, args) {
+      const pairId = parseAmount(args.pairId, "pairId");
+      await initializedPair(ctx.client, pairId);
+      const user = typeof ctx.options.user === "string" ? ctx.options.user : undefined;
+      const fromBlock = ctx.options["from-block"];
+      const from = typeof fromBlock === "string" ? Number(parseAmount(fromBlock, "--from-block")) : 0;
+      return { ...(await loadPositionReport(ctx.client, pairId, user, from)) };
+    },
+  },
+};
+
+const swap: Record<string, Command> = {
+  quote: {
+    args: ["pairId", "tokenIn", "amountIn"],
+    description: "Quote a swap against the current reserves",
+    options: { slippage: { type: "string", description: "Slippage tolerance in bps for minAmountOut (default 50)" } },
+    async run(ctx, args) {
+      const pairId = parseAmount(args.pairId, "pairId");
+      const amountIn = await tokenAmount(ctx, args.tokenIn, args.amountIn, "amountIn");
+      const quote = quoteSwap(await initializedPair(ctx.client, pairId), args.tokenIn, amountIn);
+      const display = formatQuote(quote, await ctx.tokens.get(quote.tokenIn), await ctx.tokens.get(quote.tokenOut));
+      return {
+        tokenIn: quote.tokenIn,
+        tokenOut: quote.tokenOut,
+        amountIn: quote.amountIn,
+        amountOut: quote.amountOut,
+        minAmountOut: minAmountOutForSlippage(quote.amountOut, slippageOption(ctx)),
+        priceImpactBps: quote.priceImpactBps,
+        spotPrice: display.spotPrice,
+        effectivePrice: display.effectivePrice,
+      };
+    },
+  },
+  exec: {
+    args: ["pairId", "tokenIn", "amountIn"],
+    description: "Swap an exact input amount",
+    write: true,
+    options: {
+      slippage: { type: "string", description: "Slippage tolerance in bps (default 50)" },
+      "min-out": { type: "string", description: "Explicit minAmountOut, overrides --slippage" },
+      "deadline-blocks": DEADLINE_OPTION,
+    },
+    async run(ctx, args) {
+      const pairId = parseAmount(args.pairId, "pairId");
+      const amountIn = await tokenAmount(ctx, args.tokenIn, args.amountIn, "amountIn");
+      const quote = quoteSwap(await initializedPair(ctx.client, pairId), args.tokenIn, amountIn);
+      const minOut = ctx.options["min-out"];
+      const minAmountOut =
+        typeof minOut === "string"
+          ? await tokenAmount(ctx, quote.tokenOut, minOut, "--min-out")
+          : minAmountOutForSlippage(quote.amountOut, slippageOption(ctx));
+      const options = await deadlineOption(ctx);
+      return send(
+        ctx,
+        "swap",
+        [pairId, args.tokenIn, amountIn, minAmountOut],
+        [{ token: args.tokenIn, amount: amountIn }],
+        async () => ({
+          ...(await ctx.client.swap(pairId, args.tokenIn, amountIn, minAmountOut, options)),
+          minAmountOut,
+        })
+      );
+    },
+  },
+};
+
+const order: Record<string, Command> = {
+  place: {
+    args: ["pairId", "offerToken", "offerAmount", "desiredAmount"],
+    description: "Escrow offerAmount and ask for at least desiredAmount of the other token",
+    write: true,
+    async run(ctx, args) {
+      const pairId = parseAmount(args.pairId, "pairId");
+      const current = await initializedPair(ctx.client, pairId);
+      const desiredToken = sameAddress(args.offerToken, current.tokenA) ? current.tokenB : current.tokenA;
+      const offerAmount = await tokenAmount(ctx, args.offerToken, args.offerAmount, "offerAmount");
+      const desiredAmount = await tokenAmount(ctx, desiredToken, args.desiredAmount, "desiredAmount");
+      return send(
+        ctx,
+        "placeLimitOrder",
+        [pairId, args.offerToken, offerAmount, desiredAmount],
+        [{ token: args.offerToken, amount: offerAmount }],
+        async () => ({ ...(await ctx.client.placeLimitOrder(pairId, args.offerToken, offerAmount, desiredAmount)) })
+      );
+    },
+  },
+  fill: {
+    args: ["pairId", "orderId", "amount"],
+    description: "Pay `amount` of the order's desired token for a proportional part of its offer",
+    write: true,
+    async run(ctx, args) {
+      const pairId = parseAmount(args.pairId, "pairId");
+      const orderId = parseAmount(args.orderId, "orderId");
+      const { desiredToken } = await ctx.client.getLimitOrder(pairId, orderId);
+      const amount = await tokenAmount(ctx, desiredToken, args.amount, "amount");
+      return send(
+        ctx,
+        "fillLimitOrder",
+        [pairId, orderId, amount],
+        [{ token: desiredToken, amount }],
+        async () => ({ ...(await ctx.client.fillLimitOrder(pairId, orderId, amount)) })
+      );
+    },
+  },
+  cancel: {
+    args: ["pairId", "orderId"],
+    description: "Cancel one of your orders and get the remaining offer back",
+    write: true,
+    async run(ctx, args) {
+      const pairId = parseAmount(args.pairId, "pairId");
+      const orderId = parseAmount(args.orderId, "orderId");
+      return send(ctx, "cancelLimitOrder", [pairId, orderId], [], async () => ({
+        ...(await ctx.client.cancelLimitOrder(pairId, orderId)),
+      }));
+    },
+  },
+  list: {
+    args: ["pairId"],
+    description: "List the active orders of a pair, asks then bids, best first",
+    async run(ctx, args) {
+      const book = await OrderBook.load(ctx.client, parseAmount(args.pairId, "pairId"));
+      const { tokenA, tokenB } = await ctx.tokens.forPair(book.pair);
+      return [
+        ...book.asks.map((entry) => orderRow(entry, "ask", tokenA.decimals, tokenB.decimals)),
+        ...book.bids.map((entry) => orderRow(entry, "bid", tokenA.decimals, tokenB.decimals)),
+      ];
+    },
+  },
+};
+
+const token: Record<string, Command> = {
+  info: {
+    args: ["token"],
+    description: "Show the name, symbol and decimals of a token",
+    async run(ctx, args) {
+      return { ...(await ctx.tokens.get(args.token)) };
+    },
+  },
+};
+
+export const COMMANDS: Record<string, Record<string, Command>> = { pair, liquidity, swap, order, token };
@@ -0,0 +1,54 @@
+import { readFileSync } from "fs";
+import { JsonRpcProvider, Provider, Signer, VoidSigner, Wallet, ZeroAddress } from "ethers";
+import { UsageError } from "./output";
+
+export interface ConnectionFlags {
+  "rpc-url"?: string;
+  keystore?: string;
+  address?: string;
+}
+
+/**
+ * Where the CLI connects to and who it signs as. Flags take precedence over the
+ * LITESWAP_* environment variables.
+ */
+export interface CliConfig {
+  rpcUrl: string;
+  address: string;
+  privateKey?: string;
+  keystore?: string;
+  keystorePassword?: string;
+}
+
+export function loadConfig(flags: ConnectionFlags, env: NodeJS.ProcessEnv): CliConfig {
+  const address = flags.address ?? env.LITESWAP_ADDRESS;
+  if (!address) throw new UsageError("Liteswap address missing, pass --address or set LITESWAP_ADDRESS");
+  return {
+    rpcUrl: flags["rpc-url"] ?? env.LITESWAP_RPC_URL ?? "http://127.0.0.1:8545",
+    address,
+    privateKey: env.LITESWAP_PRIVATE_KEY,
+    keystore: flags.keystore ?? env.LITESWAP_KEYSTORE,
+    keystorePassword: env.LITESWAP_KEYSTORE_PASSWORD,
+  };
+}
+
+/**
+ * Builds the signer from a raw private key or an encrypted JSON keystore. Without
+ * either, read-only commands still work through a VoidSigner and write commands
+ * fail with a usage error when they try to sign.
+ */
+export async function loadSigner(config: CliConfig, provider: Provider = new JsonRpcProvider(config.rpcUrl)): Promise<Signer> {
+  if (config.privateKey) return new Wallet(config.privateKey, provider);
+  if (config.keystore) {
+    if (config.keystorePassword === undefined) {
+      throw new UsageError("LITESWAP_KEYSTORE_PASSWORD is required to decrypt the keystore");
+    }
+    const wallet = await Wallet.fromEncryptedJson(readFileSync(config.keystore, "utf8"), config.keystorePassword);
+    return wallet.connect(provider);
+  }
+  return new VoidSigner(ZeroAddress, provider);
+}
+
+export function canSign(signer: Signer): boolean {
+  return !(signer instanceof VoidSigner);
+}
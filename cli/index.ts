@@ -0,0 +1,131 @@
+#!/usr/bin/env node
+import { parseArgs, ParseArgsConfig } from "util";
+import { Signer } from "ethers";
+import { LiteswapClient, LiteswapError, TokenRegistry } from "../sdk";
+import { COMMANDS, Command } from "./commands";
+import { ConnectionFlags, canSign, loadConfig, loadSigner } from "./config";
+import { UsageError, formatTable, toJson } from "./output";
+
+/**
+ * Where main reads its environment and writes its output. Tests pass a signer
+ * from the Hardhat network instead of an RPC URL and key.
+ */
+export interface CliIo {
+  env: NodeJS.ProcessEnv;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  signer?: Signer;
+}
+
+const GLOBAL_OPTIONS: NonNullable<ParseArgsConfig["options"]> = {
+  "rpc-url": { type: "string" },
+  keystore: { type: "string" },
+  address: { type: "string" },
+  json: { type: "boolean" },
+  "dry-run": { type: "boolean" },
+  decimal: { type: "boolean" },
+  help: { type: "boolean", short: "h" },
+};
+
+function commandUsage(group: string, name: string, command: Command): string {
+  const args = command.args.map((arg) => `<${arg}>`).join(" ");
+  const options = Object.keys(command.options ?? {}).map((option) => ` [--${option}]`);
+  const dryRun = command.write ? " [--dry-run]" : "";
+  return `liteswap ${group} ${name}${args ? ` ${args}` : ""}${options.join("")}${dryRun}`;
+}
+
+export function usage(): string {
+  const entries = Object.entries(COMMANDS).flatMap(([group, commands]) =>
+    Object.entries(commands).map(([name, command]) => [commandUsage(group, name, command), command.description])
+  );
+  const width = Math.max(...entries.map(([line]) => line.length));
+  const lines = ["Usage:", ...entries.map(([line, description]) => `  ${line.padEnd(width)}  ${description}`)];
+  lines.push(
+    "",
+    "Global options: --address <liteswap> --rpc-url <url> --keystore <file> --json --decimal",
+    "Environment: LITESWAP_ADDRESS, LITESWAP_RPC_URL, LITESWAP_PRIVATE_KEY,",
+    "             LITESWAP_KEYSTORE, LITESWAP_KEYSTORE_PASSWORD",
+    "Token amounts are integers in the token's base units, or with --decimal whole tokens such as 1.5,",
+    "shares and ids are always integers, and prices are shown in whole tokens."
+  );
+  return lines.join("\n");
+}
+
+/**
+ * Runs one CLI invocation and returns the process exit code: 0 on success,
+ * 1 when the call failed or reverted, 2 on usage errors.
+ */
+export async function main(argv: string[], io: CliIo = defaultIo()): Promise<number> {
+  const [group, name] = argv;
+  const command = group && name ? COMMANDS[group]?.[name] : undefined;
+  if (!command) {
+    (argv.includes("--help") || argv.includes("-h") ? io.stdout : io.stderr)(usage());
+    return argv.includes("--help") || argv.includes("-h") ? 0 : 2;
+  }
+
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv.slice(2),
+      options: {
+        ...GLOBAL_OPTIONS,
+        ...Object.fromEntries(Object.entries(command.options ?? {}).map(([option, { type }]) => [option, { type }])),
+      },
+      allowPositionals: true,
+    });
+    if (values.help) {
+      io.stdout(`${commandUsage(group, name, command)}\n  ${command.description}`);
+      return 0;
+    }
+    if (positionals.length !== command.args.length) {
+      throw new UsageError(`Expected ${command.args.length} arguments, got ${positionals.length}`);
+    }
+    if (values["dry-run"] && !command.write) {
+      throw new UsageError(`${group} ${name} does not send a transaction, --dry-run does not apply`);
+    }
+
+    const config = loadConfig(values as ConnectionFlags, io.env);
+    const signer = io.signer ?? (await loadSigner(config));
+    if (command.write && !canSign(signer)) {
+      throw new UsageError("No signer configured, set LITESWAP_PRIVATE_KEY or LITESWAP_KEYSTORE");
+    }
+
+    const args = Object.fromEntries(command.args.map((arg, index) => [arg, positionals[index]]));
+    const output = await command.run(
+      {
+        client: new LiteswapClient(config.address, signer),
+        tokens: new TokenRegistry(signer),
+        dryRun: values["dry-run"] === true,
+        decimalAmounts: values.decimal === true,
+        options: values,
+      },
+      args
+    );
+    io.stdout(values.json ? toJson(output) : formatTable(output));
+    return 0;
+  } catch (err) {
+    if (err instanceof UsageError || (err as { code?: string }).code?.startsWith("ERR_PARSE_ARGS")) {
+      io.stderr(`Error: ${(err as Error).message}\n${commandUsage(group, name, command)}`);
+      return 2;
+    }
+    if (err instanceof LiteswapError) {
+      io.stderr(`Error: ${err.message}\nHint: ${err.remedy}`);
+      return 1;
+    }
+    io.stderr(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    return 1;
+  }
+}
+
+function defaultIo(): CliIo {
+  return {
+    env: process.env,
+    stdout: (text) => console.log(text),
+    stderr: (text) => console.error(text),
+  };
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,56 @@
+/**
+ * Bad arguments or missing configuration, reported with the command usage and exit code 2.
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+export type Row = Record<string, unknown>;
+
+/**
+ * What a command returns: one record, printed as key/value pairs, or a list of
+ * records printed as columns.
+ */
+export type CommandOutput = Row | Row[];
+
+function cell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "object") return JSON.stringify(value, jsonReplacer);
+  return String(value);
+}
+
+function jsonReplacer(_key: string, value: unknown): unknown {
+  return typeof value === "bigint" ? value.toString() : value;
+}
+
+/**
+ * JSON with bigints as decimal strings so uint256 values survive the round trip.
+ */
+export function toJson(output: CommandOutput): string {
+  return JSON.stringify(output, jsonReplacer, 2);
+}
+
+export function formatTable(output: CommandOutput): string {
+  if (!Array.isArray(output)) {
+    const entries = Object.entries(output);
+    const width = Math.max(0, ...entries.map(([key]) => key.length));
+    return entries.map(([key, value]) => `${key.padEnd(width)}  ${cell(value)}`).join("\n");
+  }
+  if (output.length === 0) return "(none)";
+
+  const columns = [...new Set(output.flatMap((row) => Object.keys(row)))];
+  const rows = output.map((row) => columns.map((column) => cell(row[column])));
+  const widths = columns.map((column, index) => Math.max(column.length, ...rows.map((row) => row[index].length)));
+  const line = (values: string[]) => values.map((value, index) => value.padEnd(widths[index])).join("  ").trimEnd();
+  return [line(columns), line(widths.map((width) => "-".repeat(width))), ...rows.map(line)].join("\n");
+}
+
+export function parseAmount(value: string | undefined, name: string): bigint {
+  if (value === undefined || !/^\d+$/.test(value)) {
+    throw new UsageError(`${name} must be a non negative integer in the token's base units, got ${value ?? "nothing"}`);
+  }
+  return BigInt(value);
+}
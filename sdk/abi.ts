@@ -0,0 +1,72 @@
+// Human readable ABI fragments for src/Liteswap.sol so the SDK does not depend on build artifacts.
+export const LITESWAP_ABI = [
+  // State changing functions
+  "function initializePair(address tokenA, address tokenB, uint256 amountA, uint256 amountB) returns (uint256 pairId)",
+  "function addLiquidity(uint256 pairId, uint256 amountA) returns (uint256 amountB, uint256 shares)",
+  "function removeLiquidity(uint256 pairId, uint256 sharesToBurn) returns (uint256 amountA, uint256 amountB)",
+  "function swap(uint256 pairId, address tokenIn, uint256 amountIn, uint256 minAmountOut) returns (uint256 amountOut)",
+  "function placeLimitOrder(uint256 pairId, address offerToken, uint256 offerAmount, uint256 desiredAmount) returns (uint256 orderId)",
+  "function fillLimitOrder(uint256 pairId, uint256 orderId, uint256 amountDesiredToFill) returns (uint256 filled)",
+  "function cancelLimitOrder(uint256 pairId, uint256 orderId)",
+
+  // View functions and public state
+  "function getPairId(address tokenA, address tokenB) view returns (uint256)",
+  "function getPairInfo(uint256 pairId) view returns (uint256 reserveA, uint256 reserveB, uint256 totalShares)",
+  "function getUserShareBps(uint256 pairId, address user) view returns (uint256)",
+  "function pairs(uint256 pairId) view returns (address tokenA, address tokenB, uint256 reserveA, uint256 reserveB, uint256 totalShares, bool initialized)",
+  "function tokenPairId(address tokenA, address tokenB) view returns (uint256)",
+  "function liquidityProviderPositions(uint256 pairId, address liquidityProvider) view returns (uint256 shares, bool hasPosition)",
+  "function limitOrders(uint256 pairId, uint256 orderId) view returns (address maker, address offerToken, address desiredToken, uint256 offerAmount, uint256 desiredAmount, bool active)",
+  "function _orderIdCounter(uint256 pairId) view returns (uint256)",
+  "function _pairIdCount() view returns (uint256)",
+
+  // Events
+  "event PairInitialized(uint256 indexed pairId, address indexed tokenA, address indexed tokenB)",
+  "event LiquidityAdded(uint256 indexed pairId, address indexed liquidityProvider, uint256 amountA, uint256 amountB, uint256 shares)",
+  "event LiquidityRemoved(uint256 indexed pairId, address indexed liquidityProvider, uint256 amountA, uint256 amountB, uint256 shares)",
+  "event ReservesUpdated(uint256 indexed pairId, uint256 reserveA, uint256 reserveB)",
+  "event Swap(uint256 indexed pairId, address indexed user, address tokenIn, address tokenOut, uint256 amountIn, uint256 amountOut)",
+  "event LimitOrderPlaced(uint256 indexed pairId, uint256 indexed orderId, address indexed maker, address offerToken, address desiredToken, uint256 offerAmount, uint256 desiredAmount)",
+  "event LimitOrderFilled(uint256 indexed pairId, uint256 indexed orderId, address indexed filler, uint256 amountFilled)",
+  "event LimitOrderCancelled(uint256 indexed pairId, uint256 indexed orderId)",
+
+  // Liteswap custom errors
+  "error PairAlreadyExists()",
+  "error PairDoesNotExist()",
+  "error InvalidTokenAddress()",
+  "error InsufficientLiquidity()",
+  "error InvalidAmount()",
+  "error TransferFailed()",
+  "error NoPosition()",
+  "error InvalidProportions()",
+  "error InsufficientShares()",
+  "error OrderDoesNotExist()",
+  "error OrderNotActive()",
+  "error NotOrderMaker()",
+  "error InvalidFillAmount()",
+  "error BadRatio()",
+
+  // Errors bubbled up from OpenZeppelin ReentrancyGuard, SafeERC20 and ERC20
+  "error ReentrancyGuardReentrantCall()",
+  "error SafeERC20FailedOperation(address token)",
+  "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+  "error ERC20InvalidSender(address sender)",
+  "error ERC20InvalidReceiver(address receiver)",
+  "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+  "error ERC20InvalidApprover(address approver)",
+  "error ERC20InvalidSpender(address spender)",
+] as const;
+
+export const ERC20_ABI = [
+  "function name() view returns (string)",
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+  "function totalSupply() view returns (uint256)",
+  "function balanceOf(address account) view returns (uint256)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 value) returns (bool)",
+  "function transfer(address to, uint256 value) returns (bool)",
+  "function transferFrom(address from, address to, uint256 value) returns (bool)",
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+  "event Approval(address indexed owner, address indexed spender, uint256 value)",
+] as const;
@@ -0,0 +1,195 @@
+import { Contract, Interface, Provider, getAddress, toBeHex, zeroPadValue } from "ethers";
+import { LITESWAP_ABI } from "./abi";
+import { parseLiteswapLog } from "./events";
+import { sameAddress } from "./math";
+import { PRICE_SCALE } from "./quote";
+import { formatPrice, formatTokenAmount } from "./tokens";
+
+const SWAP_TOPIC = new Interface(LITESWAP_ABI).getEvent("Swap")!.topicHash;
+
+export type CandleInterval = "1m" | "5m" | "1h" | "1d";
+
+// Length of each interval in seconds, candles open on multiples of it since the unix epoch
+export const CANDLE_INTERVALS: Record<CandleInterval, number> = { "1m": 60, "5m": 300, "1h": 3600, "1d": 86400 };
+
+/**
+ * A Swap event with its block timestamp. IndexedSwap rows from sdk/indexer fit as they are.
+ */
+export interface CandleTrade {
+  blockNumber: number;
+  logIndex: number;
+  timestamp: number;
+  tokenIn: string;
+  amountIn: bigint;
+  amountOut: bigint;
+}
+
+/**
+ * OHLC of the execution prices of the swaps within [openTime, closeTime), as
+ * tokenB per tokenA in base units scaled by PRICE_SCALE, the units of pairPrice.
+ */
+export interface Candle {
+  openTime: number;
+  closeTime: number;
+  open: bigint;
+  high: bigint;
+  low: bigint;
+  close: bigint;
+  // Both sides of every swap, whichever way it traded
+  volumeA: bigint;
+  volumeB: bigint;
+  trades: number;
+}
+
+export interface CandleOptions {
+  // Emit empty candles at the previous close for intervals without trades between the first and the last one
+  fillGaps?: boolean;
+}
+
+export interface BackfillOptions extends CandleOptions {
+  // Genesis by default, or the deployment block to save requests
+  fromBlock?: number;
+  toBlock?: number;
+  // Maximum block range per eth_getLogs request
+  batchSize?: number;
+}
+
+export function isCandleInterval(value: unknown): value is CandleInterval {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(CANDLE_INTERVALS, value);
+}
+
+function compareTrades(a: CandleTrade, b: CandleTrade): number {
+  return a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+}
+
+function candle(
+  openTime: number,
+  seconds: number,
+  price: bigint,
+  volumeA: bigint,
+  volumeB: bigint,
+  trades: number
+): Candle {
+  const closeTime = openTime + seconds;
+  return { openTime, closeTime, open: price, high: price, low: price, close: price, volumeA, volumeB, trades };
+}
+
+/**
+ * Aggregates swaps of a pair into candles, oldest first. `tokenA` is the pair's
+ * first token as returned by `pairs()`, it decides which side of a swap is the
+ * base. Swaps may come in any order, they are sorted by block and log index.
+ */
+export function buildCandles(
+  tokenA: string,
+  trades: readonly CandleTrade[],
+  interval: CandleInterval,
+  options: CandleOptions = {}
+): Candle[] {
+  const seconds = CANDLE_INTERVALS[interval];
+  const candles: Candle[] = [];
+  for (const trade of [...trades].sort(compareTrades)) {
+    const inA = sameAddress(trade.tokenIn, tokenA);
+    const [amountA, amountB] = inA ? [trade.amountIn, trade.amountOut] : [trade.amountOut, trade.amountIn];
+    if (amountA === 0n) continue;
+    const price = (amountB * PRICE_SCALE) / amountA;
+    const openTime = trade.timestamp - (trade.timestamp % seconds);
+
+    let last = candles[candles.length - 1];
+    if (last && options.fillGaps) {
+      for (let time = last.closeTime; time < openTime; time += seconds) {
+        last = candle(time, seconds, last.close, 0n, 0n, 0);
+        candles.push(last);
+      }
+    }
+    if (last?.openTime === openTime) {
+      if (price > last.high) last.high = price;
+      if (price < last.low) last.low = price;
+      last.close = price;
+      last.volumeA += amountA;
+      last.volumeB += amountB;
+      last.trades += 1;
+    } else {
+      candles.push(candle(openTime, seconds, price, amountA, amountB, 1));
+    }
+  }
+  return candles;
+}
+
+/**
+ * One row per candle under a header. Prices and volumes stay in base units
+ * unless the token decimals are given, then they are whole tokens.
+ */
+export function candlesToCsv(candles: readonly Candle[], decimals?: { decimalsA: number; decimalsB: number }): string {
+  const price = (value: bigint) =>
+    decimals ? formatPrice(value, decimals.decimalsA, decimals.decimalsB) : value.toString();
+  const rows = candles.map((candle) =>
+    [
+      candle.openTime,
+      new Date(candle.openTime * 1000).toISOString(),
+      price(candle.open),
+      price(candle.high),
+      price(candle.low),
+      price(candle.close),
+      decimals ? formatTokenAmount(candle.volumeA, decimals.decimalsA) : candle.volumeA,
+      decimals ? formatTokenAmount(candle.volumeB, decimals.decimalsB) : candle.volumeB,
+      candle.trades,
+    ].join(",")
+  );
+  return ["openTime,date,open,high,low,close,volumeA,volumeB,trades", ...rows].join("\n") + "\n";
+}
+
+/**
+ * Reads every Swap of a pair from the chain, for candles without an indexer.
+ */
+export async function fetchSwapTrades(
+  provider: Provider,
+  address: string,
+  pairId: bigint,
+  options: Omit<BackfillOptions, "fillGaps"> = {}
+): Promise<CandleTrade[]> {
+  const toBlock = options.toBlock ?? (await provider.getBlockNumber());
+  const batchSize = options.batchSize ?? 2000;
+  const timestamps = new Map<number, number>();
+  const trades: CandleTrade[] = [];
+  for (let from = options.fromBlock ?? 0; from <= toBlock; from += batchSize) {
+    const logs = await provider.getLogs({
+      address: getAddress(address),
+      fromBlock: from,
+      toBlock: Math.min(from + batchSize - 1, toBlock),
+      topics: [SWAP_TOPIC, zeroPadValue(toBeHex(pairId), 32)],
+    });
+    for (const log of logs) {
+      const event = parseLiteswapLog(log);
+      if (event?.name !== "Swap") continue;
+      if (!timestamps.has(log.blockNumber)) {
+        const block = await provider.getBlock(log.blockNumber);
+        if (!block) throw new Error(`Block ${log.blockNumber} is not available`);
+        timestamps.set(log.blockNumber, block.timestamp);
+      }
+      trades.push({
+        blockNumber: log.blockNumber,
+        logIndex: log.index,
+        timestamp: timestamps.get(log.blockNumber)!,
+        tokenIn: event.tokenIn,
+        amountIn: event.amountIn,
+        amountOut: event.amountOut,
+      });
+    }
+  }
+  return trades;
+}
+
+/**
+ * Candles of a pair straight from its Swap logs, by default since genesis.
+ */
+export async function backfillCandles(
+  provider: Provider,
+  address: string,
+  pairId: bigint,
+  interval: CandleInterval,
+  options: BackfillOptions = {}
+): Promise<Candle[]> {
+  const [tokenA] = (await new Contract(getAddress(address), LITESWAP_ABI, provider).pairs(pairId)) as string[];
+  const trades = await fetchSwapTrades(provider, address, pairId, options);
+  return buildCandles(tokenA, trades, interval, options);
+}
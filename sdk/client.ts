@@ -0,0 +1,429 @@
+import {
+  Addressable,
+  AddressLike,
+  Contract,
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+  MaxUint256,
+  Signer,
+  TransactionRequest,
+  TransactionResponse,
+  resolveAddress,
+} from "ethers";
+import { ERC20_ABI, LITESWAP_ABI } from "./abi";
+import {
+  DeadlineExceededError,
+  ErrorContext,
+  LiteswapError,
+  MissingProviderError,
+  PriceMovedError,
+  decodeLiteswapError,
+} from "./errors";
+import { LiteswapReceipt, parseLiteswapReceipt } from "./events";
+import { requiredAmountB } from "./liquidity";
+import { BPS_DENOMINATOR, computeAmountOut, orientReserves } from "./quote";
+import {
+  AddLiquidityResult,
+  CancelLimitOrderResult,
+  FillLimitOrderResult,
+  InitializePairResult,
+  LimitOrder,
+  LiquidityPosition,
+  Pair,
+  PlaceLimitOrderResult,
+  RemoveLiquidityResult,
+  SwapResult,
+} from "./types";
+
+/**
+ * How the client tops up ERC20 allowances before a state changing call.
+ * - "exact": approve exactly the amount the call will pull (default)
+ * - "max": approve MaxUint256 once
+ * - "none": never approve, the caller manages allowances
+ */
+export type ApprovalMode = "exact" | "max" | "none";
+
+export interface LiteswapClientOptions {
+  approval?: ApprovalMode;
+  // How often a transaction with a deadline is checked for inclusion, in milliseconds
+  pollingInterval?: number;
+}
+
+/**
+ * The contract has no deadline parameter, so the client enforces one: a
+ * transaction still pending once the chain is past `deadline` is replaced by a
+ * zero value self transfer with the same nonce and DeadlineExceededError is thrown.
+ * If the original transaction wins the race its result is returned as usual.
+ */
+export interface TxOptions {
+  // Last block number the transaction may be mined in
+  deadline?: number;
+}
+
+export interface AddLiquidityOptions extends TxOptions {
+  // Most tokenB the add may pull, set as the exact tokenB allowance so the contract enforces it too
+  maxAmountB?: bigint;
+  // Derives maxAmountB from the current reserves when it is not given
+  slippageBps?: bigint;
+}
+
+// Geth and Hardhat accept a replacement paying at least 10% more, keep a margin
+const REPLACEMENT_FEE_BUMP_BPS = 11250n;
+
+/**
+ * Typed wrapper around a deployed Liteswap contract. Every write method handles
+ * token allowances, waits for the receipt and returns the values decoded from
+ * the emitted events. Reverts are rethrown as LiteswapError where possible.
+ */
+export class LiteswapClient {
+  readonly contract: Contract;
+  readonly signer: Signer;
+  readonly options: Required<LiteswapClientOptions>;
+
+  constructor(address: string | Addressable, signer: Signer, options: LiteswapClientOptions = {}) {
+    this.contract = new Contract(address, LITESWAP_ABI, signer);
+    this.signer = signer;
+    this.options = { approval: options.approval ?? "exact", pollingInterval: options.pollingInterval ?? 1000 };
+  }
+
+  /**
+   * Returns a client for the same contract acting as another signer.
+   */
+  connect(signer: Signer): LiteswapClient {
+    return new LiteswapClient(this.contract.target, signer, this.options);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.contract.getAddress();
+  }
+
+  // View helpers
+
+  async getPairId(tokenA: AddressLike, tokenB: AddressLike): Promise<bigint> {
+    return this.contract.getPairId(await resolveAddress(tokenA), await resolveAddress(tokenB));
+  }
+
+  async getPair(pairId: bigint): Promise<Pair> {
+    const [tokenA, tokenB, reserveA, reserveB, totalShares, initialized] = await this.contract.pairs(pairId);
+    return { pairId, tokenA, tokenB, reserveA, reserveB, totalShares, initialized };
+  }
+
+  /**
+   * Every pair created so far, pairs(1.._pairIdCount - 1).
+   */
+  async getPairs(): Promise<Pair[]> {
+    const count: bigint = await this.contract._pairIdCount();
+    const ids: bigint[] = [];
+    for (let pairId = 1n; pairId < count; pairId++) ids.push(pairId);
+    return Promise.all(ids.map((pairId) => this.getPair(pairId)));
+  }
+
+  async getPosition(pairId: bigint, user?: AddressLike): Promise<LiquidityPosition> {
+    const account = user ? await resolveAddress(user) : await this.signer.getAddress();
+    const [shares, hasPosition] = await this.contract.liquidityProviderPositions(pairId, account);
+    return { shares, hasPosition };
+  }
+
+  async getUserShareBps(pairId: bigint, user?: AddressLike): Promise<bigint> {
+    const account = user ? await resolveAddress(user) : await this.signer.getAddress();
+    return this.contract.getUserShareBps(pairId, account);
+  }
+
+  async getLimitOrder(pairId: bigint, orderId: bigint): Promise<LimitOrder> {
+    const [maker, offerToken, desiredToken, offerAmount, desiredAmount, active] =
+      await this.contract.limitOrders(pairId, orderId);
+    return { pairId, orderId, maker, offerToken, desiredToken, offerAmount, desiredAmount, active };
+  }
+
+  async getAllowance(token: AddressLike, owner?: AddressLike): Promise<bigint> {
+    const erc20 = new Contract(await resolveAddress(token), ERC20_ABI, this.signer);
+    const account = owner ? await resolveAddress(owner) : await this.signer.getAddress();
+    return erc20.allowance(account, await this.getAddress());
+  }
+
+  // State changing wrappers
+
+  async initializePair(
+    tokenA: AddressLike,
+    tokenB: AddressLike,
+    amountA: bigint,
+    amountB: bigint
+  ): Promise<InitializePairResult> {
+    const addressA = await resolveAddress(tokenA);
+    const addressB = await resolveAddress(tokenB);
+    await this.ensureAllowance(addressA, amountA);
+    await this.ensureAllowance(addressB, amountB);
+
+    const receipt = await this.execute("initializePair", [addressA, addressB, amountA, amountB]);
+    const events = this.parseReceipt(receipt);
+    const initialized = events.get("PairInitialized");
+    const added = events.get("LiquidityAdded");
+    return {
+      pairId: initialized.pairId,
+      token0: initialized.tokenA,
+      token1: initialized.tokenB,
+      amountA: added.amountA,
+      amountB: added.amountB,
+      shares: added.shares,
+      txHash: receipt.hash,
+    };
+  }
+
+  /**
+   * Adds `amountA` of tokenA, the tokenB amount follows from the reserves at
+   * execution. With `maxAmountB` or `slippageBps` the tokenB allowance is set to
+   * exactly the limit, and the reserves are read again right before broadcasting
+   * to throw PriceMovedError instead of sending a call that would overspend.
+   */
+  async addLiquidity(pairId: bigint, amountA: bigint, options: AddLiquidityOptions = {}): Promise<AddLiquidityResult> {
+    const pair = await this.getPair(pairId);
+    if (options.maxAmountB !== undefined || options.slippageBps !== undefined) {
+      // Only read without maxAmountB, when the condition above means slippageBps is set
+      const slippageBps = options.slippageBps ?? 0n;
+      const maxAmountB =
+        options.maxAmountB ?? (requiredAmountB(pair, amountA) * (BPS_DENOMINATOR + slippageBps)) / BPS_DENOMINATOR;
+      await this.ensureAllowance(pair.tokenA, amountA);
+      await this.setExactAllowance(pair.tokenB, maxAmountB);
+      const amountB = requiredAmountB(await this.getPair(pairId), amountA);
+      if (amountB > maxAmountB) throw new PriceMovedError("addLiquidity", amountB, maxAmountB);
+    } else if (pair.initialized && pair.reserveA > 0n) {
+      // An uninitialized pair has no ratio, let the contract revert with PairDoesNotExist
+      await this.ensureAllowance(pair.tokenA, amountA);
+      await this.ensureAllowance(pair.tokenB, (amountA * pair.reserveB) / pair.reserveA);
+    }
+
+    const receipt = await this.execute("addLiquidity", [pairId, amountA], options);
+    const added = this.parseReceipt(receipt).get("LiquidityAdded");
+    return {
+      amountA: added.amountA,
+      amountB: added.amountB,
+      shares: added.shares,
+      txHash: receipt.hash,
+    };
+  }
+
+  async removeLiquidity(pairId: bigint, sharesToBurn: bigint): Promise<RemoveLiquidityResult> {
+    const receipt = await this.execute("removeLiquidity", [pairId, sharesToBurn]);
+    const removed = this.parseReceipt(receipt).get("LiquidityRemoved");
+    return {
+      amountA: removed.amountA,
+      amountB: removed.amountB,
+      shares: removed.shares,
+      txHash: receipt.hash,
+    };
+  }
+
+  async swap(
+    pairId: bigint,
+    tokenIn: AddressLike,
+    amountIn: bigint,
+    minAmountOut: bigint = 0n,
+    options: TxOptions = {}
+  ): Promise<SwapResult> {
+    const addressIn = await resolveAddress(tokenIn);
+    await this.ensureAllowance(addressIn, amountIn);
+
+    const receipt = await this.execute("swap", [pairId, addressIn, amountIn, minAmountOut], options);
+    const swapped = this.parseReceipt(receipt).get("Swap");
+    return {
+      tokenIn: swapped.tokenIn,
+      tokenOut: swapped.tokenOut,
+      amountIn: swapped.amountIn,
+      amountOut: swapped.amountOut,
+      txHash: receipt.hash,
+    };
+  }
+
+  async placeLimitOrder(
+    pairId: bigint,
+    offerToken: AddressLike,
+    offerAmount: bigint,
+    desiredAmount: bigint
+  ): Promise<PlaceLimitOrderResult> {
+    const addressOffer = await resolveAddress(offerToken);
+    await this.ensureAllowance(addressOffer, offerAmount);
+
+    const receipt = await this.execute("placeLimitOrder", [pairId, addressOffer, offerAmount, desiredAmount]);
+    const placed = this.parseReceipt(receipt).get("LimitOrderPlaced");
+    return {
+      orderId: placed.orderId,
+      offerToken: placed.offerToken,
+      desiredToken: placed.desiredToken,
+      offerAmount: placed.offerAmount,
+      desiredAmount: placed.desiredAmount,
+      txHash: receipt.hash,
+    };
+  }
+
+  async fillLimitOrder(pairId: bigint, orderId: bigint, amountDesiredToFill: bigint): Promise<FillLimitOrderResult> {
+    const order = await this.getLimitOrder(pairId, orderId);
+    // Inactive orders revert with OrderNotActive before any transfer, no approval needed
+    if (order.active) {
+      await this.ensureAllowance(order.desiredToken, amountDesiredToFill);
+    }
+
+    const receipt = await this.execute("fillLimitOrder", [pairId, orderId, amountDesiredToFill]);
+    const filled = this.parseReceipt(receipt).get("LimitOrderFilled");
+    return {
+      orderId: filled.orderId,
+      filled: filled.amountFilled,
+      txHash: receipt.hash,
+    };
+  }
+
+  async cancelLimitOrder(pairId: bigint, orderId: bigint): Promise<CancelLimitOrderResult> {
+    const receipt = await this.execute("cancelLimitOrder", [pairId, orderId]);
+    const cancelled = this.parseReceipt(receipt).get("LimitOrderCancelled");
+    return {
+      orderId: cancelled.orderId,
+      txHash: receipt.hash,
+    };
+  }
+
+  /**
+   * Makes sure the Liteswap contract may pull `amount` of `token` from the signer,
+   * according to the configured approval mode.
+   */
+  async ensureAllowance(token: AddressLike, amount: bigint): Promise<void> {
+    if (this.options.approval === "none" || amount === 0n) return;
+    if ((await this.getAllowance(token)) >= amount) return;
+
+    const erc20 = new Contract(await resolveAddress(token), ERC20_ABI, this.signer);
+    const spender = await this.getAddress();
+    const value = this.options.approval === "max" ? MaxUint256 : amount;
+    try {
+      await (await erc20.approve(spender, value)).wait();
+    } catch (err) {
+      throw decodeLiteswapError(err) ?? err;
+    }
+  }
+
+  /**
+   * Sets the allowance of the Liteswap contract to exactly `amount`, lowering it
+   * if needed, so the contract can never pull more. No-op in approval mode "none".
+   */
+  async setExactAllowance(token: AddressLike, amount: bigint): Promise<void> {
+    if (this.options.approval === "none") return;
+    if ((await this.getAllowance(token)) === amount) return;
+
+    const erc20 = new Contract(await resolveAddress(token), ERC20_ABI, this.signer);
+    try {
+      await (await erc20.approve(await this.getAddress(), amount)).wait();
+    } catch (err) {
+      throw decodeLiteswapError(err) ?? err;
+    }
+  }
+
+  /**
+   * Runs a state changing method with eth_call instead of sending it and returns
+   * its named return values, e.g. { amountOut } for swap. No allowances are set,
+   * so the call reverts with ERC20InsufficientAllowance until they are.
+   */
+  async simulate(method: string, args: unknown[]): Promise<Record<string, unknown>> {
+    try {
+      const result = await this.contract.getFunction(method).staticCallResult(...args);
+      return result.toObject();
+    } catch (err) {
+      throw await this.decodeError(method, args, err);
+    }
+  }
+
+  private async execute(method: string, args: unknown[], options: TxOptions = {}): Promise<ContractTransactionReceipt> {
+    if (options.deadline !== undefined) {
+      const blockNumber = await this.provider().getBlockNumber();
+      if (blockNumber > options.deadline) throw new DeadlineExceededError(options.deadline, blockNumber);
+    }
+    try {
+      const tx: ContractTransactionResponse = await this.contract.getFunction(method)(...args);
+      const receipt =
+        options.deadline === undefined ? await tx.wait() : await this.waitWithDeadline(tx, options.deadline);
+      if (!receipt) throw new Error(`Transaction for ${method} was dropped`);
+      return receipt;
+    } catch (err) {
+      if (err instanceof DeadlineExceededError) throw err;
+      throw await this.decodeError(method, args, err);
+    }
+  }
+
+  private provider() {
+    const provider = this.signer.provider;
+    if (!provider) throw new MissingProviderError();
+    return provider;
+  }
+
+  private async waitWithDeadline(
+    tx: ContractTransactionResponse,
+    deadline: number
+  ): Promise<ContractTransactionReceipt | null> {
+    const provider = this.provider();
+    let replacement: TransactionResponse | undefined;
+    for (;;) {
+      // Mined, possibly after the deadline while the replacement was pending
+      if (await provider.getTransactionReceipt(tx.hash)) return tx.wait();
+      if (replacement) {
+        const receipt = await provider.getTransactionReceipt(replacement.hash);
+        if (receipt) throw new DeadlineExceededError(deadline, receipt.blockNumber, tx.hash, replacement.hash);
+      } else if ((await provider.getBlockNumber()) > deadline) {
+        try {
+          replacement = await this.replace(tx);
+        } catch (err) {
+          // The original was mined in between and took the nonce
+          if (!(await provider.getTransactionReceipt(tx.hash))) throw err;
+        }
+      }
+      await new Promise((resolve) => setTimeout(resolve, this.options.pollingInterval));
+    }
+  }
+
+  // Zero value self transfer with the same nonce, paying enough to evict `tx`
+  private async replace(tx: TransactionResponse): Promise<TransactionResponse> {
+    const fees = await this.provider().getFeeData();
+    const bump = (paid: bigint | null, current: bigint | null) => {
+      const bumped = ((paid ?? 0n) * REPLACEMENT_FEE_BUMP_BPS) / BPS_DENOMINATOR + 1n;
+      return current !== null && current > bumped ? current : bumped;
+    };
+    const request: TransactionRequest = { to: await this.signer.getAddress(), value: 0n, nonce: tx.nonce };
+    if (tx.maxFeePerGas !== null) {
+      request.maxFeePerGas = bump(tx.maxFeePerGas, fees.maxFeePerGas);
+      request.maxPriorityFeePerGas = bump(tx.maxPriorityFeePerGas, fees.maxPriorityFeePerGas);
+    } else {
+      request.gasPrice = bump(tx.gasPrice, fees.gasPrice);
+    }
+    return this.signer.sendTransaction(request);
+  }
+
+  private async decodeError(method: string, args: unknown[], err: unknown): Promise<unknown> {
+    const decoded = decodeLiteswapError(err);
+    if (!decoded) return err;
+    return decodeLiteswapError(err, await this.errorContext(method, args, decoded).catch(() => ({}))) ?? decoded;
+  }
+
+  /**
+   * Reads the state needed to explain a revert in concrete numbers.
+   */
+  private async errorContext(method: string, args: unknown[], error: LiteswapError): Promise<ErrorContext> {
+    const context: ErrorContext = { method };
+    if (method === "placeLimitOrder" && error.errorName === "BadRatio") {
+      const [pairId, offerToken, offerAmount, desiredAmount] = args as [bigint, string, bigint, bigint];
+      const { reserveIn, reserveOut } = orientReserves(await this.getPair(pairId), offerToken);
+      context.ammOutput = computeAmountOut(offerAmount, reserveIn, reserveOut);
+      context.desiredAmount = desiredAmount;
+    } else if (method === "swap" && error.errorName === "InvalidAmount") {
+      const [pairId, tokenIn, amountIn, minAmountOut] = args as [bigint, string, bigint, bigint];
+      const { reserveIn, reserveOut } = orientReserves(await this.getPair(pairId), tokenIn);
+      context.expectedOut = computeAmountOut(amountIn, reserveIn, reserveOut);
+      context.minAmountOut = minAmountOut;
+    } else if (method === "fillLimitOrder" && error.errorName === "InvalidFillAmount") {
+      const [pairId, orderId] = args as [bigint, bigint];
+      context.remainingDesired = (await this.getLimitOrder(pairId, orderId)).desiredAmount;
+    } else if (method === "removeLiquidity" && error.errorName === "InsufficientShares") {
+      const [pairId] = args as [bigint];
+      context.positionShares = (await this.getPosition(pairId)).shares;
+    }
+    return context;
+  }
+
+  private parseReceipt(receipt: ContractTransactionReceipt): LiteswapReceipt {
+    return parseLiteswapReceipt(receipt, String(this.contract.target));
+  }
+}
@@ -0,0 +1,378 @@
+import { Interface, Provider, TransactionReceipt, isHexString } from "ethers";
+import { LITESWAP_ABI } from "./abi";
+
+const liteswapInterface = new Interface(LITESWAP_ABI);
+
+/**
+ * Every revert reason a Liteswap call can surface: the contract's own custom
+ * errors, the OpenZeppelin SafeERC20 / IERC20Errors / ReentrancyGuard errors that
+ * bubble up from token transfers, and Solidity's builtin Error(string) and Panic(uint256).
+ */
+export type LiteswapErrorReason =
+  | { name: "PairAlreadyExists" }
+  | { name: "PairDoesNotExist" }
+  | { name: "InvalidTokenAddress" }
+  | { name: "InsufficientLiquidity" }
+  | { name: "InvalidAmount" }
+  | { name: "TransferFailed" }
+  | { name: "NoPosition" }
+  | { name: "InvalidProportions" }
+  | { name: "InsufficientShares" }
+  | { name: "OrderDoesNotExist" }
+  | { name: "OrderNotActive" }
+  | { name: "NotOrderMaker" }
+  | { name: "InvalidFillAmount" }
+  | { name: "BadRatio" }
+  | { name: "ReentrancyGuardReentrantCall" }
+  | { name: "SafeERC20FailedOperation"; token: string }
+  | { name: "ERC20InsufficientBalance"; sender: string; balance: bigint; needed: bigint }
+  | { name: "ERC20InvalidSender"; sender: string }
+  | { name: "ERC20InvalidReceiver"; receiver: string }
+  | { name: "ERC20InsufficientAllowance"; spender: string; allowance: bigint; needed: bigint }
+  | { name: "ERC20InvalidApprover"; approver: string }
+  | { name: "ERC20InvalidSpender"; spender: string }
+  | { name: "Error"; message: string }
+  | { name: "Panic"; code: bigint };
+
+export type LiteswapErrorName = LiteswapErrorReason["name"];
+
+/**
+ * Optional facts about the failed call that make explanations concrete, e.g. the
+ * AMM output a limit order was compared against.
+ */
+export interface ErrorContext {
+  method?: string;
+  ammOutput?: bigint;
+  desiredAmount?: bigint;
+  minAmountOut?: bigint;
+  expectedOut?: bigint;
+  remainingDesired?: bigint;
+  positionShares?: bigint;
+}
+
+const PANIC_CODES: Record<string, string> = {
+  "1": "assertion failed",
+  "17": "arithmetic overflow or underflow",
+  "18": "division by zero",
+  "33": "invalid enum value",
+  "34": "invalid storage byte array",
+  "49": "pop on empty array",
+  "50": "array index out of bounds",
+  "65": "out of memory",
+  "81": "call to uninitialized function",
+};
+
+/**
+ * Error thrown by the SDK when a Liteswap call reverts with a known error.
+ * `errorName` matches the Solidity error name, e.g. "BadRatio" or "OrderNotActive",
+ * and `reason` narrows to the error's typed arguments.
+ */
+export class LiteswapError extends Error {
+  readonly errorName: LiteswapErrorName;
+  readonly reason: LiteswapErrorReason;
+  readonly args: readonly unknown[];
+  readonly data: string;
+  readonly explanation: string;
+  readonly remedy: string;
+  readonly cause?: unknown;
+
+  constructor(reason: LiteswapErrorReason, args: readonly unknown[], data: string, context: ErrorContext = {}, cause?: unknown) {
+    const { explanation, remedy } = describeError(reason, context);
+    super(`${reason.name}: ${explanation}`);
+    this.name = "LiteswapError";
+    this.errorName = reason.name;
+    this.reason = reason;
+    this.args = args;
+    this.data = data;
+    this.explanation = explanation;
+    this.remedy = remedy;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Human readable explanation and suggested remedy for a revert reason.
+ */
+export function describeError(reason: LiteswapErrorReason, context: ErrorContext = {}): { explanation: string; remedy: string } {
+  switch (reason.name) {
+    case "PairAlreadyExists":
+      return {
+        explanation: "a pair for these two tokens already exists",
+        remedy: "look it up with getPairId and call addLiquidity instead",
+      };
+    case "PairDoesNotExist":
+      return {
+        explanation: "no initialized pair has this id",
+        remedy: "check the id with getPairId or create the pair with initializePair",
+      };
+    case "InvalidTokenAddress":
+      return {
+        explanation: "a token is the zero address, both tokens are the same, or the token is not part of the pair",
+        remedy: "pass one of the pair's two token addresses",
+      };
+    case "InsufficientLiquidity":
+      return {
+        explanation: "initial shares are below MINIMUM_SHARES (1000), no shares would be minted, or the output would drain the reserve",
+        remedy: "provide larger amounts or trade a smaller size",
+      };
+    case "InvalidAmount":
+      if (context.minAmountOut !== undefined && context.expectedOut !== undefined && context.expectedOut < context.minAmountOut) {
+        return {
+          explanation: `the swap would return ${context.expectedOut}, below your minAmountOut of ${context.minAmountOut}`,
+          remedy: "re-quote against the current reserves or widen the slippage tolerance",
+        };
+      }
+      return {
+        explanation: "an amount is zero, rounds down to zero, or the swap output is below minAmountOut",
+        remedy: "increase the amount or re-quote and relax minAmountOut",
+      };
+    case "TransferFailed":
+      return {
+        explanation: "a token transfer into the contract failed",
+        remedy: "check the token balance and allowance",
+      };
+    case "NoPosition":
+      return {
+        explanation: "the caller has no liquidity position in this pair",
+        remedy: "check liquidityProviderPositions for the connected account",
+      };
+    case "InvalidProportions":
+      return {
+        explanation: "the token amounts do not match the pool ratio",
+        remedy: "derive the counter token amount from the current reserves",
+      };
+    case "InsufficientShares":
+      return {
+        explanation:
+          context.positionShares !== undefined
+            ? `you are burning more shares than the ${context.positionShares} your position holds`
+            : "you are burning more shares than your position holds",
+        remedy: "burn at most the shares returned by liquidityProviderPositions",
+      };
+    case "OrderDoesNotExist":
+      return {
+        explanation: "no limit order has this id in the pair",
+        remedy: "check the id against _orderIdCounter for the pair",
+      };
+    case "OrderNotActive":
+      return {
+        explanation: "the order was already filled or cancelled",
+        remedy: "reload the order book and pick an active order",
+      };
+    case "NotOrderMaker":
+      return {
+        explanation: "only the maker of the order can cancel it",
+        remedy: "cancel from the account that placed the order",
+      };
+    case "InvalidFillAmount":
+      return {
+        explanation:
+          context.remainingDesired !== undefined
+            ? `the fill is zero, exceeds the remaining desiredAmount of ${context.remainingDesired}, or pays out zero offer tokens`
+            : "the fill is zero, exceeds the remaining desiredAmount, or pays out zero offer tokens",
+        remedy: "fill between 1 and the order's remaining desiredAmount",
+      };
+    case "BadRatio":
+      return {
+        explanation:
+          context.ammOutput !== undefined
+            ? `your desiredAmount is below current AMM output of ${context.ammOutput}`
+            : "your desiredAmount is below what a swap of the offered amount returns from the pool",
+        remedy:
+          context.ammOutput !== undefined
+            ? `ask for at least ${context.ammOutput} or use swap instead`
+            : "raise desiredAmount above the quoted swap output or use swap instead",
+      };
+    case "ReentrancyGuardReentrantCall":
+      return {
+        explanation: "a token callback tried to re-enter Liteswap",
+        remedy: "avoid tokens with transfer hooks that call back into Liteswap",
+      };
+    case "SafeERC20FailedOperation":
+      return {
+        explanation: `token ${reason.token} returned false on transfer`,
+        remedy: "check the token contract, it may be paused or non standard",
+      };
+    case "ERC20InsufficientBalance":
+      return {
+        explanation: `${reason.sender} holds ${reason.balance} but the call needs ${reason.needed}`,
+        remedy: "top up the token balance or reduce the amount",
+      };
+    case "ERC20InsufficientAllowance":
+      return {
+        explanation: `allowance for ${reason.spender} is ${reason.allowance} but the call needs ${reason.needed}`,
+        remedy: `approve at least ${reason.needed} to ${reason.spender}`,
+      };
+    case "ERC20InvalidSender":
+      return { explanation: `invalid token sender ${reason.sender}`, remedy: "send from a non zero address" };
+    case "ERC20InvalidReceiver":
+      return { explanation: `invalid token receiver ${reason.receiver}`, remedy: "send to a non zero address" };
+    case "ERC20InvalidApprover":
+      return { explanation: `invalid approver ${reason.approver}`, remedy: "approve from a non zero address" };
+    case "ERC20InvalidSpender":
+      return { explanation: `invalid spender ${reason.spender}`, remedy: "approve a non zero spender" };
+    case "Error":
+      return { explanation: reason.message, remedy: "see the revert message" };
+    case "Panic":
+      return {
+        explanation: `panic 0x${reason.code.toString(16)} (${PANIC_CODES[reason.code.toString()] ?? "unknown panic code"})`,
+        remedy: "the inputs hit an arithmetic edge case, try different amounts",
+      };
+  }
+}
+
+/**
+ * Walks the nested error shapes produced by ethers, Hardhat and JSON-RPC providers
+ * and returns the first revert payload found.
+ */
+export function extractRevertData(err: unknown): string | undefined {
+  const seen = new Set<unknown>();
+  const queue: unknown[] = [err];
+  while (queue.length > 0) {
+    const current = queue.shift();
+    if (current === null || typeof current !== "object" || seen.has(current)) continue;
+    seen.add(current);
+    const candidate = current as Record<string, unknown>;
+    if (typeof candidate.data === "string" && isHexString(candidate.data) && candidate.data.length >= 10) {
+      return candidate.data;
+    }
+    queue.push(candidate.data, candidate.error, candidate.info, candidate.cause);
+  }
+  return undefined;
+}
+
+/**
+ * Decodes raw revert data into a typed reason, or undefined for unknown selectors.
+ */
+export function decodeRevertData(data: string): { reason: LiteswapErrorReason; args: unknown[] } | undefined {
+  const parsed = liteswapInterface.parseError(data);
+  if (!parsed) return undefined;
+  const args = [...parsed.args];
+  const named: Record<string, unknown> = { name: parsed.name };
+  parsed.fragment.inputs.forEach((input, index) => {
+    named[input.name] = args[index];
+  });
+  if (parsed.name === "Error") named.message = args[0];
+  if (parsed.name === "Panic") named.code = args[0];
+  return { reason: named as LiteswapErrorReason, args };
+}
+
+/**
+ * Decodes a failed call, staticCall or estimateGas into a LiteswapError, or
+ * returns undefined when the revert data does not match any known error.
+ */
+export function decodeLiteswapError(err: unknown, context: ErrorContext = {}): LiteswapError | undefined {
+  if (err instanceof LiteswapError) return err;
+  const data = extractRevertData(err);
+  if (!data) return undefined;
+  const decoded = decodeRevertData(data);
+  if (!decoded) return undefined;
+  return new LiteswapError(decoded.reason, decoded.args, data, context, err);
+}
+
+/**
+ * Recovers the revert reason of a mined transaction whose receipt has status 0 by
+ * replaying it with eth_call on the parent block. Transactions that depended on
+ * earlier transactions of the same block may replay differently.
+ */
+export async function decodeFailedReceipt(
+  provider: Provider,
+  receipt: TransactionReceipt,
+  context: ErrorContext = {}
+): Promise<LiteswapError | undefined> {
+  if (receipt.status !== 0) return undefined;
+  const tx = await provider.getTransaction(receipt.hash);
+  if (!tx) return undefined;
+  try {
+    await provider.call({
+      to: tx.to,
+      from: tx.from,
+      data: tx.data,
+      value: tx.value,
+      blockTag: receipt.blockNumber - 1,
+    });
+  } catch (err) {
+    return decodeLiteswapError(err, context);
+  }
+  return undefined;
+}
+
+/**
+ * Builds the LiteswapError the contract would revert with, used by the off-chain
+ * math modules so callers handle simulated and on-chain failures the same way.
+ */
+export function liteswapError(errorName: LiteswapErrorName, args: readonly unknown[] = [], context: ErrorContext = {}): LiteswapError {
+  const data = liteswapInterface.encodeErrorResult(errorName, args);
+  const decoded = decodeRevertData(data)!;
+  return new LiteswapError(decoded.reason, decoded.args, data, context);
+}
+
+/**
+ * Thrown by the client when a transaction was not mined by its deadline block.
+ * `replacementHash` is the self transfer that took its nonce, undefined when the
+ * deadline had already passed before broadcasting.
+ */
+export class DeadlineExceededError extends Error {
+  readonly deadline: number;
+  readonly blockNumber: number;
+  readonly txHash?: string;
+  readonly replacementHash?: string;
+
+  constructor(deadline: number, blockNumber: number, txHash?: string, replacementHash?: string) {
+    super(
+      txHash
+        ? `Transaction ${txHash} was not mined by block ${deadline} and was replaced by ${replacementHash}`
+        : `Deadline block ${deadline} passed before broadcasting, the chain is at block ${blockNumber}`
+    );
+    this.name = "DeadlineExceededError";
+    this.deadline = deadline;
+    this.blockNumber = blockNumber;
+    this.txHash = txHash;
+    this.replacementHash = replacementHash;
+  }
+}
+
+/**
+ * Thrown when the SDK has to read the chain through a signer that was created
+ * without a provider.
+ */
+export class MissingProviderError extends Error {
+  constructor() {
+    super("The client signer is not connected to a provider");
+    this.name = "MissingProviderError";
+  }
+}
+
+/**
+ * Thrown by the client before broadcasting when the reserves moved so far that
+ * the call would pull more than the caller allowed.
+ */
+export class PriceMovedError extends Error {
+  readonly method: string;
+  readonly required: bigint;
+  readonly limit: bigint;
+
+  constructor(method: string, required: bigint, limit: bigint) {
+    super(`${method} now needs ${required}, above the limit of ${limit}`);
+    this.name = "PriceMovedError";
+    this.method = method;
+    this.required = required;
+    this.limit = limit;
+  }
+}
+
+/**
+ * Thrown by the price oracle when it has no trustworthy price for the query,
+ * e.g. no samples in the window or too many of them rejected by its guards.
+ */
+export class PriceUnavailableError extends Error {
+  readonly pairId: bigint;
+  readonly kind: string;
+
+  constructor(pairId: bigint, kind: string, reason: string) {
+    super(`No ${kind} price for pair ${pairId}: ${reason}`);
+    this.name = "PriceUnavailableError";
+    this.pairId = pairId;
+    this.kind = kind;
+  }
+}
@@ -0,0 +1,181 @@
+import { Interface, Log, TransactionReceipt, getAddress } from "ethers";
+import { LITESWAP_ABI } from "./abi";
+
+const liteswapInterface = new Interface(LITESWAP_ABI);
+
+interface EventBase {
+  // Contract that emitted the log, checksummed
+  address: string;
+  logIndex: number;
+}
+
+export interface PairInitializedEvent extends EventBase {
+  name: "PairInitialized";
+  pairId: bigint;
+  tokenA: string;
+  tokenB: string;
+}
+
+export interface LiquidityAddedEvent extends EventBase {
+  name: "LiquidityAdded";
+  pairId: bigint;
+  liquidityProvider: string;
+  amountA: bigint;
+  amountB: bigint;
+  shares: bigint;
+}
+
+export interface LiquidityRemovedEvent extends EventBase {
+  name: "LiquidityRemoved";
+  pairId: bigint;
+  liquidityProvider: string;
+  amountA: bigint;
+  amountB: bigint;
+  shares: bigint;
+}
+
+export interface ReservesUpdatedEvent extends EventBase {
+  name: "ReservesUpdated";
+  pairId: bigint;
+  reserveA: bigint;
+  reserveB: bigint;
+}
+
+export interface SwapEvent extends EventBase {
+  name: "Swap";
+  pairId: bigint;
+  user: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: bigint;
+  amountOut: bigint;
+}
+
+export interface LimitOrderPlacedEvent extends EventBase {
+  name: "LimitOrderPlaced";
+  pairId: bigint;
+  orderId: bigint;
+  maker: string;
+  offerToken: string;
+  desiredToken: string;
+  offerAmount: bigint;
+  desiredAmount: bigint;
+}
+
+export interface LimitOrderFilledEvent extends EventBase {
+  name: "LimitOrderFilled";
+  pairId: bigint;
+  orderId: bigint;
+  filler: string;
+  amountFilled: bigint;
+}
+
+export interface LimitOrderCancelledEvent extends EventBase {
+  name: "LimitOrderCancelled";
+  pairId: bigint;
+  orderId: bigint;
+}
+
+export type LiteswapEvent =
+  | PairInitializedEvent
+  | LiquidityAddedEvent
+  | LiquidityRemovedEvent
+  | ReservesUpdatedEvent
+  | SwapEvent
+  | LimitOrderPlacedEvent
+  | LimitOrderFilledEvent
+  | LimitOrderCancelledEvent;
+
+export type LiteswapEventName = LiteswapEvent["name"];
+
+export type LiteswapEventOf<N extends LiteswapEventName> = Extract<LiteswapEvent, { name: N }>;
+
+/**
+ * Decodes a single log emitted by Liteswap, or returns undefined for logs of
+ * other contracts or events outside the Liteswap ABI (e.g. ERC20 Transfer).
+ */
+export function parseLiteswapLog(log: Log): LiteswapEvent | undefined {
+  const parsed = liteswapInterface.parseLog(log);
+  if (!parsed || parsed.fragment.type !== "event") return undefined;
+  const event: Record<string, unknown> = {
+    name: parsed.name,
+    address: getAddress(log.address),
+    logIndex: log.index,
+  };
+  parsed.fragment.inputs.forEach((input, index) => {
+    const value = parsed.args[index];
+    event[input.name] = input.type === "address" ? getAddress(value) : value;
+  });
+  return event as unknown as LiteswapEvent;
+}
+
+/**
+ * The Liteswap events of one transaction in log order, with shortcuts for the
+ * values tests and scripts usually want from a receipt.
+ */
+export class LiteswapReceipt {
+  readonly hash: string;
+  readonly events: LiteswapEvent[];
+
+  constructor(hash: string, events: LiteswapEvent[]) {
+    this.hash = hash;
+    this.events = events;
+  }
+
+  all<N extends LiteswapEventName>(name: N): LiteswapEventOf<N>[] {
+    return this.events.filter((event): event is LiteswapEventOf<N> => event.name === name);
+  }
+
+  find<N extends LiteswapEventName>(name: N): LiteswapEventOf<N> | undefined {
+    return this.all(name)[0];
+  }
+
+  /**
+   * Like find, but throws when the transaction did not emit the event.
+   */
+  get<N extends LiteswapEventName>(name: N): LiteswapEventOf<N> {
+    const event = this.find(name);
+    if (!event) throw new Error(`${name} event not found in transaction ${this.hash}`);
+    return event;
+  }
+
+  get pairId(): bigint {
+    return this.get("PairInitialized").pairId;
+  }
+
+  get placedOrderId(): bigint {
+    return this.get("LimitOrderPlaced").orderId;
+  }
+
+  get swapOutput(): bigint {
+    return this.get("Swap").amountOut;
+  }
+
+  get mintedShares(): bigint {
+    return this.get("LiquidityAdded").shares;
+  }
+
+  get burnedShares(): bigint {
+    return this.get("LiquidityRemoved").shares;
+  }
+
+  get amountFilled(): bigint {
+    return this.get("LimitOrderFilled").amountFilled;
+  }
+}
+
+/**
+ * Decodes every Liteswap event of a receipt. Pass the contract address to ignore
+ * lookalike logs from other contracts sharing the ABI.
+ */
+export function parseLiteswapReceipt(receipt: TransactionReceipt | null, address?: string): LiteswapReceipt {
+  if (!receipt) throw new Error("Transaction receipt is missing, was the transaction mined?");
+  const emitter = address === undefined ? undefined : getAddress(address);
+  const events: LiteswapEvent[] = [];
+  for (const log of receipt.logs) {
+    if (emitter && getAddress(log.address) !== emitter) continue;
+    const event = parseLiteswapLog(log);
+    if (event) events.push(event);
+  }
+  return new LiteswapReceipt(receipt.hash, events);
+}
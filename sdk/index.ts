@@ -0,0 +1,19 @@
+export * from "./abi";
+export * from "./client";
+export * from "./errors";
+export * from "./events";
+export * from "./types";
+export * from "./quote";
+export * from "./liquidity";
+export * from "./positions";
+export * from "./math";
+export * from "./orderbook";
+export * from "./router";
+export * from "./paths";
+export * from "./tokens";
+export * from "./transferTax";
+export * from "./oracle";
+export * from "./candles";
+export * from "./invariants";
+export * from "./keeper";
+export * from "./simulator";
@@ -0,0 +1,3 @@
+export * from "./indexer";
+export * from "./schema";
+export * from "./store";
@@ -0,0 +1,182 @@
+import { Interface, Log, Provider, dataSlice, getAddress, id, toBigInt, zeroPadValue } from "ethers";
+import { LITESWAP_ABI } from "../abi";
+import { Checkpoint, IndexedBlock, IndexedEvent, IndexerStore } from "./store";
+
+const TRANSFER_TOPIC = id("Transfer(address,address,uint256)");
+
+export interface IndexerOptions {
+  // First block to index when the store has no checkpoint, usually the deployment block
+  startBlock?: number;
+  // Maximum block range per eth_getLogs request
+  batchSize?: number;
+  // Blocks behind the head that are left unindexed
+  confirmations?: number;
+  // How many indexed blocks to walk back looking for a common ancestor before resetting
+  maxReorgDepth?: number;
+}
+
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;
+  events: number;
+  reorged: boolean;
+}
+
+/**
+ * Follows Liteswap logs and materialises pairs, LP positions, order books and
+ * trades into an IndexerStore. Progress is checkpointed per batch so a restarted
+ * indexer resumes where it stopped, and the checkpoint block hash is compared
+ * with the chain before every sync to detect reorgs.
+ */
+export class LiteswapIndexer {
+  readonly provider: Provider;
+  readonly address: string;
+  readonly store: IndexerStore;
+  readonly options: Required<IndexerOptions>;
+  private readonly iface = new Interface(LITESWAP_ABI);
+  private timer?: NodeJS.Timeout;
+
+  constructor(provider: Provider, address: string, store: IndexerStore, options: IndexerOptions = {}) {
+    this.provider = provider;
+    this.address = getAddress(address);
+    this.store = store;
+    this.options = {
+      startBlock: options.startBlock ?? 0,
+      batchSize: options.batchSize ?? 2000,
+      confirmations: options.confirmations ?? 0,
+      maxReorgDepth: options.maxReorgDepth ?? 64,
+    };
+  }
+
+  /**
+   * Indexes every block between the checkpoint and the confirmed head.
+   */
+  async sync(): Promise<SyncResult> {
+    const reorged = await this.handleReorg();
+    const head = (await this.provider.getBlockNumber()) - this.options.confirmations;
+    const checkpoint = this.store.getCheckpoint();
+    const fromBlock = checkpoint ? checkpoint.blockNumber + 1 : this.options.startBlock;
+
+    let events = 0;
+    for (let from = fromBlock; from <= head; from += this.options.batchSize) {
+      const to = Math.min(from + this.options.batchSize - 1, head);
+      events += await this.indexRange(from, to);
+    }
+    return { fromBlock, toBlock: Math.max(head, fromBlock - 1), events, reorged };
+  }
+
+  /**
+   * Polls sync() until stop() is called. Errors are passed to `onError` and retried on the next tick.
+   */
+  start(onError: (err: unknown) => void, intervalMs: number = 4000): void {
+    if (this.timer) return;
+    const tick = async () => {
+      try {
+        await this.sync();
+      } catch (err) {
+        onError(err);
+      }
+      if (this.timer) this.timer = setTimeout(tick, intervalMs);
+    };
+    this.timer = setTimeout(tick, 0);
+  }
+
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Rolls the store back to the most recent indexed block still on the canonical
+   * chain. Returns true when a reorg was found.
+   */
+  async handleReorg(): Promise<boolean> {
+    const checkpoint = this.store.getCheckpoint();
+    if (!checkpoint) return false;
+    const current = await this.provider.getBlock(checkpoint.blockNumber);
+    if (current?.hash === checkpoint.blockHash) return false;
+
+    let ancestor: Checkpoint | undefined;
+    for (const block of this.store.getRecentBlocks(this.options.maxReorgDepth)) {
+      const canonical = await this.provider.getBlock(block.number);
+      if (canonical?.hash === block.hash) {
+        ancestor = { blockNumber: block.number, blockHash: block.hash };
+        break;
+      }
+    }
+    this.store.rollbackTo(ancestor);
+    return true;
+  }
+
+  private async indexRange(from: number, to: number): Promise<number> {
+    const [logs, transfersIn] = await Promise.all([
+      this.provider.getLogs({ address: this.address, fromBlock: from, toBlock: to }),
+      // Transfers into Liteswap, used to recover the desired amount of each fill
+      this.provider.getLogs({
+        topics: [TRANSFER_TOPIC, null, zeroPadValue(this.address, 32)],
+        fromBlock: from,
+        toBlock: to,
+      }),
+    ]);
+
+    const blockNumbers = new Set(logs.map((log) => log.blockNumber));
+    blockNumbers.add(to);
+    const blocks: IndexedBlock[] = [];
+    for (const number of [...blockNumbers].sort((a, b) => a - b)) {
+      const block = await this.provider.getBlock(number);
+      if (!block?.hash) throw new Error(`Block ${number} is not available`);
+      blocks.push({ number, hash: block.hash, timestamp: block.timestamp });
+    }
+    const hashes = new Map(blocks.map((block) => [block.number, block.hash]));
+
+    const events: IndexedEvent[] = [];
+    for (const log of logs) {
+      // A block replaced between getLogs and getBlock, retry the range on the next sync
+      if (hashes.get(log.blockNumber) !== log.blockHash) {
+        throw new Error(`Reorg detected while indexing block ${log.blockNumber}`);
+      }
+      const event = this.decode(log, transfersIn);
+      if (event) events.push(event);
+    }
+
+    const last = blocks[blocks.length - 1];
+    this.store.commit(events, blocks, { blockNumber: last.number, blockHash: last.hash });
+    return events.length;
+  }
+
+  private decode(log: Log, transfersIn: Log[]): IndexedEvent | undefined {
+    const parsed = this.iface.parseLog(log);
+    if (!parsed) return undefined;
+    const args: Record<string, bigint | string> = {};
+    parsed.fragment.inputs.forEach((input, index) => {
+      args[input.name] = parsed.args[index];
+    });
+    if (parsed.name === "LimitOrderFilled") {
+      args.amountReceived = this.amountReceived(log, args.filler as string, transfersIn);
+    }
+    return {
+      name: parsed.name,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      logIndex: log.index,
+      transactionHash: log.transactionHash,
+      args,
+    };
+  }
+
+  /**
+   * fillLimitOrder pulls the desired token from the filler right before emitting
+   * LimitOrderFilled, so the closest preceding Transfer(filler -> Liteswap) in the
+   * same transaction carries the amount the order's desiredAmount was reduced by.
+   */
+  private amountReceived(fill: Log, filler: string, transfersIn: Log[]): bigint {
+    let match: Log | undefined;
+    for (const transfer of transfersIn) {
+      if (transfer.transactionHash !== fill.transactionHash || transfer.index >= fill.index) continue;
+      if (getAddress(dataSlice(transfer.topics[1], 12)) !== getAddress(filler)) continue;
+      if (!match || transfer.index > match.index) match = transfer;
+    }
+    if (!match) throw new Error(`No desired token transfer found for fill in ${fill.transactionHash}`);
+    return toBigInt(match.data);
+  }
+}
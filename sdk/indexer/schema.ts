@@ -0,0 +1,71 @@
+// uint256 values are stored as decimal TEXT, SQLite integers are only 64 bits wide.
+export const SCHEMA = `
+CREATE TABLE IF NOT EXISTS checkpoint (
+  id INTEGER PRIMARY KEY CHECK (id = 1),
+  block_number INTEGER NOT NULL,
+  block_hash TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS blocks (
+  number INTEGER PRIMARY KEY,
+  hash TEXT NOT NULL,
+  timestamp INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS events (
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  block_hash TEXT NOT NULL,
+  transaction_hash TEXT NOT NULL,
+  name TEXT NOT NULL,
+  pair_id TEXT NOT NULL,
+  args TEXT NOT NULL,
+  PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS events_pair ON events (pair_id, name);
+
+CREATE TABLE IF NOT EXISTS pairs (
+  pair_id TEXT PRIMARY KEY,
+  token_a TEXT NOT NULL,
+  token_b TEXT NOT NULL,
+  reserve_a TEXT NOT NULL,
+  reserve_b TEXT NOT NULL,
+  total_shares TEXT NOT NULL,
+  initialized INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS positions (
+  pair_id TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  shares TEXT NOT NULL,
+  has_position INTEGER NOT NULL,
+  PRIMARY KEY (pair_id, provider)
+);
+
+CREATE TABLE IF NOT EXISTS limit_orders (
+  pair_id TEXT NOT NULL,
+  order_id TEXT NOT NULL,
+  maker TEXT NOT NULL,
+  offer_token TEXT NOT NULL,
+  desired_token TEXT NOT NULL,
+  offer_amount TEXT NOT NULL,
+  desired_amount TEXT NOT NULL,
+  active INTEGER NOT NULL,
+  PRIMARY KEY (pair_id, order_id)
+);
+
+CREATE TABLE IF NOT EXISTS swaps (
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  transaction_hash TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  pair_id TEXT NOT NULL,
+  user TEXT NOT NULL,
+  token_in TEXT NOT NULL,
+  token_out TEXT NOT NULL,
+  amount_in TEXT NOT NULL,
+  amount_out TEXT NOT NULL,
+  PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS swaps_pair ON swaps (pair_id, timestamp);
+`;
@@ -0,0 +1,470 @@
+import Database from "better-sqlite3";
+import { getAddress } from "ethers";
+import { LimitOrder, LiquidityPosition, Pair } from "../types";
+import { SCHEMA } from "./schema";
+
+export interface IndexedEvent {
+  name: string;
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+  transactionHash: string;
+  args: Record<string, bigint | string>;
+}
+
+export interface IndexedBlock {
+  number: number;
+  hash: string;
+  timestamp: number;
+}
+
+export interface Checkpoint {
+  blockNumber: number;
+  blockHash: string;
+}
+
+export interface IndexedSwap {
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  timestamp: number;
+  pairId: bigint;
+  user: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: bigint;
+  amountOut: bigint;
+}
+
+export interface IndexedPosition extends LiquidityPosition {
+  pairId: bigint;
+  provider: string;
+}
+
+export interface EventQuery {
+  pairId?: bigint;
+  names?: string[];
+  fromBlock?: number;
+  toBlock?: number;
+}
+
+// What a commit or rollback did to the store, passed to onChange listeners
+export type StoreChange =
+  | { kind: "commit"; events: IndexedEvent[]; checkpoint: Checkpoint }
+  | { kind: "rollback"; checkpoint: Checkpoint | undefined };
+
+export interface SwapQuery {
+  fromTimestamp?: number;
+  toTimestamp?: number;
+  limit?: number;
+  offset?: number;
+}
+
+// bigint values are tagged with a trailing "n" so they survive the JSON round trip
+function encodeArgs(args: Record<string, bigint | string>): string {
+  return JSON.stringify(args, (_, value) => (typeof value === "bigint" ? `${value}n` : value));
+}
+
+function decodeArgs(json: string): Record<string, bigint | string> {
+  return JSON.parse(json, (_, value) =>
+    typeof value === "string" && /^\d+n$/.test(value) ? BigInt(value.slice(0, -1)) : value
+  );
+}
+
+/**
+ * SQLite materialisation of Liteswap state. Raw events are journaled in `events`
+ * and every other table is derived from them, so a reorg rollback is a delete
+ * followed by a replay of the journal.
+ */
+export class IndexerStore {
+  readonly db: Database.Database;
+  private readonly listeners = new Set<(change: StoreChange) => void>();
+
+  constructor(filename: string = ":memory:") {
+    this.db = new Database(filename);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Calls `listener` after every commit and rollback, synchronously, so the store
+   * is never read in a state its listeners have not seen yet.
+   */
+  onChange(listener: (change: StoreChange) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getCheckpoint(): Checkpoint | undefined {
+    const row = this.db.prepare("SELECT block_number, block_hash FROM checkpoint WHERE id = 1").get() as
+      | { block_number: number; block_hash: string }
+      | undefined;
+    return row ? { blockNumber: row.block_number, blockHash: row.block_hash } : undefined;
+  }
+
+  getBlock(number: number): IndexedBlock | undefined {
+    return this.db.prepare("SELECT number, hash, timestamp FROM blocks WHERE number = ?").get(number) as
+      | IndexedBlock
+      | undefined;
+  }
+
+  /**
+   * Most recent indexed blocks first, used to find the common ancestor after a reorg.
+   */
+  getRecentBlocks(limit: number): IndexedBlock[] {
+    return this.db
+      .prepare("SELECT number, hash, timestamp FROM blocks ORDER BY number DESC LIMIT ?")
+      .all(limit) as IndexedBlock[];
+  }
+
+  /**
+   * Atomically journals a batch of events, the blocks they belong to and the new checkpoint.
+   */
+  commit(events: IndexedEvent[], blocks: IndexedBlock[], checkpoint: Checkpoint): void {
+    const insertBlock = this.db.prepare(
+      "INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (@number, @hash, @timestamp)"
+    );
+    const insertEvent = this.db.prepare(
+      `INSERT INTO events (block_number, log_index, block_hash, transaction_hash, name, pair_id, args)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    );
+    this.db.transaction(() => {
+      for (const block of blocks) insertBlock.run(block);
+      for (const event of events) {
+        insertEvent.run(
+          event.blockNumber,
+          event.logIndex,
+          event.blockHash,
+          event.transactionHash,
+          event.name,
+          String(event.args.pairId),
+          encodeArgs(event.args)
+        );
+        this.apply(event);
+      }
+      this.setCheckpoint(checkpoint);
+    })();
+    this.notify({ kind: "commit", events, checkpoint });
+  }
+
+  /**
+   * Drops everything indexed after `checkpoint` and rebuilds the derived tables
+   * from the remaining journal. Passing undefined resets the store.
+   */
+  rollbackTo(checkpoint: Checkpoint | undefined): void {
+    const blockNumber = checkpoint?.blockNumber ?? -1;
+    this.db.transaction(() => {
+      this.db.prepare("DELETE FROM events WHERE block_number > ?").run(blockNumber);
+      this.db.prepare("DELETE FROM blocks WHERE number > ?").run(blockNumber);
+      for (const table of ["pairs", "positions", "limit_orders", "swaps"]) {
+        this.db.exec(`DELETE FROM ${table}`);
+      }
+      for (const event of this.getEvents()) this.apply(event);
+      if (checkpoint) {
+        this.setCheckpoint(checkpoint);
+      } else {
+        this.db.exec("DELETE FROM checkpoint");
+      }
+    })();
+    this.notify({ kind: "rollback", checkpoint });
+  }
+
+  // Queries
+
+  getEvents(query: EventQuery = {}): IndexedEvent[] {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    if (query.pairId !== undefined) {
+      conditions.push("pair_id = ?");
+      params.push(query.pairId.toString());
+    }
+    if (query.names && query.names.length > 0) {
+      conditions.push(`name IN (${query.names.map(() => "?").join(", ")})`);
+      params.push(...query.names);
+    }
+    if (query.fromBlock !== undefined) {
+      conditions.push("block_number >= ?");
+      params.push(query.fromBlock);
+    }
+    if (query.toBlock !== undefined) {
+      conditions.push("block_number <= ?");
+      params.push(query.toBlock);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const rows = this.db
+      .prepare(`SELECT * FROM events ${where} ORDER BY block_number, log_index`)
+      .all(...params) as {
+      block_number: number;
+      log_index: number;
+      block_hash: string;
+      transaction_hash: string;
+      name: string;
+      args: string;
+    }[];
+    return rows.map((row) => ({
+      name: row.name,
+      blockNumber: row.block_number,
+      blockHash: row.block_hash,
+      logIndex: row.log_index,
+      transactionHash: row.transaction_hash,
+      args: decodeArgs(row.args),
+    }));
+  }
+
+  getPairs(): Pair[] {
+    const rows = this.db.prepare("SELECT * FROM pairs ORDER BY CAST(pair_id AS INTEGER)").all() as PairRow[];
+    return rows.map(toPair);
+  }
+
+  getPair(pairId: bigint): Pair | undefined {
+    const row = this.db.prepare("SELECT * FROM pairs WHERE pair_id = ?").get(pairId.toString()) as PairRow | undefined;
+    return row ? toPair(row) : undefined;
+  }
+
+  getPositions(pairId: bigint): IndexedPosition[] {
+    const rows = this.db
+      .prepare("SELECT * FROM positions WHERE pair_id = ? AND has_position = 1")
+      .all(pairId.toString()) as PositionRow[];
+    return rows.map(toPosition);
+  }
+
+  getPosition(pairId: bigint, provider: string): IndexedPosition {
+    const row = this.db
+      .prepare("SELECT * FROM positions WHERE pair_id = ? AND provider = ?")
+      .get(pairId.toString(), getAddress(provider)) as PositionRow | undefined;
+    return row ? toPosition(row) : { pairId, provider: getAddress(provider), shares: 0n, hasPosition: false };
+  }
+
+  getLimitOrders(pairId: bigint, activeOnly = false): LimitOrder[] {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM limit_orders WHERE pair_id = ? ${activeOnly ? "AND active = 1" : ""}
+         ORDER BY CAST(order_id AS INTEGER)`
+      )
+      .all(pairId.toString()) as OrderRow[];
+    return rows.map(toOrder);
+  }
+
+  getLimitOrder(pairId: bigint, orderId: bigint): LimitOrder | undefined {
+    const row = this.db
+      .prepare("SELECT * FROM limit_orders WHERE pair_id = ? AND order_id = ?")
+      .get(pairId.toString(), orderId.toString()) as OrderRow | undefined;
+    return row ? toOrder(row) : undefined;
+  }
+
+  getSwaps(pairId: bigint, query: SwapQuery = {}): IndexedSwap[] {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM swaps WHERE pair_id = ? AND timestamp >= ? AND timestamp <= ?
+         ORDER BY block_number, log_index LIMIT ? OFFSET ?`
+      )
+      .all(
+        pairId.toString(),
+        query.fromTimestamp ?? 0,
+        query.toTimestamp ?? Number.MAX_SAFE_INTEGER,
+        query.limit ?? -1,
+        query.offset ?? 0
+      ) as SwapRow[];
+    return rows.map((row) => ({
+      blockNumber: row.block_number,
+      logIndex: row.log_index,
+      transactionHash: row.transaction_hash,
+      timestamp: row.timestamp,
+      pairId: BigInt(row.pair_id),
+      user: row.user,
+      tokenIn: row.token_in,
+      tokenOut: row.token_out,
+      amountIn: BigInt(row.amount_in),
+      amountOut: BigInt(row.amount_out),
+    }));
+  }
+
+  private notify(change: StoreChange): void {
+    for (const listener of this.listeners) listener(change);
+  }
+
+  private setCheckpoint(checkpoint: Checkpoint): void {
+    this.db
+      .prepare("INSERT OR REPLACE INTO checkpoint (id, block_number, block_hash) VALUES (1, ?, ?)")
+      .run(checkpoint.blockNumber, checkpoint.blockHash);
+  }
+
+  /**
+   * Applies one event to the derived tables, following the state transitions of src/Liteswap.sol.
+   */
+  private apply(event: IndexedEvent): void {
+    const args = event.args;
+    const pairId = String(args.pairId);
+    switch (event.name) {
+      case "PairInitialized":
+        this.db
+          .prepare(
+            `INSERT OR REPLACE INTO pairs (pair_id, token_a, token_b, reserve_a, reserve_b, total_shares, initialized)
+             VALUES (?, ?, ?, '0', '0', '0', 1)`
+          )
+          .run(pairId, args.tokenA, args.tokenB);
+        break;
+      case "LiquidityAdded":
+        this.adjustShares(pairId, args.liquidityProvider as string, args.shares as bigint);
+        break;
+      case "LiquidityRemoved":
+        this.adjustShares(pairId, args.liquidityProvider as string, -(args.shares as bigint));
+        break;
+      case "ReservesUpdated":
+        this.db
+          .prepare("UPDATE pairs SET reserve_a = ?, reserve_b = ? WHERE pair_id = ?")
+          .run(String(args.reserveA), String(args.reserveB), pairId);
+        break;
+      case "Swap": {
+        const block = this.getBlock(event.blockNumber);
+        this.db
+          .prepare(
+            `INSERT OR REPLACE INTO swaps (block_number, log_index, transaction_hash, timestamp, pair_id, user,
+             token_in, token_out, amount_in, amount_out) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+          )
+          .run(
+            event.blockNumber,
+            event.logIndex,
+            event.transactionHash,
+            block?.timestamp ?? 0,
+            pairId,
+            args.user,
+            args.tokenIn,
+            args.tokenOut,
+            String(args.amountIn),
+            String(args.amountOut)
+          );
+        break;
+      }
+      case "LimitOrderPlaced":
+        this.db
+          .prepare(
+            `INSERT OR REPLACE INTO limit_orders (pair_id, order_id, maker, offer_token, desired_token,
+             offer_amount, desired_amount, active) VALUES (?, ?, ?, ?, ?, ?, ?, 1)`
+          )
+          .run(
+            pairId,
+            String(args.orderId),
+            args.maker,
+            args.offerToken,
+            args.desiredToken,
+            String(args.offerAmount),
+            String(args.desiredAmount)
+          );
+        break;
+      case "LimitOrderFilled": {
+        const order = this.getLimitOrder(BigInt(pairId), args.orderId as bigint);
+        if (!order) break;
+        // amountFilled is the offer side, amountReceived is recovered from the filler's token transfer
+        const offerAmount = order.offerAmount - (args.amountFilled as bigint);
+        const desiredAmount = order.desiredAmount - (args.amountReceived as bigint);
+        this.db
+          .prepare(
+            "UPDATE limit_orders SET offer_amount = ?, desired_amount = ?, active = ? WHERE pair_id = ? AND order_id = ?"
+          )
+          .run(String(offerAmount), String(desiredAmount), desiredAmount === 0n ? 0 : 1, pairId, String(args.orderId));
+        break;
+      }
+      case "LimitOrderCancelled":
+        this.db
+          .prepare(
+            "UPDATE limit_orders SET offer_amount = '0', desired_amount = '0', active = 0 WHERE pair_id = ? AND order_id = ?"
+          )
+          .run(pairId, String(args.orderId));
+        break;
+    }
+  }
+
+  private adjustShares(pairId: string, provider: string, delta: bigint): void {
+    const position = this.getPosition(BigInt(pairId), provider);
+    const shares = position.shares + delta;
+    this.db
+      .prepare("INSERT OR REPLACE INTO positions (pair_id, provider, shares, has_position) VALUES (?, ?, ?, ?)")
+      .run(pairId, getAddress(provider), shares.toString(), shares > 0n ? 1 : 0);
+    const pair = this.getPair(BigInt(pairId));
+    if (pair) {
+      this.db
+        .prepare("UPDATE pairs SET total_shares = ? WHERE pair_id = ?")
+        .run((pair.totalShares + delta).toString(), pairId);
+    }
+  }
+}
+
+interface PairRow {
+  pair_id: string;
+  token_a: string;
+  token_b: string;
+  reserve_a: string;
+  reserve_b: string;
+  total_shares: string;
+  initialized: number;
+}
+
+interface PositionRow {
+  pair_id: string;
+  provider: string;
+  shares: string;
+  has_position: number;
+}
+
+interface OrderRow {
+  pair_id: string;
+  order_id: string;
+  maker: string;
+  offer_token: string;
+  desired_token: string;
+  offer_amount: string;
+  desired_amount: string;
+  active: number;
+}
+
+interface SwapRow {
+  block_number: number;
+  log_index: number;
+  transaction_hash: string;
+  timestamp: number;
+  pair_id: string;
+  user: string;
+  token_in: string;
+  token_out: string;
+  amount_in: string;
+  amount_out: string;
+}
+
+function toPair(row: PairRow): Pair {
+  return {
+    pairId: BigInt(row.pair_id),
+    tokenA: row.token_a,
+    tokenB: row.token_b,
+    reserveA: BigInt(row.reserve_a),
+    reserveB: BigInt(row.reserve_b),
+    totalShares: BigInt(row.total_shares),
+    initialized: row.initialized === 1,
+  };
+}
+
+function toPosition(row: PositionRow): IndexedPosition {
+  return {
+    pairId: BigInt(row.pair_id),
+    provider: row.provider,
+    shares: BigInt(row.shares),
+    hasPosition: row.has_position === 1,
+  };
+}
+
+function toOrder(row: OrderRow): LimitOrder {
+  return {
+    pairId: BigInt(row.pair_id),
+    orderId: BigInt(row.order_id),
+    maker: row.maker,
+    offerToken: row.offer_token,
+    desiredToken: row.desired_token,
+    offerAmount: BigInt(row.offer_amount),
+    desiredAmount: BigInt(row.desired_amount),
+    active: row.active === 1,
+  };
+}
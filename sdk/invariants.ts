@@ -0,0 +1,299 @@
+import { Contract, Interface, TransactionReceipt } from "ethers";
+import { ERC20_ABI, LITESWAP_ABI } from "./abi";
+import { LiteswapClient } from "./client";
+import { MissingProviderError } from "./errors";
+import { LiteswapEvent, parseLiteswapReceipt } from "./events";
+import { LiteswapSimulator } from "./simulator";
+import { LimitOrder, LiquidityPosition, Pair } from "./types";
+
+const liteswapInterface = new Interface(LITESWAP_ABI);
+const LIQUIDITY_ADDED_TOPIC = liteswapInterface.getEvent("LiquidityAdded")!.topicHash;
+
+export type InvariantName = "solvency" | "shareConservation" | "kNonDecreasing" | "orderEscrow";
+
+export interface InvariantViolation {
+  invariant: InvariantName;
+  message: string;
+  pairId?: bigint;
+  orderId?: bigint;
+  token?: string;
+}
+
+/**
+ * Contract state the invariants are checked against. `positions` must list every
+ * account that ever provided liquidity, `balances` the contract's balance of every
+ * pair token keyed by lowercase address.
+ */
+export interface LiteswapSnapshot {
+  pairs: Pair[];
+  positions: (LiquidityPosition & { pairId: bigint; user: string })[];
+  orders: LimitOrder[];
+  balances: Map<string, bigint>;
+}
+
+/**
+ * Thrown by the assert helpers, with every violation found in the snapshot.
+ */
+export class InvariantError extends Error {
+  readonly violations: InvariantViolation[];
+
+  constructor(violations: InvariantViolation[], context: string = "") {
+    super(`Invariant violated${context}:\n${violations.map((v) => `  ${v.invariant}: ${v.message}`).join("\n")}`);
+    this.name = "InvariantError";
+    this.violations = violations;
+  }
+}
+
+function key(address: string): string {
+  return address.toLowerCase();
+}
+
+/**
+ * Checks one snapshot, and against `previous` the transitions since then:
+ *
+ * - solvency: per token, balanceOf(contract) >= sum of reserves + sum of active offerAmount
+ * - shareConservation: totalShares equals the sum of positions, hasPosition iff shares > 0
+ * - kNonDecreasing: a pair that only swapped since `previous` has reserveA * reserveB at least as large
+ * - orderEscrow: active orders have both amounts, inactive ones no desiredAmount left, and
+ *   between snapshots amounts only decrease, orders never reactivate and the offer
+ *   left per desired token never decreases
+ *
+ * `events` are the events emitted since `previous`. Without them a pair whose
+ * reserves moved while totalShares stayed the same is taken to have only swapped.
+ */
+export function checkInvariants(
+  current: LiteswapSnapshot,
+  previous?: LiteswapSnapshot,
+  events?: LiteswapEvent[]
+): InvariantViolation[] {
+  const violations: InvariantViolation[] = [];
+
+  // Solvency
+  const owed = new Map<string, bigint>();
+  const owe = (token: string, amount: bigint) => owed.set(key(token), (owed.get(key(token)) ?? 0n) + amount);
+  for (const pair of current.pairs) {
+    owe(pair.tokenA, pair.reserveA);
+    owe(pair.tokenB, pair.reserveB);
+  }
+  for (const order of current.orders) {
+    if (order.active) owe(order.offerToken, order.offerAmount);
+  }
+  for (const [token, amount] of owed) {
+    const balance = current.balances.get(token) ?? 0n;
+    if (balance < amount) {
+      violations.push({
+        invariant: "solvency",
+        token,
+        message: `balance of ${token} is ${balance}, reserves and open orders need ${amount}`,
+      });
+    }
+  }
+
+  // Share conservation
+  for (const pair of current.pairs) {
+    const positions = current.positions.filter((position) => position.pairId === pair.pairId);
+    const sum = positions.reduce((total, position) => total + position.shares, 0n);
+    if (sum !== pair.totalShares) {
+      violations.push({
+        invariant: "shareConservation",
+        pairId: pair.pairId,
+        message: `pair ${pair.pairId} has totalShares ${pair.totalShares} but its positions sum to ${sum}`,
+      });
+    }
+    for (const position of positions) {
+      if (position.hasPosition !== position.shares > 0n) {
+        violations.push({
+          invariant: "shareConservation",
+          pairId: pair.pairId,
+          message: `${position.user} in pair ${pair.pairId} has ${position.shares} shares but hasPosition ${position.hasPosition}`,
+        });
+      }
+    }
+  }
+
+  // Order escrow, single snapshot
+  const pairs = new Map(current.pairs.map((pair) => [pair.pairId, pair]));
+  for (const order of current.orders) {
+    const pair = pairs.get(order.pairId);
+    const id = `order ${order.pairId}/${order.orderId}`;
+    const escrow = (message: string) =>
+      violations.push({ invariant: "orderEscrow", pairId: order.pairId, orderId: order.orderId, message: `${id} ${message}` });
+    const tokens = pair ? [key(pair.tokenA), key(pair.tokenB)] : [];
+    if (!tokens.includes(key(order.offerToken)) || !tokens.includes(key(order.desiredToken))) {
+      escrow("does not trade the pair's tokens");
+    } else if (key(order.offerToken) === key(order.desiredToken)) {
+      escrow("offers the token it desires");
+    }
+    if (order.active && (order.offerAmount === 0n || order.desiredAmount === 0n)) {
+      escrow(`is active with offerAmount ${order.offerAmount} and desiredAmount ${order.desiredAmount}`);
+    }
+    if (!order.active && order.desiredAmount !== 0n) escrow(`is inactive with desiredAmount ${order.desiredAmount} left`);
+  }
+
+  if (!previous) return violations;
+
+  // k on swaps
+  const touched = (pairId: bigint, names: LiteswapEvent["name"][]) =>
+    events?.some((event) => "pairId" in event && event.pairId === pairId && names.includes(event.name));
+  for (const before of previous.pairs) {
+    const after = pairs.get(before.pairId);
+    if (!after || !before.initialized) continue;
+    const onlySwapped = events
+      ? touched(before.pairId, ["Swap"]) && !touched(before.pairId, ["LiquidityAdded", "LiquidityRemoved"])
+      : after.totalShares === before.totalShares;
+    const kBefore = before.reserveA * before.reserveB;
+    const kAfter = after.reserveA * after.reserveB;
+    if (onlySwapped && kAfter < kBefore) {
+      violations.push({
+        invariant: "kNonDecreasing",
+        pairId: before.pairId,
+        message: `k of pair ${before.pairId} fell from ${kBefore} to ${kAfter} on a swap`,
+      });
+    }
+  }
+
+  // Order escrow, transitions
+  const orders = new Map(current.orders.map((order) => [`${order.pairId}:${order.orderId}`, order]));
+  for (const before of previous.orders) {
+    const after = orders.get(`${before.pairId}:${before.orderId}`);
+    const id = `order ${before.pairId}/${before.orderId}`;
+    const escrow = (message: string) =>
+      violations.push({ invariant: "orderEscrow", pairId: before.pairId, orderId: before.orderId, message: `${id} ${message}` });
+    if (!after) {
+      escrow("disappeared");
+      continue;
+    }
+    if (after.offerAmount > before.offerAmount || after.desiredAmount > before.desiredAmount) {
+      escrow(`grew from ${before.offerAmount}/${before.desiredAmount} to ${after.offerAmount}/${after.desiredAmount}`);
+    }
+    if (after.active && !before.active) escrow("was reactivated");
+    // Fills round the filler's share down, so the offer left per desired token can only grow
+    if (after.active && after.offerAmount * before.desiredAmount < before.offerAmount * after.desiredAmount) {
+      escrow("remaining offer per desired token decreased");
+    }
+  }
+  return violations;
+}
+
+/**
+ * Snapshot of a LiteswapSimulator, whose every position is known.
+ */
+export function simulatorSnapshot(sim: LiteswapSimulator): LiteswapSnapshot {
+  const pairs = sim.getPairs();
+  const balances = new Map<string, bigint>();
+  for (const token of sim.tokenList) balances.set(key(token.address), token.balanceOf(sim.address));
+  return {
+    pairs,
+    positions: pairs.flatMap((pair) => sim.getPositions(pair.pairId).map((position) => ({ pairId: pair.pairId, ...position }))),
+    orders: pairs.flatMap((pair) => sim.getLimitOrders(pair.pairId)),
+    balances,
+  };
+}
+
+/**
+ * Checks the invariants against a deployed contract after each transaction, in
+ * tests or against a live node. Providers are discovered from LiquidityAdded
+ * logs, so `fromBlock` must not be later than the deployment.
+ *
+ *   const invariants = new InvariantChecker(client);
+ *   await invariants.assert();
+ *   const { txHash } = await client.swap(pairId, tokenIn, amountIn);
+ *   await invariants.assert(await provider.getTransactionReceipt(txHash));
+ */
+export class InvariantChecker {
+  readonly client: LiteswapClient;
+  private previous: LiteswapSnapshot | undefined;
+  private readonly providers = new Set<string>();
+  private nextBlock: number;
+
+  constructor(client: LiteswapClient, options: { fromBlock?: number } = {}) {
+    this.client = client;
+    this.nextBlock = options.fromBlock ?? 0;
+  }
+
+  async snapshot(): Promise<LiteswapSnapshot> {
+    const provider = this.client.signer.provider;
+    if (!provider) throw new MissingProviderError();
+    const address = await this.client.getAddress();
+
+    const latest = await provider.getBlockNumber();
+    if (latest >= this.nextBlock) {
+      const logs = await provider.getLogs({
+        address,
+        fromBlock: this.nextBlock,
+        toBlock: latest,
+        topics: [LIQUIDITY_ADDED_TOPIC],
+      });
+      for (const log of logs) {
+        const { args } = liteswapInterface.parseLog(log)!;
+        this.providers.add(`${args.pairId}:${args.liquidityProvider}`);
+      }
+      this.nextBlock = latest + 1;
+    }
+
+    const pairs = await this.client.getPairs();
+    const positions = await Promise.all(
+      [...this.providers].map(async (entry) => {
+        const [pairId, user] = entry.split(":");
+        return { pairId: BigInt(pairId), user, ...(await this.client.getPosition(BigInt(pairId), user)) };
+      })
+    );
+    const orders: LimitOrder[] = [];
+    for (const pair of pairs) {
+      const count: bigint = await this.client.contract._orderIdCounter(pair.pairId);
+      for (let orderId = 0n; orderId < count; orderId++) orders.push(await this.client.getLimitOrder(pair.pairId, orderId));
+    }
+    const balances = new Map<string, bigint>();
+    for (const token of new Set(pairs.flatMap((pair) => [key(pair.tokenA), key(pair.tokenB)]))) {
+      balances.set(token, await new Contract(token, ERC20_ABI, provider).balanceOf(address));
+    }
+    return { pairs, positions, orders, balances };
+  }
+
+  /**
+   * Takes a snapshot and checks it against the previous one. `receipt` is the
+   * transaction in between, when there was exactly one.
+   */
+  async check(receipt?: TransactionReceipt | null): Promise<InvariantViolation[]> {
+    const current = await this.snapshot();
+    const events = receipt ? parseLiteswapReceipt(receipt, await this.client.getAddress()).events : undefined;
+    const violations = checkInvariants(current, this.previous, events);
+    this.previous = current;
+    return violations;
+  }
+
+  async assert(receipt?: TransactionReceipt | null): Promise<void> {
+    const violations = await this.check(receipt);
+    if (violations.length > 0) throw new InvariantError(violations, receipt ? ` after ${receipt.hash}` : "");
+  }
+
+  /**
+   * Checks after every new block and reports violations to `onViolation`.
+   * Returns a function that stops watching.
+   */
+  async watch(onViolation: (violations: InvariantViolation[], blockNumber: number) => void): Promise<() => Promise<void>> {
+    const provider = this.client.signer.provider;
+    if (!provider) throw new MissingProviderError();
+    // Blocks can arrive faster than a snapshot completes, check them one at a time
+    let queue = Promise.resolve();
+    let failure: unknown;
+    const onBlock = (blockNumber: number) => {
+      queue = queue
+        .then(() => this.check())
+        .then((violations) => {
+          if (violations.length > 0) onViolation(violations, blockNumber);
+        })
+        .catch((err: unknown) => {
+          failure ??= err;
+        });
+    };
+    await this.check();
+    await provider.on("block", onBlock);
+    // Rethrows the first error a check ran into, e.g. the node going away
+    return async () => {
+      await provider.off("block", onBlock);
+      await queue;
+      if (failure) throw failure;
+    };
+  }
+}
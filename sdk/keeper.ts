@@ -0,0 +1,334 @@
+import { Contract, ContractEventPayload } from "ethers";
+import { ERC20_ABI } from "./abi";
+import { LiteswapClient } from "./client";
+import { LiteswapError, MissingProviderError } from "./errors";
+import { sameAddress } from "./math";
+import { OrderBook } from "./orderbook";
+import { BPS_DENOMINATOR, computeAmountOut, minAmountOutForSlippage, orientReserves, quoteSwap } from "./quote";
+import { ammInputAtRate } from "./router";
+import { LimitOrder, Pair } from "./types";
+
+const DEFAULT_GAS_LIMIT = 250_000n;
+const NATIVE_UNIT = 10n ** 18n;
+
+export interface KeeperLimits {
+  // Most desired tokens paid into a single fill
+  maxFillAmount?: bigint;
+  // Most desired tokens paid per token over the keeper's lifetime
+  maxTotalSpend?: bigint;
+  // Profit after gas, in desired token units, below which an order is left alone
+  minProfit?: bigint;
+  // Same as a share of the amount paid
+  minProfitBps?: bigint;
+  // Price impact of the swap back, beyond which the fill is considered too exposed
+  maxPriceImpactBps?: bigint;
+  // Makers whose orders are never filled, e.g. the keeper's own
+  ignoreMakers?: string[];
+}
+
+export interface KeeperOptions extends KeeperLimits {
+  /**
+   * Desired token units worth one native coin (1e18 wei), to price gas in the
+   * token the profit is made in. Orders in tokens without a price are skipped.
+   */
+  nativePrice: (token: string) => bigint | undefined;
+  // Pairs to watch, all pairs when omitted
+  pairIds?: bigint[];
+  // Gas of one fill plus one swap back
+  gasLimit?: bigint;
+  // Tolerance on the swap back output, never below break even
+  slippageBps?: bigint;
+  // Fills per scan of a pair before yielding to newer events
+  maxFillsPerScan?: number;
+}
+
+/**
+ * Filling `amountIn` desired tokens of an order and selling the `filled` offer
+ * tokens back to the pool for `amountOut` desired tokens.
+ */
+export interface KeeperOpportunity {
+  pairId: bigint;
+  orderId: bigint;
+  desiredToken: string;
+  offerToken: string;
+  amountIn: bigint;
+  filled: bigint;
+  amountOut: bigint;
+  priceImpactBps: bigint;
+  gasCost: bigint;
+  // amountOut - amountIn - gasCost
+  profit: bigint;
+}
+
+export interface KeeperFill extends KeeperOpportunity {
+  txHashes: string[];
+  // Realised values, amountOut is zero when the swap back failed
+  realisedAmountOut: bigint;
+  realisedGasCost: bigint;
+  realisedProfit: bigint;
+  swapError?: unknown;
+}
+
+function evaluate(
+  pair: Pair,
+  order: LimitOrder,
+  amountIn: bigint,
+  gasCost: bigint
+): KeeperOpportunity | undefined {
+  if (amountIn === 0n || amountIn > order.desiredAmount) return undefined;
+  const filled = (amountIn * order.offerAmount) / order.desiredAmount;
+  if (filled === 0n) return undefined;
+  const { reserveIn, reserveOut } = orientReserves(pair, order.offerToken);
+  const amountOut = computeAmountOut(filled, reserveIn, reserveOut);
+  // The swap back would revert
+  if (amountOut === 0n || amountOut >= reserveOut) return undefined;
+  const { priceImpactBps } = quoteSwap(pair, order.offerToken, filled);
+  return {
+    pairId: pair.pairId,
+    orderId: order.orderId,
+    desiredToken: order.desiredToken,
+    offerToken: order.offerToken,
+    amountIn,
+    filled,
+    amountOut,
+    priceImpactBps,
+    gasCost,
+    profit: amountOut - amountIn - gasCost,
+  };
+}
+
+/**
+ * Most profitable fill of `order` followed by a swap of the proceeds back through
+ * the pool, or undefined when nothing clears the limits. The profit is concave in
+ * the fill size and peaks where the pool's marginal rate for the offer token falls
+ * to the order's desiredAmount / offerAmount. Assumes tokens without transfer fees.
+ */
+export function findOpportunity(
+  pair: Pair,
+  order: LimitOrder,
+  gasCost: bigint,
+  limits: KeeperLimits & { spendable?: bigint } = {}
+): KeeperOpportunity | undefined {
+  if (!order.active || !pair.initialized) return undefined;
+  if (limits.ignoreMakers?.some((maker) => sameAddress(maker, order.maker))) return undefined;
+
+  const { reserveIn, reserveOut } = orientReserves(pair, order.offerToken);
+  const optimalFilled = ammInputAtRate(reserveIn, reserveOut, order.desiredAmount, order.offerAmount);
+  if (optimalFilled === 0n) return undefined;
+
+  let cap = order.desiredAmount;
+  if (limits.maxFillAmount !== undefined && limits.maxFillAmount < cap) cap = limits.maxFillAmount;
+  if (limits.spendable !== undefined && limits.spendable < cap) cap = limits.spendable;
+  // Paying one more wei can round `filled` up by a unit, so try both neighbours
+  const optimal = (optimalFilled * order.desiredAmount) / order.offerAmount;
+  const candidates = [optimal, optimal + 1n, cap].map((amount) => (amount > cap ? cap : amount));
+
+  let best: KeeperOpportunity | undefined;
+  for (const amountIn of candidates) {
+    const candidate = evaluate(pair, order, amountIn, gasCost);
+    if (candidate && (!best || candidate.profit > best.profit)) best = candidate;
+  }
+  if (!best || best.profit <= 0n) return undefined;
+  if (limits.minProfit !== undefined && best.profit < limits.minProfit) return undefined;
+  if (limits.minProfitBps !== undefined && best.profit * BPS_DENOMINATOR < limits.minProfitBps * best.amountIn) {
+    return undefined;
+  }
+  if (limits.maxPriceImpactBps !== undefined && best.priceImpactBps > limits.maxPriceImpactBps) return undefined;
+  return best;
+}
+
+/**
+ * Keeper that fills limit orders left behind by the pool price and sells the
+ * proceeds back through `swap`. Fill and swap are two transactions, so the swap
+ * back carries a break-even minAmountOut and a failed swap halts the keeper with
+ * the offer tokens still in its wallet.
+ *
+ * Use a client with approval "max" so the keeper does not send an approval per trade.
+ */
+export class LimitOrderKeeper {
+  readonly client: LiteswapClient;
+  readonly options: KeeperOptions;
+  readonly fills: KeeperFill[] = [];
+  // Set when the keeper stopped trading, e.g. after a failed swap back
+  haltReason: string | undefined;
+
+  private readonly books = new Map<bigint, OrderBook>();
+  private readonly spent = new Map<string, bigint>();
+  private readonly listeners = new Set<(fill: KeeperFill) => void>();
+  private queue: Promise<void> = Promise.resolve();
+  private readonly scheduled = new Set<bigint>();
+  private failure: unknown;
+
+  constructor(client: LiteswapClient, options: KeeperOptions) {
+    this.client = client;
+    this.options = options;
+  }
+
+  onFill(listener: (fill: KeeperFill) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Total desired tokens paid into fills of `token` so far.
+   */
+  spentOf(token: string): bigint {
+    return this.spent.get(token.toLowerCase()) ?? 0n;
+  }
+
+  /**
+   * Evaluates every resting order of the pair against fresh reserves and executes
+   * the best opportunity, repeating until none is left or maxFillsPerScan is hit.
+   */
+  async scan(pairId: bigint): Promise<KeeperFill[]> {
+    const fills: KeeperFill[] = [];
+    const book = this.books.get(pairId) ?? (await OrderBook.load(this.client, pairId));
+    for (let i = 0; i < (this.options.maxFillsPerScan ?? 5) && !this.haltReason; i++) {
+      const opportunity = await this.best(await this.client.getPair(pairId), book);
+      if (!opportunity) break;
+      const fill = await this.execute(opportunity);
+      if (!fill) break;
+      fills.push(fill);
+      // Book updates from events lag behind, read the order back
+      book.upsert(await this.client.getLimitOrder(pairId, opportunity.orderId));
+    }
+    return fills;
+  }
+
+  /**
+   * Loads the books of the watched pairs, scans them once and rescans a pair on
+   * every ReservesUpdated and order book change. Returns a function that stops
+   * watching and rethrows the first error a scan ran into.
+   */
+  async start(): Promise<() => Promise<void>> {
+    const pairIds = this.options.pairIds ?? (await this.client.getPairs()).map((pair) => pair.pairId);
+    const contract = this.client.contract;
+    const unsubscribers: (() => Promise<void> | void)[] = [];
+
+    for (const pairId of pairIds) {
+      const book = await OrderBook.load(this.client, pairId);
+      this.books.set(pairId, book);
+      unsubscribers.push(await book.watch(this.client));
+      unsubscribers.push(book.onUpdate(() => this.schedule(pairId)));
+    }
+    const reserves = contract.filters.ReservesUpdated();
+    const onReserves = (...args: unknown[]) => {
+      const { args: event } = args[args.length - 1] as ContractEventPayload;
+      if (this.books.has(event.pairId)) this.schedule(event.pairId);
+    };
+    await contract.on(reserves, onReserves);
+    unsubscribers.push(() => contract.off(reserves, onReserves).then(() => undefined));
+
+    for (const pairId of pairIds) this.schedule(pairId);
+    return async () => {
+      for (const unsubscribe of unsubscribers) await unsubscribe();
+      await this.queue;
+      this.books.clear();
+      if (this.failure) throw this.failure;
+    };
+  }
+
+  // Coalesces triggers per pair and runs scans one at a time
+  private schedule(pairId: bigint): void {
+    if (this.scheduled.has(pairId)) return;
+    this.scheduled.add(pairId);
+    this.queue = this.queue
+      .then(() => {
+        this.scheduled.delete(pairId);
+        return this.scan(pairId);
+      })
+      .then(
+        () => undefined,
+        (err: unknown) => {
+          this.failure ??= err;
+        }
+      );
+  }
+
+  private provider() {
+    const provider = this.client.signer.provider;
+    if (!provider) throw new MissingProviderError();
+    return provider;
+  }
+
+  private async best(pair: Pair, book: OrderBook): Promise<KeeperOpportunity | undefined> {
+    const provider = this.provider();
+    const feeData = await provider.getFeeData();
+    const gasPrice = feeData.gasPrice ?? feeData.maxFeePerGas ?? 0n;
+    const keeper = await this.client.signer.getAddress();
+
+    let best: KeeperOpportunity | undefined;
+    for (const token of [pair.tokenA, pair.tokenB]) {
+      const nativePrice = this.options.nativePrice(token);
+      if (nativePrice === undefined) continue;
+      const gasCost = ((this.options.gasLimit ?? DEFAULT_GAS_LIMIT) * gasPrice * nativePrice) / NATIVE_UNIT;
+      const balance: bigint = await new Contract(token, ERC20_ABI, provider).balanceOf(keeper);
+      let spendable = balance;
+      if (this.options.maxTotalSpend !== undefined) {
+        const left = this.options.maxTotalSpend - this.spentOf(token);
+        if (left < spendable) spendable = left > 0n ? left : 0n;
+      }
+      // Orders that want `token` are the ones the keeper pays in `token`
+      const orders = book.ordersFor(token);
+      for (const order of orders) {
+        const candidate = findOpportunity(pair, order, gasCost, {
+          ...this.options,
+          ignoreMakers: [keeper, ...(this.options.ignoreMakers ?? [])],
+          spendable,
+        });
+        if (candidate && (!best || candidate.profit > best.profit)) best = candidate;
+      }
+    }
+    return best;
+  }
+
+  private async execute(opportunity: KeeperOpportunity): Promise<KeeperFill | undefined> {
+    const { pairId, orderId, offerToken, desiredToken, amountIn } = opportunity;
+    let filled: bigint;
+    const txHashes: string[] = [];
+    try {
+      const result = await this.client.fillLimitOrder(pairId, orderId, amountIn);
+      filled = result.filled;
+      txHashes.push(result.txHash);
+    } catch (err) {
+      // Another taker got there first, the next scan sees the new state
+      const stale = err instanceof LiteswapError && ["OrderNotActive", "InvalidFillAmount"].includes(err.errorName);
+      if (!stale) throw err;
+      return undefined;
+    }
+    this.spent.set(desiredToken.toLowerCase(), this.spentOf(desiredToken) + amountIn);
+
+    // Never accept less than what was paid plus the estimated gas
+    const breakEven = amountIn + opportunity.gasCost;
+    const tolerated = minAmountOutForSlippage(opportunity.amountOut, this.options.slippageBps ?? 30n);
+    let realisedAmountOut = 0n;
+    let swapError: unknown;
+    try {
+      const result = await this.client.swap(pairId, offerToken, filled, tolerated > breakEven ? tolerated : breakEven);
+      realisedAmountOut = result.amountOut;
+      txHashes.push(result.txHash);
+    } catch (err) {
+      swapError = err;
+      this.haltReason = `swap back of order ${pairId}/${orderId} failed, holding ${filled} of ${offerToken}`;
+    }
+
+    let realisedGasCost = 0n;
+    const nativePrice = this.options.nativePrice(desiredToken) ?? 0n;
+    for (const hash of txHashes) {
+      const receipt = await this.provider().getTransactionReceipt(hash);
+      if (receipt) realisedGasCost += (receipt.gasUsed * receipt.gasPrice * nativePrice) / NATIVE_UNIT;
+    }
+    const fill: KeeperFill = {
+      ...opportunity,
+      filled,
+      txHashes,
+      realisedAmountOut,
+      realisedGasCost,
+      realisedProfit: realisedAmountOut - amountIn - realisedGasCost,
+      swapError,
+    };
+    this.fills.push(fill);
+    for (const listener of this.listeners) listener(fill);
+    return fill;
+  }
+}
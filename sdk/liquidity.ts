@@ -0,0 +1,146 @@
+import { ZeroAddress } from "ethers";
+import { liteswapError } from "./errors";
+import { sameAddress, sqrt } from "./math";
+import { BPS_DENOMINATOR } from "./quote";
+import { LiquidityPosition, Pair } from "./types";
+
+// Mirrors the private MINIMUM_SHARES constant in src/Liteswap.sol
+export const MINIMUM_SHARES = 1000n;
+
+export interface InitializePairPreview {
+  token0: string;
+  token1: string;
+  amount0: bigint;
+  amount1: bigint;
+  shares: bigint;
+}
+
+export interface AddLiquidityPreview {
+  amountA: bigint;
+  amountB: bigint;
+  shares: bigint;
+  newReserveA: bigint;
+  newReserveB: bigint;
+  newTotalShares: bigint;
+  // Provider share of the pool after the add, as returned by getUserShareBps
+  shareBps: bigint;
+}
+
+export interface RemoveLiquidityPreview {
+  amountA: bigint;
+  amountB: bigint;
+  sharesBurned: bigint;
+  newReserveA: bigint;
+  newReserveB: bigint;
+  newTotalShares: bigint;
+  remainingShares: bigint;
+  shareBps: bigint;
+}
+
+/**
+ * Same formula as getUserShareBps: position share of the pool in basis points.
+ */
+export function shareBps(shares: bigint, totalShares: bigint): bigint {
+  if (totalShares === 0n) return 0n;
+  return (shares * BPS_DENOMINATOR) / totalShares;
+}
+
+/**
+ * Previews initializePair: token sorting, the sqrt(amount0 * amount1) initial
+ * shares and the MINIMUM_SHARES check. Amounts are assumed to arrive in full.
+ */
+export function previewInitializePair(
+  tokenA: string,
+  tokenB: string,
+  amountA: bigint,
+  amountB: bigint
+): InitializePairPreview {
+  if (sameAddress(tokenA, ZeroAddress) || sameAddress(tokenB, ZeroAddress)) throw liteswapError("InvalidTokenAddress");
+  if (sameAddress(tokenA, tokenB)) throw liteswapError("InvalidTokenAddress");
+  if (amountA === 0n || amountB === 0n) throw liteswapError("InvalidAmount");
+
+  const aFirst = tokenA.toLowerCase() < tokenB.toLowerCase();
+  const [token0, token1] = aFirst ? [tokenA, tokenB] : [tokenB, tokenA];
+  const [amount0, amount1] = aFirst ? [amountA, amountB] : [amountB, amountA];
+
+  const shares = sqrt(amount0 * amount1);
+  if (shares < MINIMUM_SHARES) throw liteswapError("InsufficientLiquidity");
+  return { token0, token1, amount0, amount1, shares };
+}
+
+/**
+ * Amount of tokenB addLiquidity will pull for `amountA` of tokenA.
+ */
+export function requiredAmountB(pair: Pair, amountA: bigint): bigint {
+  if (!pair.initialized) throw liteswapError("PairDoesNotExist");
+  if (amountA === 0n) throw liteswapError("InvalidAmount");
+  const amountB = (amountA * pair.reserveB) / pair.reserveA;
+  if (amountB === 0n) throw liteswapError("InvalidAmount");
+  return amountB;
+}
+
+/**
+ * Previews addLiquidity for `amountA` of tokenA. Pass the provider's current
+ * position to get the resulting getUserShareBps value.
+ */
+export function previewAddLiquidity(
+  pair: Pair,
+  amountA: bigint,
+  position: LiquidityPosition = { shares: 0n, hasPosition: false }
+): AddLiquidityPreview {
+  const amountB = requiredAmountB(pair, amountA);
+  const shares = (amountA * pair.totalShares) / pair.reserveA;
+  if (shares === 0n) throw liteswapError("InsufficientLiquidity");
+
+  const newTotalShares = pair.totalShares + shares;
+  return {
+    amountA,
+    amountB,
+    shares,
+    newReserveA: pair.reserveA + amountA,
+    newReserveB: pair.reserveB + amountB,
+    newTotalShares,
+    shareBps: shareBps(position.shares + shares, newTotalShares),
+  };
+}
+
+/**
+ * Previews removeLiquidity for `sharesToBurn` out of `position`.
+ */
+export function previewRemoveLiquidity(
+  pair: Pair,
+  sharesToBurn: bigint,
+  position: LiquidityPosition
+): RemoveLiquidityPreview {
+  if (sharesToBurn === 0n) throw liteswapError("InvalidAmount");
+  if (!position.hasPosition) throw liteswapError("NoPosition");
+  if (position.shares < sharesToBurn) throw liteswapError("InsufficientShares");
+
+  const amountA = (pair.reserveA * sharesToBurn) / pair.totalShares;
+  const amountB = (pair.reserveB * sharesToBurn) / pair.totalShares;
+  if (amountA === 0n || amountB === 0n) throw liteswapError("InvalidAmount");
+
+  const newTotalShares = pair.totalShares - sharesToBurn;
+  const remainingShares = position.shares - sharesToBurn;
+  return {
+    amountA,
+    amountB,
+    sharesBurned: sharesToBurn,
+    newReserveA: pair.reserveA - amountA,
+    newReserveB: pair.reserveB - amountB,
+    newTotalShares,
+    remainingShares,
+    shareBps: shareBps(remainingShares, newTotalShares),
+  };
+}
+
+/**
+ * Redeemable amounts for `shares` at the current reserves, without the revert checks.
+ */
+export function redeemableAmounts(pair: Pair, shares: bigint): { amountA: bigint; amountB: bigint } {
+  if (pair.totalShares === 0n) return { amountA: 0n, amountB: 0n };
+  return {
+    amountA: (pair.reserveA * shares) / pair.totalShares,
+    amountB: (pair.reserveB * shares) / pair.totalShares,
+  };
+}
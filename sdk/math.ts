@@ -0,0 +1,27 @@
+/**
+ * Integer square root rounding down, the same Babylonian iteration as `_sqrt` in
+ * src/Liteswap.sol so initial share previews match the contract bit for bit.
+ * Iterative rather than recursive so it is safe for full uint256 inputs.
+ */
+export function sqrt(value: bigint): bigint {
+  if (value < 0n) {
+    throw new RangeError("square root of negative numbers is not supported");
+  }
+  if (value > 3n) {
+    let z = value;
+    let x = value / 2n + 1n;
+    while (x < z) {
+      z = x;
+      x = (value / x + x) / 2n;
+    }
+    return z;
+  }
+  return value === 0n ? 0n : 1n;
+}
+
+/**
+ * Returns true when `a` and `b` refer to the same address regardless of checksum casing.
+ */
+export function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
@@ -0,0 +1,474 @@
+import { Contract, Interface, Provider, getAddress, toBeHex, zeroPadValue } from "ethers";
+import { LITESWAP_ABI } from "./abi";
+import { PriceUnavailableError } from "./errors";
+import { parseLiteswapLog } from "./events";
+import { sameAddress, sqrt } from "./math";
+import { BPS_DENOMINATOR, PRICE_SCALE } from "./quote";
+
+const liteswapInterface = new Interface(LITESWAP_ABI);
+const ORACLE_TOPICS = [
+  liteswapInterface.getEvent("ReservesUpdated")!.topicHash,
+  liteswapInterface.getEvent("Swap")!.topicHash,
+];
+
+/**
+ * Reserves of a pair after one ReservesUpdated event.
+ */
+export interface PriceSample {
+  blockNumber: number;
+  logIndex: number;
+  timestamp: number;
+  reserveA: bigint;
+  reserveB: bigint;
+}
+
+/**
+ * One Swap event oriented on the pair, whichever way it traded.
+ */
+export interface TradeSample {
+  blockNumber: number;
+  logIndex: number;
+  timestamp: number;
+  amountA: bigint;
+  amountB: bigint;
+  // Reserves the trade was priced against
+  reserveA: bigint;
+  reserveB: bigint;
+}
+
+export interface OracleGuards {
+  // sqrt(reserveA * reserveB) below which pool states and trades are ignored
+  minLiquidity?: bigint;
+  // Deviation from the median of the window beyond which a price is rejected as an outlier
+  maxDeviationBps?: bigint;
+  // Share of the window (of the volume for VWAP) accepted prices must cover
+  minCoverageBps?: bigint;
+}
+
+/**
+ * A price over [from, to] as tokenB per tokenA in base units scaled by
+ * PRICE_SCALE, the units of pairPrice.
+ */
+export interface WindowPrice {
+  price: bigint;
+  from: number;
+  to: number;
+  // Pool states or trades the price was computed from, and those the guards rejected
+  samples: number;
+  rejected: number;
+  coverageBps: bigint;
+}
+
+export type PriceKind = "spot" | "twap" | "vwap";
+
+export interface PriceReading extends WindowPrice {
+  pairId: bigint;
+  kind: PriceKind;
+  // Last block the oracle synced
+  blockNumber: number;
+}
+
+export interface PriceOracleOptions extends OracleGuards {
+  // Pairs to sample, all pairs when omitted
+  pairIds?: bigint[];
+  // First block to sample, history before it is unknown to the oracle
+  startBlock?: number;
+  // Maximum block range per eth_getLogs request
+  batchSize?: number;
+  // Blocks behind the head that are left unsampled
+  confirmations?: number;
+  // Blocks resampled when the last synced block was reorged away
+  maxReorgDepth?: number;
+  // Seconds of history kept behind the last synced block, everything when omitted
+  retention?: number;
+}
+
+export interface OracleSyncResult {
+  fromBlock: number;
+  toBlock: number;
+  samples: number;
+  trades: number;
+  reorged: boolean;
+}
+
+interface SyncedBlock {
+  number: number;
+  hash: string;
+  timestamp: number;
+}
+
+function reservePrice(reserveA: bigint, reserveB: bigint): bigint {
+  return reserveA === 0n ? 0n : (reserveB * PRICE_SCALE) / reserveA;
+}
+
+function isLiquid(reserveA: bigint, reserveB: bigint, guards: OracleGuards): boolean {
+  return guards.minLiquidity === undefined || sqrt(reserveA * reserveB) >= guards.minLiquidity;
+}
+
+function median(values: bigint[]): bigint {
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2n;
+}
+
+// Drops prices further than maxDeviationBps from the median of all of them
+function rejectOutliers<T extends { price: bigint }>(entries: T[], guards: OracleGuards): T[] {
+  if (guards.maxDeviationBps === undefined || entries.length === 0) return entries;
+  const reference = median(entries.map((entry) => entry.price));
+  return entries.filter((entry) => {
+    const deviation = entry.price > reference ? entry.price - reference : reference - entry.price;
+    return deviation * BPS_DENOMINATOR <= guards.maxDeviationBps! * reference;
+  });
+}
+
+function checkWindow(from: number, to: number): void {
+  if (to <= from) throw new RangeError(`Empty price window [${from}, ${to}]`);
+}
+
+/**
+ * Latest pool price at or before `at`, undefined when there is none or the pool
+ * was below minLiquidity. Spot prices can be moved within a single block, use
+ * them for display and the time weighted price for anything at risk.
+ */
+export function spotPrice(
+  samples: readonly PriceSample[],
+  at: number,
+  guards: OracleGuards = {}
+): WindowPrice | undefined {
+  let latest: PriceSample | undefined;
+  for (const sample of samples) {
+    if (sample.timestamp > at) break;
+    latest = sample;
+  }
+  if (!latest || !isLiquid(latest.reserveA, latest.reserveB, guards)) return undefined;
+  return {
+    price: reservePrice(latest.reserveA, latest.reserveB),
+    from: latest.timestamp,
+    to: at,
+    samples: 1,
+    rejected: 0,
+    coverageBps: BPS_DENOMINATOR,
+  };
+}
+
+/**
+ * Time weighted average pool price over [from, to] from samples in log order.
+ * Each pool state weighs the seconds until the next sample, so only the closing
+ * state of a block carries weight and a price pushed and restored within one
+ * block never enters the average. States below minLiquidity or off the median
+ * by more than maxDeviationBps are left out along with their time, which lowers
+ * coverageBps. Undefined when no state is left.
+ */
+export function timeWeightedPrice(
+  samples: readonly PriceSample[],
+  from: number,
+  to: number,
+  guards: OracleGuards = {}
+): WindowPrice | undefined {
+  checkWindow(from, to);
+  const segments: { price: bigint; duration: bigint; liquid: boolean }[] = [];
+  samples.forEach((sample, index) => {
+    const start = Math.max(sample.timestamp, from);
+    const end = Math.min(index + 1 < samples.length ? samples[index + 1].timestamp : to, to);
+    if (end <= start) return;
+    segments.push({
+      price: reservePrice(sample.reserveA, sample.reserveB),
+      duration: BigInt(end - start),
+      liquid: isLiquid(sample.reserveA, sample.reserveB, guards),
+    });
+  });
+
+  const accepted = rejectOutliers(segments.filter((segment) => segment.liquid), guards);
+  if (accepted.length === 0) return undefined;
+  let weighted = 0n;
+  let duration = 0n;
+  for (const segment of accepted) {
+    weighted += segment.price * segment.duration;
+    duration += segment.duration;
+  }
+  return {
+    price: weighted / duration,
+    from,
+    to,
+    samples: accepted.length,
+    rejected: segments.length - accepted.length,
+    coverageBps: (duration * BPS_DENOMINATOR) / BigInt(to - from),
+  };
+}
+
+/**
+ * Volume weighted average execution price of the trades mined within [from, to],
+ * total tokenB over total tokenA. Trades against a pool below minLiquidity or
+ * priced off the median by more than maxDeviationBps are left out, coverageBps
+ * being the share of the tokenA volume kept. Undefined when no trade is left.
+ */
+export function volumeWeightedPrice(
+  trades: readonly TradeSample[],
+  from: number,
+  to: number,
+  guards: OracleGuards = {}
+): WindowPrice | undefined {
+  checkWindow(from, to);
+  const inWindow = trades
+    .filter((trade) => trade.timestamp >= from && trade.timestamp <= to && trade.amountA > 0n)
+    .map((trade) => ({ ...trade, price: (trade.amountB * PRICE_SCALE) / trade.amountA }));
+
+  const liquid = inWindow.filter((trade) => isLiquid(trade.reserveA, trade.reserveB, guards));
+  const accepted = rejectOutliers(liquid, guards);
+  if (accepted.length === 0) return undefined;
+  let volumeA = 0n;
+  let volumeB = 0n;
+  for (const trade of accepted) {
+    volumeA += trade.amountA;
+    volumeB += trade.amountB;
+  }
+  const totalA = inWindow.reduce((total, trade) => total + trade.amountA, 0n);
+  return {
+    price: (volumeB * PRICE_SCALE) / volumeA,
+    from,
+    to,
+    samples: accepted.length,
+    rejected: inWindow.length - accepted.length,
+    coverageBps: (volumeA * BPS_DENOMINATOR) / totalA,
+  };
+}
+
+/**
+ * Liteswap keeps no price accumulator on chain, so the oracle follows the
+ * ReservesUpdated and Swap logs with their block timestamps and answers spot,
+ * TWAP and VWAP queries per pair over any window of the history it holds. Reads
+ * are synchronous against the last sync and throw PriceUnavailableError rather
+ * than return a price its guards do not trust.
+ */
+export class PriceOracle {
+  readonly provider: Provider;
+  readonly address: string;
+  readonly options: PriceOracleOptions;
+  private readonly contract: Contract;
+  private readonly series = new Map<bigint, { samples: PriceSample[]; trades: TradeSample[] }>();
+  private readonly tokenAs = new Map<bigint, string>();
+  private head?: SyncedBlock;
+  private timer?: NodeJS.Timeout;
+
+  constructor(provider: Provider, address: string, options: PriceOracleOptions = {}) {
+    this.provider = provider;
+    this.address = getAddress(address);
+    this.options = options;
+    this.contract = new Contract(this.address, LITESWAP_ABI, provider);
+  }
+
+  // Last synced block, readings default to its timestamp
+  get blockNumber(): number | undefined {
+    return this.head?.number;
+  }
+
+  get timestamp(): number | undefined {
+    return this.head?.timestamp;
+  }
+
+  /**
+   * Samples every block between the last synced one and the confirmed head.
+   */
+  async sync(): Promise<OracleSyncResult> {
+    const reorged = await this.handleReorg();
+    const head = (await this.provider.getBlockNumber()) - (this.options.confirmations ?? 0);
+    const fromBlock = this.head ? this.head.number + 1 : this.options.startBlock ?? 0;
+    const batchSize = this.options.batchSize ?? 2000;
+
+    let samples = 0;
+    let trades = 0;
+    for (let from = fromBlock; from <= head; from += batchSize) {
+      const counts = await this.sampleRange(from, Math.min(from + batchSize - 1, head));
+      samples += counts.samples;
+      trades += counts.trades;
+    }
+    this.prune();
+    return { fromBlock, toBlock: Math.max(head, fromBlock - 1), samples, trades, reorged };
+  }
+
+  /**
+   * Polls sync() until stop() is called. Errors are passed to `onError` and retried on the next tick.
+   */
+  start(onError: (err: unknown) => void, intervalMs: number = 4000): void {
+    if (this.timer) return;
+    const tick = async () => {
+      try {
+        await this.sync();
+      } catch (err) {
+        onError(err);
+      }
+      if (this.timer) this.timer = setTimeout(tick, intervalMs);
+    };
+    this.timer = setTimeout(tick, 0);
+  }
+
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  samples(pairId: bigint): readonly PriceSample[] {
+    return this.series.get(pairId)?.samples ?? [];
+  }
+
+  trades(pairId: bigint): readonly TradeSample[] {
+    return this.series.get(pairId)?.trades ?? [];
+  }
+
+  spot(pairId: bigint, at?: number): PriceReading {
+    const end = this.end(pairId, "spot", at);
+    return this.reading(pairId, "spot", spotPrice(this.samples(pairId), end, this.options));
+  }
+
+  /**
+   * Time weighted average price over the `window` seconds ending at `at`,
+   * by default the timestamp of the last synced block.
+   */
+  twap(pairId: bigint, window: number, at?: number): PriceReading {
+    const end = this.end(pairId, "twap", at);
+    const price = timeWeightedPrice(this.samples(pairId), end - window, end, this.options);
+    return this.reading(pairId, "twap", price);
+  }
+
+  vwap(pairId: bigint, window: number, at?: number): PriceReading {
+    const end = this.end(pairId, "vwap", at);
+    const price = volumeWeightedPrice(this.trades(pairId), end - window, end, this.options);
+    return this.reading(pairId, "vwap", price);
+  }
+
+  /**
+   * How far the spot price is off the TWAP of `window`, positive when above.
+   * A large deviation is the usual sign of a pool being pushed around.
+   */
+  deviationBps(pairId: bigint, window: number, at?: number): bigint {
+    const twap = this.twap(pairId, window, at).price;
+    if (twap === 0n) throw new PriceUnavailableError(pairId, "twap", "the average price is zero");
+    return ((this.spot(pairId, at).price - twap) * BPS_DENOMINATOR) / twap;
+  }
+
+  private end(pairId: bigint, kind: PriceKind, at: number | undefined): number {
+    if (!this.head) throw new PriceUnavailableError(pairId, kind, "the oracle has not synced yet");
+    return at ?? this.head.timestamp;
+  }
+
+  private reading(pairId: bigint, kind: PriceKind, price: WindowPrice | undefined): PriceReading {
+    if (!price) throw new PriceUnavailableError(pairId, kind, "no sample in the window passed the guards");
+    const minCoverageBps = this.options.minCoverageBps ?? 0n;
+    if (price.coverageBps < minCoverageBps) {
+      throw new PriceUnavailableError(
+        pairId,
+        kind,
+        `accepted samples cover ${price.coverageBps} bps of the window, below ${minCoverageBps}`
+      );
+    }
+    return { ...price, pairId, kind, blockNumber: this.head!.number };
+  }
+
+  /**
+   * Drops the last maxReorgDepth blocks when the last synced block is no longer
+   * canonical, they are sampled again by the sync. Returns true on a reorg.
+   */
+  private async handleReorg(): Promise<boolean> {
+    if (!this.head) return false;
+    const current = await this.provider.getBlock(this.head.number);
+    if (current?.hash === this.head.hash) return false;
+
+    const keep = this.head.number - (this.options.maxReorgDepth ?? 64);
+    for (const series of this.series.values()) {
+      series.samples = series.samples.filter((sample) => sample.blockNumber <= keep);
+      series.trades = series.trades.filter((trade) => trade.blockNumber <= keep);
+    }
+    this.head = keep >= (this.options.startBlock ?? 0) ? await this.getBlock(keep) : undefined;
+    return true;
+  }
+
+  private async sampleRange(from: number, to: number): Promise<{ samples: number; trades: number }> {
+    const pairIds = this.options.pairIds?.map((pairId) => zeroPadValue(toBeHex(pairId), 32));
+    const logs = await this.provider.getLogs({
+      address: this.address,
+      fromBlock: from,
+      toBlock: to,
+      topics: [ORACLE_TOPICS, pairIds ?? null],
+    });
+
+    const blockNumbers = new Set(logs.map((log) => log.blockNumber));
+    blockNumbers.add(to);
+    const blocks = new Map<number, SyncedBlock>();
+    for (const number of [...blockNumbers].sort((a, b) => a - b)) blocks.set(number, await this.getBlock(number));
+
+    // Collected first and applied once the whole range checked out, a failed range is retried as a whole
+    const samples: [bigint, PriceSample][] = [];
+    const trades: [bigint, TradeSample][] = [];
+    const latest = new Map<bigint, PriceSample>();
+    for (const log of logs) {
+      const block = blocks.get(log.blockNumber)!;
+      // A block replaced between getLogs and getBlock, retry the range on the next sync
+      if (block.hash !== log.blockHash) throw new Error(`Reorg detected while sampling block ${log.blockNumber}`);
+      const event = parseLiteswapLog(log);
+      const position = { blockNumber: log.blockNumber, logIndex: log.index, timestamp: block.timestamp };
+
+      if (event?.name === "ReservesUpdated") {
+        const sample = { ...position, reserveA: event.reserveA, reserveB: event.reserveB };
+        samples.push([event.pairId, sample]);
+        latest.set(event.pairId, sample);
+      } else if (event?.name === "Swap") {
+        // swap emits ReservesUpdated right before Swap, undo the trade on those reserves
+        const after = latest.get(event.pairId);
+        if (!after) throw new Error(`Swap without ReservesUpdated in ${log.transactionHash}`);
+        const inA = sameAddress(event.tokenIn, await this.tokenA(event.pairId));
+        const [amountA, amountB] = inA ? [event.amountIn, event.amountOut] : [event.amountOut, event.amountIn];
+        trades.push([
+          event.pairId,
+          {
+            ...position,
+            amountA,
+            amountB,
+            reserveA: inA ? after.reserveA - amountA : after.reserveA + amountA,
+            reserveB: inA ? after.reserveB + amountB : after.reserveB - amountB,
+          },
+        ]);
+      }
+    }
+
+    for (const [pairId, sample] of samples) this.pairSeries(pairId).samples.push(sample);
+    for (const [pairId, trade] of trades) this.pairSeries(pairId).trades.push(trade);
+    this.head = blocks.get(to)!;
+    return { samples: samples.length, trades: trades.length };
+  }
+
+  // Keeps the last sample before the retention cutoff, it is the price the window starts with
+  private prune(): void {
+    if (this.options.retention === undefined || !this.head) return;
+    const cutoff = this.head.timestamp - this.options.retention;
+    for (const series of this.series.values()) {
+      let first = 0;
+      while (first + 1 < series.samples.length && series.samples[first + 1].timestamp <= cutoff) first++;
+      series.samples = series.samples.slice(first);
+      series.trades = series.trades.filter((trade) => trade.timestamp >= cutoff);
+    }
+  }
+
+  private pairSeries(pairId: bigint): { samples: PriceSample[]; trades: TradeSample[] } {
+    let series = this.series.get(pairId);
+    if (!series) {
+      series = { samples: [], trades: [] };
+      this.series.set(pairId, series);
+    }
+    return series;
+  }
+
+  private async tokenA(pairId: bigint): Promise<string> {
+    let tokenA = this.tokenAs.get(pairId);
+    if (!tokenA) {
+      [tokenA] = (await this.contract.pairs(pairId)) as string[];
+      this.tokenAs.set(pairId, tokenA);
+    }
+    return tokenA;
+  }
+
+  private async getBlock(number: number): Promise<SyncedBlock> {
+    const block = await this.provider.getBlock(number);
+    if (!block?.hash) throw new Error(`Block ${number} is not available`);
+    return { number, hash: block.hash, timestamp: block.timestamp };
+  }
+}
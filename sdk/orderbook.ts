@@ -0,0 +1,214 @@
+import { ContractEventPayload } from "ethers";
+import { LiteswapClient } from "./client";
+import { sameAddress } from "./math";
+import { PRICE_SCALE } from "./quote";
+import { LimitOrder, Pair } from "./types";
+
+export interface OrderBookEntry extends LimitOrder {
+  // Implied price the taker pays, desiredAmount per offerAmount scaled by PRICE_SCALE
+  impliedPrice: bigint;
+  // Same price expressed as tokenB per tokenA for both sides of the book, in base
+  // units, formatPrice(quotePrice, decimalsA, decimalsB) shows it in whole tokens
+  quotePrice: bigint;
+}
+
+export interface BookLevel {
+  quotePrice: bigint;
+  offerAmount: bigint;
+  desiredAmount: bigint;
+  cumulativeOfferAmount: bigint;
+  orders: number;
+}
+
+export interface BookDepth {
+  asks: BookLevel[];
+  bids: BookLevel[];
+}
+
+export type OrderBookListener = (book: OrderBook) => void;
+
+const SCAN_BATCH_SIZE = 50;
+
+function toEntry(pair: Pair, order: LimitOrder): OrderBookEntry {
+  const impliedPrice = (order.desiredAmount * PRICE_SCALE) / order.offerAmount;
+  // Asks offer tokenA for tokenB, bids offer tokenB for tokenA
+  const quotePrice = sameAddress(order.offerToken, pair.tokenA)
+    ? impliedPrice
+    : (order.offerAmount * PRICE_SCALE) / order.desiredAmount;
+  return { ...order, impliedPrice, quotePrice };
+}
+
+// Lower implied price first, ties keep time priority
+function byImpliedPrice(a: OrderBookEntry, b: OrderBookEntry): number {
+  if (a.impliedPrice !== b.impliedPrice) return a.impliedPrice < b.impliedPrice ? -1 : 1;
+  return a.orderId < b.orderId ? -1 : a.orderId > b.orderId ? 1 : 0;
+}
+
+/**
+ * Active limit orders of a single pair split into asks (selling tokenA) and bids
+ * (selling tokenB). Both sides are sorted best first for a taker, i.e. by
+ * ascending desiredAmount / offerAmount.
+ */
+export class OrderBook {
+  readonly pair: Pair;
+  private readonly orders = new Map<bigint, OrderBookEntry>();
+  private readonly listeners = new Set<OrderBookListener>();
+
+  constructor(pair: Pair, orders: LimitOrder[] = []) {
+    this.pair = pair;
+    for (const order of orders) this.upsert(order);
+  }
+
+  /**
+   * Builds the book by scanning limitOrders(pairId, 0.._orderIdCounter).
+   */
+  static async load(client: LiteswapClient, pairId: bigint): Promise<OrderBook> {
+    const pair = await client.getPair(pairId);
+    const count: bigint = await client.contract._orderIdCounter(pairId);
+    const orders: LimitOrder[] = [];
+    for (let start = 0n; start < count; start += BigInt(SCAN_BATCH_SIZE)) {
+      const ids: bigint[] = [];
+      for (let orderId = start; orderId < count && orderId < start + BigInt(SCAN_BATCH_SIZE); orderId++) {
+        ids.push(orderId);
+      }
+      orders.push(...(await Promise.all(ids.map((orderId) => client.getLimitOrder(pairId, orderId)))));
+    }
+    return new OrderBook(pair, orders);
+  }
+
+  get size(): number {
+    return this.orders.size;
+  }
+
+  get asks(): OrderBookEntry[] {
+    return [...this.orders.values()].filter((order) => sameAddress(order.offerToken, this.pair.tokenA)).sort(byImpliedPrice);
+  }
+
+  get bids(): OrderBookEntry[] {
+    return [...this.orders.values()].filter((order) => sameAddress(order.offerToken, this.pair.tokenB)).sort(byImpliedPrice);
+  }
+
+  get bestAsk(): OrderBookEntry | undefined {
+    return this.asks[0];
+  }
+
+  get bestBid(): OrderBookEntry | undefined {
+    return this.bids[0];
+  }
+
+  /**
+   * Orders a taker selling `tokenIn` can fill, best first.
+   */
+  ordersFor(tokenIn: string): OrderBookEntry[] {
+    return sameAddress(tokenIn, this.pair.tokenA) ? this.bids : this.asks;
+  }
+
+  getOrder(orderId: bigint): OrderBookEntry | undefined {
+    return this.orders.get(orderId);
+  }
+
+  /**
+   * Inserts or replaces an order. Inactive orders are removed from the book.
+   */
+  upsert(order: LimitOrder): void {
+    if (!order.active || order.offerAmount === 0n || order.desiredAmount === 0n) {
+      this.orders.delete(order.orderId);
+    } else {
+      this.orders.set(order.orderId, toEntry(this.pair, order));
+    }
+    this.notify();
+  }
+
+  remove(orderId: bigint): void {
+    if (this.orders.delete(orderId)) this.notify();
+  }
+
+  /**
+   * Aggregates each side into price levels. `tickSize` (in PRICE_SCALE units of
+   * tokenB per tokenA) buckets nearby prices, asks round up and bids round down.
+   * For tokens with different decimals use fromHumanPrice to get a tick size in
+   * base units.
+   */
+  depth(tickSize: bigint = 1n): BookDepth {
+    const aggregate = (entries: OrderBookEntry[], roundUp: boolean): BookLevel[] => {
+      const levels: BookLevel[] = [];
+      let cumulative = 0n;
+      for (const entry of entries) {
+        const bucket = roundUp
+          ? ((entry.quotePrice + tickSize - 1n) / tickSize) * tickSize
+          : (entry.quotePrice / tickSize) * tickSize;
+        cumulative += entry.offerAmount;
+        const last = levels[levels.length - 1];
+        if (last && last.quotePrice === bucket) {
+          last.offerAmount += entry.offerAmount;
+          last.desiredAmount += entry.desiredAmount;
+          last.cumulativeOfferAmount = cumulative;
+          last.orders += 1;
+        } else {
+          levels.push({
+            quotePrice: bucket,
+            offerAmount: entry.offerAmount,
+            desiredAmount: entry.desiredAmount,
+            cumulativeOfferAmount: cumulative,
+            orders: 1,
+          });
+        }
+      }
+      return levels;
+    };
+    return { asks: aggregate(this.asks, true), bids: aggregate(this.bids, false) };
+  }
+
+  onUpdate(listener: OrderBookListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Keeps the book in sync with LimitOrderPlaced/Filled/Cancelled events for this
+   * pair. Fills re-read the order because the event does not carry the desired
+   * amount consumed. Returns a function that removes the subscriptions.
+   */
+  async watch(client: LiteswapClient): Promise<() => Promise<void>> {
+    const contract = client.contract;
+    const pairId = this.pair.pairId;
+    const placed = contract.filters.LimitOrderPlaced(pairId);
+    const filled = contract.filters.LimitOrderFilled(pairId);
+    const cancelled = contract.filters.LimitOrderCancelled(pairId);
+
+    const onPlaced = (...args: unknown[]) => {
+      const { args: event } = args[args.length - 1] as ContractEventPayload;
+      this.upsert({
+        pairId,
+        orderId: event.orderId,
+        maker: event.maker,
+        offerToken: event.offerToken,
+        desiredToken: event.desiredToken,
+        offerAmount: event.offerAmount,
+        desiredAmount: event.desiredAmount,
+        active: true,
+      });
+    };
+    const onFilled = async (...args: unknown[]) => {
+      const { args: event } = args[args.length - 1] as ContractEventPayload;
+      this.upsert(await client.getLimitOrder(pairId, event.orderId));
+    };
+    const onCancelled = (...args: unknown[]) => {
+      const { args: event } = args[args.length - 1] as ContractEventPayload;
+      this.remove(event.orderId);
+    };
+
+    await contract.on(placed, onPlaced);
+    await contract.on(filled, onFilled);
+    await contract.on(cancelled, onCancelled);
+    return async () => {
+      await contract.off(placed, onPlaced);
+      await contract.off(filled, onFilled);
+      await contract.off(cancelled, onCancelled);
+    };
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) listener(this);
+  }
+}
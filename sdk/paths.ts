@@ -0,0 +1,146 @@
+import { getAddress } from "ethers";
+import { LiteswapClient } from "./client";
+import { computeAmountOut, minAmountOutForSlippage, orientReserves } from "./quote";
+import { Pair, SwapResult } from "./types";
+
+export interface RouteHop {
+  pairId: bigint;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: bigint;
+  expectedOut: bigint;
+  minAmountOut: bigint;
+}
+
+export interface MultiHopRoute {
+  path: string[];
+  amountIn: bigint;
+  expectedOut: bigint;
+  // End to end floor, enforced on the last hop
+  minAmountOut: bigint;
+  hops: RouteHop[];
+}
+
+export interface MultiHopExecution {
+  route: MultiHopRoute;
+  amountOut: bigint;
+  swaps: SwapResult[];
+}
+
+export const MAX_HOPS = 3;
+
+/**
+ * Graph of tokens connected by initialized Liteswap pairs, used to find exact
+ * input routes of up to MAX_HOPS swaps.
+ */
+export class PathFinder {
+  private readonly edges = new Map<string, Pair[]>();
+
+  constructor(pairs: Pair[]) {
+    for (const pair of pairs) {
+      if (!pair.initialized) continue;
+      for (const token of [pair.tokenA, pair.tokenB]) {
+        const key = getAddress(token);
+        this.edges.set(key, [...(this.edges.get(key) ?? []), pair]);
+      }
+    }
+  }
+
+  /**
+   * Builds the graph from pairs(1.._pairIdCount - 1).
+   */
+  static async load(client: LiteswapClient): Promise<PathFinder> {
+    return new PathFinder(await client.getPairs());
+  }
+
+  get tokens(): string[] {
+    return [...this.edges.keys()];
+  }
+
+  /**
+   * Every simple path from tokenIn to tokenOut with its quoted output, best first.
+   * Paths on which any hop would revert are left out.
+   */
+  findRoutes(
+    tokenIn: string,
+    tokenOut: string,
+    amountIn: bigint,
+    maxHops: number = MAX_HOPS,
+    slippageBps: bigint = 50n
+  ): MultiHopRoute[] {
+    const target = getAddress(tokenOut);
+    const routes: MultiHopRoute[] = [];
+
+    const visit = (token: string, amount: bigint, hops: RouteHop[], visited: Set<string>) => {
+      if (hops.length === maxHops) return;
+      for (const pair of this.edges.get(token) ?? []) {
+        const { tokenOut: next, reserveIn, reserveOut } = orientReserves(pair, token);
+        const nextToken = getAddress(next);
+        if (visited.has(nextToken)) continue;
+        const out = computeAmountOut(amount, reserveIn, reserveOut);
+        // Same conditions that make swap revert
+        if (out === 0n || out >= reserveOut) continue;
+
+        const hop: RouteHop = {
+          pairId: pair.pairId,
+          tokenIn: token,
+          tokenOut: nextToken,
+          amountIn: amount,
+          expectedOut: out,
+          minAmountOut: minAmountOutForSlippage(out, slippageBps),
+        };
+        if (nextToken === target) {
+          const path = [getAddress(tokenIn), ...hops.map((h) => h.tokenOut), nextToken];
+          routes.push({
+            path,
+            amountIn,
+            expectedOut: out,
+            minAmountOut: hop.minAmountOut,
+            hops: [...hops, hop],
+          });
+          continue;
+        }
+        visit(nextToken, out, [...hops, hop], new Set([...visited, nextToken]));
+      }
+    };
+
+    if (amountIn > 0n) {
+      const start = getAddress(tokenIn);
+      visit(start, amountIn, [], new Set([start]));
+    }
+    // Highest output first, fewer hops on ties
+    return routes.sort((a, b) => {
+      if (a.expectedOut !== b.expectedOut) return a.expectedOut > b.expectedOut ? -1 : 1;
+      return a.hops.length - b.hops.length;
+    });
+  }
+
+  bestRoute(
+    tokenIn: string,
+    tokenOut: string,
+    amountIn: bigint,
+    maxHops: number = MAX_HOPS,
+    slippageBps: bigint = 50n
+  ): MultiHopRoute | undefined {
+    return this.findRoutes(tokenIn, tokenOut, amountIn, maxHops, slippageBps)[0];
+  }
+}
+
+/**
+ * Executes the hops one swap at a time, each hop spending exactly what the
+ * previous one returned. Every hop enforces its own minAmountOut, scaled to the
+ * input it actually got, and the last one also enforces the route's end to end minimum.
+ */
+export async function executeRoute(client: LiteswapClient, route: MultiHopRoute): Promise<MultiHopExecution> {
+  const swaps: SwapResult[] = [];
+  let amount = route.amountIn;
+  for (const [index, hop] of route.hops.entries()) {
+    const isLast = index === route.hops.length - 1;
+    const hopMinimum = (hop.minAmountOut * amount) / hop.amountIn;
+    const minAmountOut = isLast && route.minAmountOut > hopMinimum ? route.minAmountOut : hopMinimum;
+    const result = await client.swap(hop.pairId, hop.tokenIn, amount, minAmountOut);
+    swaps.push(result);
+    amount = result.amountOut;
+  }
+  return { route, amountOut: amount, swaps };
+}
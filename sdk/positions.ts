@@ -0,0 +1,167 @@
+import { AddressLike, Interface, resolveAddress, toBeHex, zeroPadValue } from "ethers";
+import { LITESWAP_ABI } from "./abi";
+import { LiteswapClient } from "./client";
+import { MissingProviderError } from "./errors";
+import { LiquidityAddedEvent, LiquidityRemovedEvent, parseLiteswapLog } from "./events";
+import { redeemableAmounts, shareBps } from "./liquidity";
+import { sqrt } from "./math";
+import { BPS_DENOMINATOR } from "./quote";
+import { Pair } from "./types";
+
+const liteswapInterface = new Interface(LITESWAP_ABI);
+const POSITION_TOPICS = [
+  liteswapInterface.getEvent("LiquidityAdded")!.topicHash,
+  liteswapInterface.getEvent("LiquidityRemoved")!.topicHash,
+];
+
+export type PositionEvent = LiquidityAddedEvent | LiquidityRemovedEvent;
+
+/**
+ * Profit and loss of one liquidity position. Values "InB" are tokenB amounts,
+ * tokenA being converted at the current spot price reserveB / reserveA.
+ */
+export interface PositionReport {
+  pairId: bigint;
+  user: string;
+  shares: bigint;
+  shareBps: bigint;
+  // Lifetime totals from LiquidityAdded / LiquidityRemoved
+  depositedA: bigint;
+  depositedB: bigint;
+  withdrawnA: bigint;
+  withdrawnB: bigint;
+  // Deposits still backing the current shares, reduced pro rata on every removal
+  costBasisA: bigint;
+  costBasisB: bigint;
+  // What removeLiquidity would return for all shares now
+  currentA: bigint;
+  currentB: bigint;
+  // Part of current attributable to swap fees, from the growth of sqrt(k) per share since entry
+  feesA: bigint;
+  feesB: bigint;
+  kGrowthBps: bigint;
+  holdValueInB: bigint;
+  positionValueInB: bigint;
+  feesValueInB: bigint;
+  // Loss of the position without its fees versus holding the cost basis, positive when worse than holding
+  impermanentLossBps: bigint;
+  // Position value including fees versus holding, positive when better than holding
+  netVsHoldBps: bigint;
+}
+
+function valueInB(pair: Pair, amountA: bigint, amountB: bigint): bigint {
+  if (pair.reserveA === 0n) return amountB;
+  return (amountA * pair.reserveB) / pair.reserveA + amountB;
+}
+
+function relativeBps(value: bigint, reference: bigint): bigint {
+  if (reference === 0n) return 0n;
+  return (value * BPS_DENOMINATOR) / reference;
+}
+
+/**
+ * Replays a provider's LiquidityAdded / LiquidityRemoved events, in log order,
+ * against the current pair state.
+ *
+ * Each deposit is recorded with its geometric value sqrt(amountA * amountB).
+ * Without fees a share keeps the same sqrt(k) / totalShares for its whole life,
+ * so any growth of the position's geometric value over the deposits still
+ * backing it is fee income.
+ */
+export function buildPositionReport(pair: Pair, user: string, events: PositionEvent[]): PositionReport {
+  let shares = 0n;
+  let depositedA = 0n;
+  let depositedB = 0n;
+  let withdrawnA = 0n;
+  let withdrawnB = 0n;
+  let costBasisA = 0n;
+  let costBasisB = 0n;
+  let basisRootK = 0n;
+
+  for (const event of events) {
+    if (event.name === "LiquidityAdded") {
+      shares += event.shares;
+      depositedA += event.amountA;
+      depositedB += event.amountB;
+      costBasisA += event.amountA;
+      costBasisB += event.amountB;
+      basisRootK += sqrt(event.amountA * event.amountB);
+    } else {
+      if (shares === 0n) {
+        throw new Error(`LiquidityRemoved without a prior deposit for ${user}, replay from an earlier block`);
+      }
+      withdrawnA += event.amountA;
+      withdrawnB += event.amountB;
+      // Average cost: the burned shares take their pro rata part of the basis
+      costBasisA -= (costBasisA * event.shares) / shares;
+      costBasisB -= (costBasisB * event.shares) / shares;
+      basisRootK -= (basisRootK * event.shares) / shares;
+      shares -= event.shares;
+    }
+  }
+
+  const { amountA: currentA, amountB: currentB } = redeemableAmounts(pair, shares);
+  const currentRootK = sqrt(currentA * currentB);
+  // Rounding can leave the position a few wei below its basis, which is not negative income
+  const feeShare = currentRootK > basisRootK ? currentRootK - basisRootK : 0n;
+  const feesA = currentRootK === 0n ? 0n : (currentA * feeShare) / currentRootK;
+  const feesB = currentRootK === 0n ? 0n : (currentB * feeShare) / currentRootK;
+
+  const holdValueInB = valueInB(pair, costBasisA, costBasisB);
+  const positionValueInB = valueInB(pair, currentA, currentB);
+  const principalValueInB = valueInB(pair, currentA - feesA, currentB - feesB);
+
+  return {
+    pairId: pair.pairId,
+    user,
+    shares,
+    shareBps: shareBps(shares, pair.totalShares),
+    depositedA,
+    depositedB,
+    withdrawnA,
+    withdrawnB,
+    costBasisA,
+    costBasisB,
+    currentA,
+    currentB,
+    feesA,
+    feesB,
+    kGrowthBps: relativeBps(feeShare, basisRootK),
+    holdValueInB,
+    positionValueInB,
+    feesValueInB: positionValueInB - principalValueInB,
+    impermanentLossBps: relativeBps(holdValueInB - principalValueInB, holdValueInB),
+    netVsHoldBps: relativeBps(positionValueInB - holdValueInB, holdValueInB),
+  };
+}
+
+/**
+ * Fetches the provider's liquidity events for the pair from `fromBlock` on and
+ * builds the report against the current reserves. `fromBlock` must not be later
+ * than the provider's first deposit.
+ */
+export async function loadPositionReport(
+  client: LiteswapClient,
+  pairId: bigint,
+  user?: AddressLike,
+  fromBlock: number = 0
+): Promise<PositionReport> {
+  const provider = client.signer.provider;
+  if (!provider) throw new MissingProviderError();
+  const account = user ? await resolveAddress(user) : await client.signer.getAddress();
+
+  const logs = await provider.getLogs({
+    address: await client.getAddress(),
+    fromBlock,
+    toBlock: "latest",
+    topics: [
+      POSITION_TOPICS,
+      zeroPadValue(toBeHex(pairId), 32),
+      zeroPadValue(account, 32),
+    ],
+  });
+  const events = logs
+    .map((log) => parseLiteswapLog(log))
+    .filter((event): event is PositionEvent => event?.name === "LiquidityAdded" || event?.name === "LiquidityRemoved");
+  return buildPositionReport(await client.getPair(pairId), account, events);
+}
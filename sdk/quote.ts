@@ -0,0 +1,114 @@
+import { liteswapError } from "./errors";
+import { sameAddress } from "./math";
+import { Pair } from "./types";
+
+export const FEE_NUMERATOR = 997n;
+export const FEE_DENOMINATOR = 1000n;
+export const BPS_DENOMINATOR = 10000n;
+// Same fixed point scale the contract uses when comparing limit order ratios
+export const PRICE_SCALE = 10n ** 18n;
+
+export interface SwapQuote {
+  pairId: bigint;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: bigint;
+  amountOut: bigint;
+  reserveIn: bigint;
+  reserveOut: bigint;
+  // Prices are tokenOut per tokenIn in base units scaled by PRICE_SCALE, see toHumanPrice for display
+  spotPrice: bigint;
+  effectivePrice: bigint;
+  // Difference between spot and effective price in basis points, fee included
+  priceImpactBps: bigint;
+  newReserveIn: bigint;
+  newReserveOut: bigint;
+}
+
+/**
+ * Reproduces the output amount computed by `swap` including its integer truncation:
+ * (reserveOut * (amountIn * 997 / 1000)) / (reserveIn + amountIn * 997 / 1000)
+ * `amountIn` is the amount the contract actually receives, so fee-on-transfer
+ * tokens must be netted before calling this. No revert conditions are applied.
+ */
+export function computeAmountOut(amountIn: bigint, reserveIn: bigint, reserveOut: bigint): bigint {
+  const amountInWithFee = (amountIn * FEE_NUMERATOR) / FEE_DENOMINATOR;
+  const denominator = reserveIn + amountInWithFee;
+  if (denominator === 0n) throw liteswapError("InsufficientLiquidity");
+  return (reserveOut * amountInWithFee) / denominator;
+}
+
+/**
+ * Same as computeAmountOut but throws the InvalidAmount / InsufficientLiquidity
+ * errors `swap` reverts with.
+ */
+export function getAmountOut(amountIn: bigint, reserveIn: bigint, reserveOut: bigint): bigint {
+  if (amountIn === 0n) throw liteswapError("InvalidAmount");
+  const amountOut = computeAmountOut(amountIn, reserveIn, reserveOut);
+  if (amountOut === 0n) throw liteswapError("InvalidAmount");
+  if (amountOut >= reserveOut) throw liteswapError("InsufficientLiquidity");
+  return amountOut;
+}
+
+/**
+ * Derives the minAmountOut to pass to `swap` from a slippage tolerance in basis points.
+ */
+export function minAmountOutForSlippage(amountOut: bigint, slippageBps: bigint): bigint {
+  if (slippageBps < 0n || slippageBps > BPS_DENOMINATOR) {
+    throw new RangeError(`Slippage must be between 0 and ${BPS_DENOMINATOR} bps, got ${slippageBps}`);
+  }
+  return (amountOut * (BPS_DENOMINATOR - slippageBps)) / BPS_DENOMINATOR;
+}
+
+/**
+ * Returns the reserves of `pair` oriented for a trade that sells `tokenIn`.
+ */
+export function orientReserves(
+  pair: Pair,
+  tokenIn: string
+): { tokenOut: string; reserveIn: bigint; reserveOut: bigint } {
+  const isTokenA = sameAddress(tokenIn, pair.tokenA);
+  if (!isTokenA && !sameAddress(tokenIn, pair.tokenB)) {
+    throw liteswapError("InvalidTokenAddress");
+  }
+  return isTokenA
+    ? { tokenOut: pair.tokenB, reserveIn: pair.reserveA, reserveOut: pair.reserveB }
+    : { tokenOut: pair.tokenA, reserveIn: pair.reserveB, reserveOut: pair.reserveA };
+}
+
+/**
+ * Quotes an exact input swap against a pair snapshot, throwing the same
+ * LiteswapError the contract would revert with.
+ */
+export function quoteSwap(pair: Pair, tokenIn: string, amountIn: bigint, minAmountOut: bigint = 0n): SwapQuote {
+  // Same check order as the contract
+  if (amountIn === 0n) throw liteswapError("InvalidAmount");
+  if (!pair.initialized) throw liteswapError("PairDoesNotExist");
+  const { tokenOut, reserveIn, reserveOut } = orientReserves(pair, tokenIn);
+
+  const amountOut = computeAmountOut(amountIn, reserveIn, reserveOut);
+  if (amountOut === 0n) throw liteswapError("InvalidAmount");
+  if (amountOut < minAmountOut) throw liteswapError("InvalidAmount");
+  if (amountOut >= reserveOut) throw liteswapError("InsufficientLiquidity");
+
+  const spotPrice = reserveIn === 0n ? 0n : (reserveOut * PRICE_SCALE) / reserveIn;
+  const effectivePrice = (amountOut * PRICE_SCALE) / amountIn;
+  // From the amounts rather than the rounded prices, which keep few digits when tokenOut has few decimals
+  const atSpot = amountIn * reserveOut;
+  const priceImpactBps = atSpot === 0n ? 0n : ((atSpot - amountOut * reserveIn) * BPS_DENOMINATOR) / atSpot;
+
+  return {
+    pairId: pair.pairId,
+    tokenIn,
+    tokenOut,
+    amountIn,
+    amountOut,
+    reserveIn,
+    reserveOut,
+    spotPrice,
+    effectivePrice,
+    priceImpactBps,
+    newReserveIn: reserveIn + amountIn,
+    newReserveOut: reserveOut - amountOut,
+  };
+}
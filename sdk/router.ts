@@ -0,0 +1,202 @@
+import { LiteswapClient } from "./client";
+import { LiteswapError } from "./errors";
+import { sqrt } from "./math";
+import { OrderBook, OrderBookEntry } from "./orderbook";
+import { FEE_DENOMINATOR, FEE_NUMERATOR, computeAmountOut, minAmountOutForSlippage, orientReserves } from "./quote";
+import { Pair } from "./types";
+
+export interface LimitOrderLeg {
+  kind: "limitOrder";
+  orderId: bigint;
+  amountIn: bigint;
+  expectedOut: bigint;
+}
+
+export interface AmmLeg {
+  kind: "amm";
+  amountIn: bigint;
+  expectedOut: bigint;
+}
+
+export type RouteLeg = LimitOrderLeg | AmmLeg;
+
+export interface ExecutionPlan {
+  pairId: bigint;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: bigint;
+  expectedOut: bigint;
+  // Aggregate floor enforced across all legs
+  minAmountOut: bigint;
+  // What a plain swap would return, for comparison
+  ammOnlyOut: bigint;
+  legs: RouteLeg[];
+}
+
+export interface RouteExecution {
+  plan: ExecutionPlan;
+  amountOut: bigint;
+  txHashes: string[];
+  // Fills that reverted because the order was taken meanwhile, their input went through the pool
+  skippedOrders: bigint[];
+}
+
+// Output the contract pays for a fill of `amountIn` desired tokens, zero when it would revert
+function fillOutput(order: OrderBookEntry, amountIn: bigint): bigint {
+  if (amountIn === 0n || amountIn > order.desiredAmount) return 0n;
+  return (amountIn * order.offerAmount) / order.desiredAmount;
+}
+
+/**
+ * AMM input at which the pool's marginal rate d(out)/d(in) drops to
+ * rateOut / rateIn, solved from the fee-adjusted constant product formula.
+ */
+export function ammInputAtRate(reserveIn: bigint, reserveOut: bigint, rateOut: bigint, rateIn: bigint): bigint {
+  const target = sqrt((reserveOut * reserveIn * FEE_NUMERATOR * rateIn) / (FEE_DENOMINATOR * rateOut));
+  if (target <= reserveIn) return 0n;
+  return ((target - reserveIn) * FEE_DENOMINATOR) / FEE_NUMERATOR;
+}
+
+function buildLegs(
+  orders: OrderBookEntry[],
+  fullFills: number,
+  partial: { order: OrderBookEntry; amountIn: bigint } | undefined,
+  ammIn: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint
+): RouteLeg[] {
+  const legs: RouteLeg[] = orders.slice(0, fullFills).map((order) => ({
+    kind: "limitOrder",
+    orderId: order.orderId,
+    amountIn: order.desiredAmount,
+    expectedOut: fillOutput(order, order.desiredAmount),
+  }));
+  if (partial && partial.amountIn > 0n) {
+    legs.push({
+      kind: "limitOrder",
+      orderId: partial.order.orderId,
+      amountIn: partial.amountIn,
+      expectedOut: fillOutput(partial.order, partial.amountIn),
+    });
+  }
+  if (ammIn > 0n) {
+    legs.push({ kind: "amm", amountIn: ammIn, expectedOut: computeAmountOut(ammIn, reserveIn, reserveOut) });
+  }
+  // Legs that would revert for producing nothing are dropped, their input stays unspent
+  return legs.filter((leg) => leg.expectedOut > 0n);
+}
+
+function sumOut(legs: RouteLeg[]): bigint {
+  return legs.reduce((total, leg) => total + leg.expectedOut, 0n);
+}
+
+/**
+ * Splits an exact input trade between the best resting limit orders and the pool.
+ * For every k it fills the k best orders completely and divides the remainder
+ * between order k+1 and the pool where their marginal rates meet, then keeps the
+ * candidate with the highest exact integer output.
+ */
+export function planRoute(
+  pair: Pair,
+  book: OrderBook,
+  tokenIn: string,
+  amountIn: bigint,
+  slippageBps: bigint = 50n
+): ExecutionPlan {
+  const { tokenOut, reserveIn, reserveOut } = orientReserves(pair, tokenIn);
+  const orders = book.ordersFor(tokenIn).filter((order) => fillOutput(order, order.desiredAmount) > 0n);
+  const ammOnly = buildLegs([], 0, undefined, amountIn, reserveIn, reserveOut);
+
+  let best = ammOnly;
+  let consumed = 0n;
+  for (let k = 0; k <= orders.length; k++) {
+    if (k > 0) consumed += orders[k - 1].desiredAmount;
+    if (consumed > amountIn) break;
+    const remainder = amountIn - consumed;
+
+    const candidates: RouteLeg[][] = [buildLegs(orders, k, undefined, remainder, reserveIn, reserveOut)];
+    const next = orders[k];
+    if (next && remainder > 0n) {
+      // Where the pool stops beating the order's rate offerAmount / desiredAmount
+      let ammIn = ammInputAtRate(reserveIn, reserveOut, next.offerAmount, next.desiredAmount);
+      if (ammIn > remainder) ammIn = remainder;
+      const orderIn = remainder - ammIn;
+      // When the whole next order fits, the k+1 iteration covers it
+      if (orderIn < next.desiredAmount) {
+        candidates.push(buildLegs(orders, k, { order: next, amountIn: orderIn }, ammIn, reserveIn, reserveOut));
+      }
+    }
+    for (const legs of candidates) {
+      if (sumOut(legs) > sumOut(best)) best = legs;
+    }
+  }
+
+  const expectedOut = sumOut(best);
+  return {
+    pairId: pair.pairId,
+    tokenIn,
+    tokenOut,
+    amountIn: best.reduce((total, leg) => total + leg.amountIn, 0n),
+    expectedOut,
+    minAmountOut: minAmountOutForSlippage(expectedOut, slippageBps),
+    ammOnlyOut: sumOut(ammOnly),
+    legs: best,
+  };
+}
+
+/**
+ * Plans and executes routed trades for one signer.
+ */
+export class SmartOrderRouter {
+  readonly client: LiteswapClient;
+
+  constructor(client: LiteswapClient) {
+    this.client = client;
+  }
+
+  async plan(pairId: bigint, tokenIn: string, amountIn: bigint, slippageBps: bigint = 50n): Promise<ExecutionPlan> {
+    const [pair, book] = await Promise.all([this.client.getPair(pairId), OrderBook.load(this.client, pairId)]);
+    return planRoute(pair, book, tokenIn, amountIn, slippageBps);
+  }
+
+  /**
+   * Sends the limit order fills first and the pool swap last. The swap carries
+   * whatever is still missing to reach plan.minAmountOut, so the aggregate floor
+   * is enforced on chain. Fills lost to another taker are rerouted through the pool.
+   */
+  async execute(plan: ExecutionPlan): Promise<RouteExecution> {
+    const txHashes: string[] = [];
+    const skippedOrders: bigint[] = [];
+    let amountOut = 0n;
+    let ammIn = 0n;
+
+    for (const leg of plan.legs) {
+      if (leg.kind === "amm") {
+        ammIn += leg.amountIn;
+        continue;
+      }
+      try {
+        const result = await this.client.fillLimitOrder(plan.pairId, leg.orderId, leg.amountIn);
+        amountOut += result.filled;
+        txHashes.push(result.txHash);
+      } catch (err) {
+        const stale = err instanceof LiteswapError && ["OrderNotActive", "InvalidFillAmount"].includes(err.errorName);
+        if (!stale) throw err;
+        skippedOrders.push(leg.orderId);
+        ammIn += leg.amountIn;
+      }
+    }
+
+    if (ammIn > 0n) {
+      const missing = plan.minAmountOut > amountOut ? plan.minAmountOut - amountOut : 0n;
+      const result = await this.client.swap(plan.pairId, plan.tokenIn, ammIn, missing);
+      amountOut += result.amountOut;
+      txHashes.push(result.txHash);
+    }
+
+    if (amountOut < plan.minAmountOut) {
+      throw new Error(`Route returned ${amountOut}, below the minimum of ${plan.minAmountOut}`);
+    }
+    return { plan, amountOut, txHashes, skippedOrders };
+  }
+}
@@ -0,0 +1,333 @@
+import { LiteswapError } from "../errors";
+import { LiteswapEvent } from "../events";
+import { LiteswapSimulator } from "./liteswap";
+
+/**
+ * Seeded mulberry32 generator, the whole fuzz run is reproducible from one number.
+ */
+export class Random {
+  private state: number;
+
+  constructor(readonly seed: number) {
+    this.state = seed | 0;
+  }
+
+  // Uniform in [0, 1)
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) | 0;
+    let t = Math.imul(this.state ^ (this.state >>> 15), 1 | this.state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Uniform in [0, max)
+  int(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  // Uniform in [0, max], to a millionth of max
+  bigint(max: bigint): bigint {
+    return (max * BigInt(this.int(1_000_001))) / 1_000_000n;
+  }
+
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)];
+  }
+}
+
+/**
+ * One external call to the contract. `sender` is the msg.sender address.
+ */
+export type LiteswapOp =
+  | { sender: string; method: "initializePair"; args: [string, string, bigint, bigint] }
+  | { sender: string; method: "addLiquidity"; args: [bigint, bigint] }
+  | { sender: string; method: "removeLiquidity"; args: [bigint, bigint] }
+  | { sender: string; method: "swap"; args: [bigint, string, bigint, bigint] }
+  | { sender: string; method: "placeLimitOrder"; args: [bigint, string, bigint, bigint] }
+  | { sender: string; method: "fillLimitOrder"; args: [bigint, bigint, bigint] }
+  | { sender: string; method: "cancelLimitOrder"; args: [bigint, bigint] };
+
+/**
+ * What a call did: the events it emitted, or the raw revert data. Identical
+ * outcomes from the contract and the simulator mean identical return values and
+ * revert errors, arguments included.
+ */
+export interface OpOutcome {
+  events?: Omit<LiteswapEvent, "logIndex">[];
+  revert?: string;
+}
+
+export function withoutLogIndex(events: LiteswapEvent[]): Omit<LiteswapEvent, "logIndex">[] {
+  return events.map(({ logIndex, ...event }) => event);
+}
+
+export function applyOp(sim: LiteswapSimulator, op: LiteswapOp): OpOutcome {
+  try {
+    switch (op.method) {
+      case "initializePair":
+        sim.initializePair(op.sender, ...op.args);
+        break;
+      case "addLiquidity":
+        sim.addLiquidity(op.sender, ...op.args);
+        break;
+      case "removeLiquidity":
+        sim.removeLiquidity(op.sender, ...op.args);
+        break;
+      case "swap":
+        sim.swap(op.sender, ...op.args);
+        break;
+      case "placeLimitOrder":
+        sim.placeLimitOrder(op.sender, ...op.args);
+        break;
+      case "fillLimitOrder":
+        sim.fillLimitOrder(op.sender, ...op.args);
+        break;
+      case "cancelLimitOrder":
+        sim.cancelLimitOrder(op.sender, ...op.args);
+        break;
+    }
+    return { events: withoutLogIndex(sim.lastEvents) };
+  } catch (err) {
+    if (!(err instanceof LiteswapError)) throw err;
+    return { revert: err.data };
+  }
+}
+
+export interface RandomOpOptions {
+  // Upper bound of ordinary amounts, edge amounts 0, 1 and 997 are mixed in regardless
+  maxAmount?: bigint;
+}
+
+/**
+ * Draws a call that is meaningful in the simulator's current state: mostly
+ * existing pairs, orders near the spot price and makers cancelling their own
+ * orders, with invalid ids, zero amounts and foreign senders mixed in so the
+ * revert paths get exercised too.
+ */
+export function randomOp(
+  random: Random,
+  sim: LiteswapSimulator,
+  accounts: readonly string[],
+  tokens: readonly string[],
+  options: RandomOpOptions = {}
+): LiteswapOp {
+  const maxAmount = options.maxAmount ?? 200n * 10n ** 18n;
+  const amount = () => (random.chance(0.15) ? random.pick([0n, 1n, 997n]) : random.bigint(maxAmount));
+  const below = (max: bigint) => random.bigint(max);
+
+  const sender = random.pick(accounts);
+  const pairCount = Number(sim.pairCount) - 1;
+  const pairId = BigInt(pairCount > 0 && random.chance(0.9) ? 1 + random.int(pairCount) : pairCount + 1);
+  const pair = sim.getPair(pairId);
+  const side = pair.initialized ? random.pick([pair.tokenA, pair.tokenB]) : random.pick(tokens);
+  const [reserveIn, reserveOut] = side === pair.tokenA ? [pair.reserveA, pair.reserveB] : [pair.reserveB, pair.reserveA];
+
+  const active = sim.getLimitOrders(pairId).filter((order) => order.active);
+  const order = active.length > 0 && random.chance(0.8) ? random.pick(active) : sim.getLimitOrder(pairId, sim.orderCount(pairId));
+  const maker = accounts.find((account) => account.toLowerCase() === order.maker.toLowerCase());
+  const shares = sim.getPosition(pairId, sender).shares;
+
+  switch (random.int(8)) {
+    case 0:
+      return { sender, method: "initializePair", args: [random.pick(tokens), random.pick(tokens), amount(), amount()] };
+    case 1:
+      return { sender, method: "addLiquidity", args: [pairId, amount()] };
+    case 2:
+      return { sender, method: "removeLiquidity", args: [pairId, random.pick([shares, below(shares), shares + 1n, 0n])] };
+    case 3:
+      return { sender, method: "swap", args: [pairId, side, amount(), random.chance(0.3) ? amount() : 0n] };
+    case 4:
+      // Sized against the pool, up to draining it
+      return { sender, method: "swap", args: [pairId, side, below(reserveIn), 0n] };
+    case 5: {
+      const offer = amount();
+      // Up to 20% above the spot price, where most orders pass the BadRatio check
+      const premium = BigInt(1000 + random.int(200));
+      const desired = reserveIn === 0n ? amount() : (offer * reserveOut * premium) / reserveIn / 1000n;
+      return { sender, method: "placeLimitOrder", args: [pairId, side, offer, desired] };
+    }
+    case 6:
+      return {
+        sender,
+        method: "fillLimitOrder",
+        args: [pairId, order.orderId, random.pick([order.desiredAmount, below(order.desiredAmount), amount()])],
+      };
+    default:
+      return {
+        sender: maker && random.chance(0.8) ? maker : sender,
+        method: "cancelLimitOrder",
+        args: [pairId, order.orderId],
+      };
+  }
+}
+
+/**
+ * Draws `length` calls, applying each to `sim` so later calls see the state the
+ * earlier ones produced.
+ */
+export function randomOps(
+  random: Random,
+  sim: LiteswapSimulator,
+  accounts: readonly string[],
+  tokens: readonly string[],
+  length: number,
+  options: RandomOpOptions = {}
+): LiteswapOp[] {
+  const ops: LiteswapOp[] = [];
+  for (let i = 0; i < length; i++) {
+    const op = randomOp(random, sim, accounts, tokens, options);
+    applyOp(sim, op);
+    ops.push(op);
+  }
+  return ops;
+}
+
+/**
+ * `user1.swap(1, 0xe7f1…, 25000000000000000000, 0)`, with `labels` naming known addresses.
+ */
+export function formatOp(op: LiteswapOp, labels: Record<string, string> = {}): string {
+  const names = new Map(Object.entries(labels).map(([address, label]) => [address.toLowerCase(), label]));
+  const name = (value: unknown) =>
+    typeof value === "string" ? (names.get(value.toLowerCase()) ?? value) : String(value);
+  return `${name(op.sender)}.${op.method}(${op.args.map(name).join(", ")})`;
+}
+
+// Positions of the amount arguments. Ids are never shrunk so calls keep pointing at the same pair and order.
+const AMOUNT_ARGS: Record<LiteswapOp["method"], number[]> = {
+  initializePair: [2, 3],
+  addLiquidity: [1],
+  removeLiquidity: [1],
+  swap: [2, 3],
+  placeLimitOrder: [2, 3],
+  fillLimitOrder: [2],
+  cancelLimitOrder: [],
+};
+
+// Smaller values to try for an amount while shrinking, most aggressive first
+function smallerAmounts(value: bigint): bigint[] {
+  if (value === 0n) return [];
+  const candidates = [0n, 1n, value / 2n, value - value / 4n, value - 1n];
+  return [...new Set(candidates)].filter((candidate) => candidate < value);
+}
+
+/**
+ * Shrinks a failing sequence: first drops runs of calls, halving the run length
+ * down to single calls, then lowers amount arguments (pair and order ids stay
+ * as drawn). Returns the smallest sequence found that still fails, within
+ * `maxAttempts` evaluations of `fails`.
+ */
+export async function shrinkOps(
+  ops: LiteswapOp[],
+  fails: (ops: LiteswapOp[]) => Promise<boolean>,
+  maxAttempts: number = 200
+): Promise<LiteswapOp[]> {
+  let current = ops;
+  let attempts = 0;
+  const tryCandidate = async (candidate: LiteswapOp[]) => {
+    if (attempts >= maxAttempts) return false;
+    attempts++;
+    if (!(await fails(candidate))) return false;
+    current = candidate;
+    return true;
+  };
+
+  for (let size = Math.max(1, Math.floor(current.length / 2)); size >= 1; size = Math.floor(size / 2)) {
+    for (let start = 0; start + size <= current.length && attempts < maxAttempts; ) {
+      const candidate = [...current.slice(0, start), ...current.slice(start + size)];
+      // On success the next run slid into `start`, so stay there
+      if (!(await tryCandidate(candidate))) start += size;
+    }
+  }
+
+  let improved = true;
+  while (improved && attempts < maxAttempts) {
+    improved = false;
+    for (let i = 0; i < current.length; i++) {
+      for (const index of AMOUNT_ARGS[current[i].method]) {
+        // Start from the latest accepted op, an earlier index may have shrunk it
+        const op = current[i];
+        for (const smaller of smallerAmounts(op.args[index] as bigint)) {
+          const args = [...op.args];
+          args[index] = smaller;
+          const candidate = [...current];
+          candidate[i] = { ...op, args } as LiteswapOp;
+          if (await tryCandidate(candidate)) {
+            improved = true;
+            break;
+          }
+        }
+      }
+    }
+  }
+  return current;
+}
+
+export interface FuzzOptions {
+  // Seed of the first run, run i uses seed + i
+  seed?: number;
+  runs?: number;
+  maxShrinkAttempts?: number;
+  labels?: Record<string, string>;
+}
+
+/**
+ * A property failed. `ops` is the shrunk reproduction, `original` the sequence
+ * as first drawn, `cause` the error the property threw on `ops`.
+ */
+export class FuzzFailure extends Error {
+  constructor(
+    readonly seed: number,
+    readonly ops: LiteswapOp[],
+    readonly original: LiteswapOp[],
+    readonly cause: unknown,
+    labels: Record<string, string> = {}
+  ) {
+    const steps = ops.map((op, i) => `  ${i}: ${formatOp(op, labels)}`).join("\n");
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(
+      `Property failed for seed ${seed}, shrunk from ${original.length} to ${ops.length} calls:\n${steps}\n${reason}`
+    );
+    this.name = "FuzzFailure";
+  }
+}
+
+/**
+ * Runs `property` against `runs` generated sequences. The first failing sequence
+ * is shrunk and rethrown as a FuzzFailure whose seed regenerates it.
+ */
+export async function fuzz(
+  generate: (random: Random) => LiteswapOp[],
+  property: (ops: LiteswapOp[]) => Promise<void>,
+  options: FuzzOptions = {}
+): Promise<void> {
+  const seed = options.seed ?? 1;
+  // What the property threw, or undefined when it held
+  const check = (ops: LiteswapOp[]): Promise<{ error: unknown } | undefined> =>
+    property(ops).then(
+      () => undefined,
+      (error: unknown) => ({ error })
+    );
+
+  for (let run = 0; run < (options.runs ?? 10); run++) {
+    const ops = generate(new Random(seed + run));
+    const failure = await check(ops);
+    if (!failure) continue;
+
+    // Every failing attempt becomes the current sequence, so the last error belongs to the result
+    let cause = failure.error;
+    const shrunk = await shrinkOps(
+      ops,
+      async (candidate) => {
+        const result = await check(candidate);
+        if (result) cause = result.error;
+        return result !== undefined;
+      },
+      options.maxShrinkAttempts
+    );
+    throw new FuzzFailure(seed + run, shrunk, ops, cause, options.labels);
+  }
+}
@@ -0,0 +1,4 @@
+export * from "./fuzz";
+export * from "./journal";
+export * from "./liteswap";
+export * from "./token";
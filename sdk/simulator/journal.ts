@@ -0,0 +1,44 @@
+/**
+ * Undo log that gives simulated calls the all-or-nothing semantics of an EVM
+ * transaction: every write records how to revert itself, and a call that throws
+ * replays those records backwards.
+ */
+export class Journal {
+  private entries: (() => void)[] | undefined;
+
+  /**
+   * Runs `fn` as one transaction. Nested calls join the outer transaction.
+   */
+  atomic<T>(fn: () => T): T {
+    if (this.entries) return fn();
+    const entries: (() => void)[] = [];
+    this.entries = entries;
+    try {
+      return fn();
+    } catch (err) {
+      for (let i = entries.length - 1; i >= 0; i--) entries[i]();
+      throw err;
+    } finally {
+      this.entries = undefined;
+    }
+  }
+
+  /**
+   * Map write that is undone if the surrounding transaction reverts.
+   */
+  set<K, V>(map: Map<K, V>, key: K, value: V): void {
+    if (this.entries) {
+      const had = map.has(key);
+      const previous = map.get(key);
+      this.entries.push(() => {
+        if (had) map.set(key, previous as V);
+        else map.delete(key);
+      });
+    }
+    map.set(key, value);
+  }
+
+  record(undo: () => void): void {
+    this.entries?.push(undo);
+  }
+}
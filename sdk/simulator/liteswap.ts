@@ -0,0 +1,627 @@
+import { MaxUint256, ZeroAddress, getAddress, toBeHex, zeroPadValue } from "ethers";
+import { LiteswapError, liteswapError } from "../errors";
+import { LimitOrderFilledEvent, LiteswapEvent } from "../events";
+import { MINIMUM_SHARES } from "../liquidity";
+import { sqrt } from "../math";
+import { FEE_DENOMINATOR, FEE_NUMERATOR, PRICE_SCALE } from "../quote";
+import { LimitOrder, LiquidityPosition, Pair } from "../types";
+import { Journal } from "./journal";
+import { SimToken, SimTokenOptions } from "./token";
+
+export const DEFAULT_SIMULATOR_ADDRESS = "0x1111111111111111111111111111111111111111";
+
+type EventBody = LiteswapEvent extends infer E ? (E extends LiteswapEvent ? Omit<E, "address" | "logIndex"> : never) : never;
+
+/**
+ * A historical event to replay. LimitOrderFilled only carries the offer side, pass
+ * the desired amount the order was reduced by as amountReceived when it is known
+ * (the indexer records it).
+ */
+export type ReplayEvent = LiteswapEvent | (LimitOrderFilledEvent & { amountReceived?: bigint });
+
+export interface PricePathStep {
+  targetPrice: bigint;
+  // Pool price after the step, tokenB per tokenA scaled by PRICE_SCALE
+  price: bigint;
+  tokenIn?: string;
+  amountIn: bigint;
+  amountOut: bigint;
+}
+
+function key(address: string): string {
+  return address.toLowerCase();
+}
+
+// uint256 arithmetic: Solidity 0.8 reverts with Panic(0x11) on overflow
+function checked(value: bigint): bigint {
+  if (value > MaxUint256 || value < 0n) throw liteswapError("Panic", [0x11n]);
+  return value;
+}
+
+function div(numerator: bigint, denominator: bigint): bigint {
+  if (denominator === 0n) throw liteswapError("Panic", [0x12n]);
+  return numerator / denominator;
+}
+
+function emptyPair(pairId: bigint): Pair {
+  return {
+    pairId,
+    tokenA: ZeroAddress,
+    tokenB: ZeroAddress,
+    reserveA: 0n,
+    reserveB: 0n,
+    totalShares: 0n,
+    initialized: false,
+  };
+}
+
+/**
+ * Deterministic in-memory model of src/Liteswap.sol and its ERC20 tokens. Every
+ * write takes the msg.sender as first argument, applies the contract's checks in
+ * the contract's order and throws the same LiteswapError a revert would, leaving
+ * no partial state behind.
+ */
+export class LiteswapSimulator {
+  readonly address: string;
+  readonly journal = new Journal();
+  // Every event emitted or replayed so far, in order
+  readonly events: LiteswapEvent[] = [];
+  // Events of the last successful call
+  lastEvents: LiteswapEvent[] = [];
+
+  private readonly tokens = new Map<string, SimToken>();
+  private readonly pairs = new Map<bigint, Pair>();
+  private readonly pairIds = new Map<string, bigint>();
+  private readonly positions = new Map<string, LiquidityPosition>();
+  private readonly orders = new Map<string, LimitOrder>();
+  private readonly orderCounters = new Map<bigint, bigint>();
+  private pairIdCount = 1n;
+  private pending: LiteswapEvent[] | undefined;
+
+  constructor(address: string = DEFAULT_SIMULATOR_ADDRESS) {
+    this.address = getAddress(address);
+  }
+
+  // Tokens
+
+  /**
+   * Registers a token. Without an address one is derived from a counter, pass the
+   * deployed address to mirror a Hardhat deployment.
+   */
+  addToken(options: SimTokenOptions & { address?: string } = {}): SimToken {
+    const address = options.address ?? zeroPadValue(toBeHex(0x1000 + this.tokens.size), 20);
+    if (this.tokens.has(key(address))) throw new Error(`Token ${address} is already registered`);
+    const token = new SimToken(address, this.journal, options);
+    this.tokens.set(key(address), token);
+    return token;
+  }
+
+  token(address: string): SimToken {
+    const token = this.tokens.get(key(address));
+    // On chain the call into a non contract address reverts without data
+    if (!token) throw new Error(`Unknown token ${address}`);
+    return token;
+  }
+
+  get tokenList(): SimToken[] {
+    return [...this.tokens.values()];
+  }
+
+  // Views, same semantics as the contract getters
+
+  get pairCount(): bigint {
+    return this.pairIdCount;
+  }
+
+  getPairId(tokenA: string, tokenB: string): bigint {
+    const [token0, token1] = key(tokenA) < key(tokenB) ? [tokenA, tokenB] : [tokenB, tokenA];
+    return this.pairIds.get(`${key(token0)}:${key(token1)}`) ?? 0n;
+  }
+
+  getPair(pairId: bigint): Pair {
+    return this.pairs.get(pairId) ?? emptyPair(pairId);
+  }
+
+  getPairs(): Pair[] {
+    return [...this.pairs.values()];
+  }
+
+  getPosition(pairId: bigint, user: string): LiquidityPosition {
+    return this.positions.get(`${pairId}:${key(user)}`) ?? { shares: 0n, hasPosition: false };
+  }
+
+  /**
+   * Every account that ever held shares of the pair, including emptied positions.
+   */
+  getPositions(pairId: bigint): (LiquidityPosition & { user: string })[] {
+    const prefix = `${pairId}:`;
+    return [...this.positions]
+      .filter(([positionKey]) => positionKey.startsWith(prefix))
+      .map(([positionKey, position]) => ({ user: getAddress(positionKey.slice(prefix.length)), ...position }));
+  }
+
+  getUserShareBps(pairId: bigint, user: string): bigint {
+    const pair = this.getPair(pairId);
+    if (pair.totalShares === 0n) return 0n;
+    return (this.getPosition(pairId, user).shares * 10000n) / pair.totalShares;
+  }
+
+  getLimitOrder(pairId: bigint, orderId: bigint): LimitOrder {
+    return (
+      this.orders.get(`${pairId}:${orderId}`) ?? {
+        pairId,
+        orderId,
+        maker: ZeroAddress,
+        offerToken: ZeroAddress,
+        desiredToken: ZeroAddress,
+        offerAmount: 0n,
+        desiredAmount: 0n,
+        active: false,
+      }
+    );
+  }
+
+  orderCount(pairId: bigint): bigint {
+    return this.orderCounters.get(pairId) ?? 0n;
+  }
+
+  getLimitOrders(pairId: bigint): LimitOrder[] {
+    const orders: LimitOrder[] = [];
+    for (let orderId = 0n; orderId < this.orderCount(pairId); orderId++) {
+      orders.push(this.getLimitOrder(pairId, orderId));
+    }
+    return orders;
+  }
+
+  // State changing functions
+
+  initializePair(sender: string, tokenA: string, tokenB: string, amountA: bigint, amountB: bigint): bigint {
+    return this.transact(() => {
+      if (key(tokenA) === ZeroAddress || key(tokenB) === ZeroAddress) throw liteswapError("InvalidTokenAddress");
+      if (key(tokenA) === key(tokenB)) throw liteswapError("InvalidTokenAddress");
+      if (amountA === 0n || amountB === 0n) throw liteswapError("InvalidAmount");
+
+      const sorted = key(tokenA) < key(tokenB);
+      const token0 = this.token(sorted ? tokenA : tokenB);
+      const token1 = this.token(sorted ? tokenB : tokenA);
+      const [amount0, amount1] = sorted ? [amountA, amountB] : [amountB, amountA];
+      if (this.getPairId(token0.address, token1.address) !== 0n) throw liteswapError("PairAlreadyExists");
+
+      const pairId = this.pairIdCount;
+      this.setPairIdCount(pairId + 1n);
+      this.journal.set(this.pairIds, `${key(token0.address)}:${key(token1.address)}`, pairId);
+
+      const received0 = this.pull(token0, sender, amount0);
+      const received1 = this.pull(token1, sender, amount1);
+      if (received0 === 0n || received1 === 0n) throw liteswapError("InvalidAmount");
+
+      const initialShares = sqrt(checked(received0 * received1));
+      if (initialShares < MINIMUM_SHARES) throw liteswapError("InsufficientLiquidity");
+      this.mintShares(pairId, sender, initialShares);
+      this.journal.set(this.pairs, pairId, {
+        pairId,
+        tokenA: token0.address,
+        tokenB: token1.address,
+        reserveA: received0,
+        reserveB: received1,
+        totalShares: initialShares,
+        initialized: true,
+      });
+
+      this.emit({ name: "PairInitialized", pairId, tokenA: token0.address, tokenB: token1.address });
+      this.emit({
+        name: "LiquidityAdded",
+        pairId,
+        liquidityProvider: getAddress(sender),
+        amountA: received0,
+        amountB: received1,
+        shares: initialShares,
+      });
+      this.emit({ name: "ReservesUpdated", pairId, reserveA: received0, reserveB: received1 });
+      return pairId;
+    });
+  }
+
+  addLiquidity(sender: string, pairId: bigint, amountA: bigint): { amountB: bigint; shares: bigint } {
+    return this.transact(() => {
+      const pair = this.getPair(pairId);
+      if (!pair.initialized) throw liteswapError("PairDoesNotExist");
+      if (amountA === 0n) throw liteswapError("InvalidAmount");
+
+      const amountB = div(checked(amountA * pair.reserveB), pair.reserveA);
+      if (amountB === 0n) throw liteswapError("InvalidAmount");
+
+      const receivedA = this.pull(this.token(pair.tokenA), sender, amountA);
+      const receivedB = this.pull(this.token(pair.tokenB), sender, amountB);
+      if (receivedA === 0n || receivedB === 0n) throw liteswapError("InvalidAmount");
+
+      const shares = div(checked(receivedA * pair.totalShares), pair.reserveA);
+      if (shares === 0n) throw liteswapError("InsufficientLiquidity");
+
+      this.mintShares(pairId, sender, shares);
+      this.updateReserves(pairId, checked(pair.reserveA + receivedA), checked(pair.reserveB + receivedB));
+      this.emit({
+        name: "LiquidityAdded",
+        pairId,
+        liquidityProvider: getAddress(sender),
+        amountA: receivedA,
+        amountB: receivedB,
+        shares,
+      });
+      return { amountB: receivedB, shares };
+    });
+  }
+
+  removeLiquidity(sender: string, pairId: bigint, sharesToBurn: bigint): { amountA: bigint; amountB: bigint } {
+    return this.transact(() => {
+      if (sharesToBurn === 0n) throw liteswapError("InvalidAmount");
+      const position = this.getPosition(pairId, sender);
+      if (!position.hasPosition) throw liteswapError("NoPosition");
+      if (position.shares < sharesToBurn) throw liteswapError("InsufficientShares");
+
+      const pair = this.getPair(pairId);
+      const amountA = div(checked(pair.reserveA * sharesToBurn), pair.totalShares);
+      const amountB = div(checked(pair.reserveB * sharesToBurn), pair.totalShares);
+      if (amountA === 0n || amountB === 0n) throw liteswapError("InvalidAmount");
+
+      this.burnShares(pairId, sender, sharesToBurn);
+      this.updateReserves(pairId, pair.reserveA - amountA, pair.reserveB - amountB);
+      this.token(pair.tokenA).transfer(this.address, sender, amountA);
+      this.token(pair.tokenB).transfer(this.address, sender, amountB);
+
+      this.emit({
+        name: "LiquidityRemoved",
+        pairId,
+        liquidityProvider: getAddress(sender),
+        amountA,
+        amountB,
+        shares: sharesToBurn,
+      });
+      return { amountA, amountB };
+    });
+  }
+
+  swap(sender: string, pairId: bigint, tokenIn: string, amountIn: bigint, minAmountOut: bigint = 0n): bigint {
+    return this.transact(() => {
+      if (amountIn === 0n) throw liteswapError("InvalidAmount");
+      const pair = this.getPair(pairId);
+      if (!pair.initialized) throw liteswapError("PairDoesNotExist");
+      if (key(tokenIn) !== key(pair.tokenA) && key(tokenIn) !== key(pair.tokenB)) {
+        throw liteswapError("InvalidTokenAddress");
+      }
+
+      const isTokenA = key(tokenIn) === key(pair.tokenA);
+      const reserveIn = isTokenA ? pair.reserveA : pair.reserveB;
+      const reserveOut = isTokenA ? pair.reserveB : pair.reserveA;
+
+      const actualAmountIn = this.pull(this.token(tokenIn), sender, amountIn);
+      if (actualAmountIn === 0n) throw liteswapError("InvalidAmount");
+
+      const amountInWithFee = checked(actualAmountIn * FEE_NUMERATOR) / FEE_DENOMINATOR;
+      const amountOut = div(checked(reserveOut * amountInWithFee), checked(reserveIn + amountInWithFee));
+      if (amountOut === 0n) throw liteswapError("InvalidAmount");
+      if (amountOut < minAmountOut) throw liteswapError("InvalidAmount");
+      if (amountOut >= reserveOut) throw liteswapError("InsufficientLiquidity");
+
+      const tokenOut = isTokenA ? pair.tokenB : pair.tokenA;
+      this.token(tokenOut).transfer(this.address, sender, amountOut);
+
+      this.updateReserves(
+        pairId,
+        isTokenA ? checked(pair.reserveA + actualAmountIn) : pair.reserveA - amountOut,
+        isTokenA ? pair.reserveB - amountOut : checked(pair.reserveB + actualAmountIn)
+      );
+      this.emit({
+        name: "Swap",
+        pairId,
+        user: getAddress(sender),
+        tokenIn: isTokenA ? pair.tokenA : pair.tokenB,
+        tokenOut,
+        amountIn: actualAmountIn,
+        amountOut,
+      });
+      return amountOut;
+    });
+  }
+
+  placeLimitOrder(sender: string, pairId: bigint, offerToken: string, offerAmount: bigint, desiredAmount: bigint): bigint {
+    return this.transact(() => {
+      const pair = this.getPair(pairId);
+      if (!pair.initialized) throw liteswapError("PairDoesNotExist");
+      if (key(offerToken) !== key(pair.tokenA) && key(offerToken) !== key(pair.tokenB)) {
+        throw liteswapError("InvalidTokenAddress");
+      }
+      if (offerAmount === 0n || desiredAmount === 0n) throw liteswapError("InvalidAmount");
+
+      const isOfferTokenA = key(offerToken) === key(pair.tokenA);
+      const offer = isOfferTokenA ? pair.tokenA : pair.tokenB;
+      const desiredToken = isOfferTokenA ? pair.tokenB : pair.tokenA;
+
+      const actualOfferAmount = this.pull(this.token(offer), sender, offerAmount);
+      if (actualOfferAmount === 0n) throw liteswapError("InvalidAmount");
+
+      const reserveIn = isOfferTokenA ? pair.reserveA : pair.reserveB;
+      const reserveOut = isOfferTokenA ? pair.reserveB : pair.reserveA;
+      const offerWithFee = checked(actualOfferAmount * FEE_NUMERATOR) / FEE_DENOMINATOR;
+      const swapOutput = div(checked(reserveOut * offerWithFee), checked(reserveIn + offerWithFee));
+      if (checked(desiredAmount * PRICE_SCALE) / actualOfferAmount < checked(swapOutput * PRICE_SCALE) / actualOfferAmount) {
+        throw liteswapError("BadRatio");
+      }
+
+      const orderId = this.orderCount(pairId);
+      this.journal.set(this.orderCounters, pairId, orderId + 1n);
+      const maker = getAddress(sender);
+      this.journal.set(this.orders, `${pairId}:${orderId}`, {
+        pairId,
+        orderId,
+        maker,
+        offerToken: offer,
+        desiredToken,
+        offerAmount: actualOfferAmount,
+        desiredAmount,
+        active: true,
+      });
+
+      this.emit({
+        name: "LimitOrderPlaced",
+        pairId,
+        orderId,
+        maker,
+        offerToken: offer,
+        desiredToken,
+        offerAmount: actualOfferAmount,
+        desiredAmount,
+      });
+      return orderId;
+    });
+  }
+
+  fillLimitOrder(sender: string, pairId: bigint, orderId: bigint, amountDesiredToFill: bigint): bigint {
+    return this.transact(() => {
+      const order = this.getLimitOrder(pairId, orderId);
+      if (!order.active) throw liteswapError("OrderNotActive");
+
+      const actualReceived = this.pull(this.token(order.desiredToken), sender, amountDesiredToFill);
+      if (actualReceived === 0n || actualReceived > order.desiredAmount) throw liteswapError("InvalidFillAmount");
+
+      const offerAmount = div(checked(actualReceived * order.offerAmount), order.desiredAmount);
+      if (offerAmount === 0n) throw liteswapError("InvalidFillAmount");
+
+      this.token(order.desiredToken).transfer(this.address, order.maker, actualReceived);
+      this.token(order.offerToken).transfer(this.address, sender, offerAmount);
+
+      const remainingDesired = order.desiredAmount - actualReceived;
+      this.journal.set(this.orders, `${pairId}:${orderId}`, {
+        ...order,
+        offerAmount: order.offerAmount - offerAmount,
+        desiredAmount: remainingDesired,
+        active: remainingDesired !== 0n,
+      });
+
+      this.emit({ name: "LimitOrderFilled", pairId, orderId, filler: getAddress(sender), amountFilled: offerAmount });
+      return offerAmount;
+    });
+  }
+
+  cancelLimitOrder(sender: string, pairId: bigint, orderId: bigint): void {
+    this.transact(() => {
+      const order = this.getLimitOrder(pairId, orderId);
+      if (!order.active) throw liteswapError("OrderNotActive");
+      if (key(order.maker) !== key(sender)) throw liteswapError("NotOrderMaker");
+
+      this.token(order.offerToken).transfer(this.address, sender, order.offerAmount);
+      this.journal.set(this.orders, `${pairId}:${orderId}`, { ...order, active: false, offerAmount: 0n, desiredAmount: 0n });
+      this.emit({ name: "LimitOrderCancelled", pairId, orderId });
+    });
+  }
+
+  // Replay and synthetic paths
+
+  /**
+   * Rebuilds contract state from historical events without executing any checks,
+   * then funds the simulator's token balances with what the reserves and open
+   * orders hold so later simulated calls can pay out.
+   */
+  replay(events: ReplayEvent[]): void {
+    this.journal.atomic(() => {
+      for (const event of events) this.applyEvent(event);
+      this.syncBalances();
+    });
+  }
+
+  /**
+   * Moves the pool price (tokenB per tokenA, scaled by PRICE_SCALE) to each target
+   * in turn with the single swap an arbitrageur would make, minting the input to
+   * `trader` first. Targets the pool is already at, or that round to a zero
+   * trade, are recorded as steps with zero amounts.
+   */
+  followPricePath(trader: string, pairId: bigint, targetPrices: bigint[]): PricePathStep[] {
+    return targetPrices.map((targetPrice) => this.movePriceTo(trader, pairId, targetPrice));
+  }
+
+  movePriceTo(trader: string, pairId: bigint, targetPrice: bigint): PricePathStep {
+    const pair = this.getPair(pairId);
+    if (!pair.initialized) throw liteswapError("PairDoesNotExist");
+    if (targetPrice <= 0n) throw new RangeError("target price must be positive");
+    const price = (pair.reserveB * PRICE_SCALE) / pair.reserveA;
+    const k = pair.reserveA * pair.reserveB;
+
+    // Selling tokenA lowers the price, selling tokenB raises it
+    const sellA = targetPrice < price;
+    const reserveIn = sellA ? pair.reserveA : pair.reserveB;
+    const targetReserveIn = sellA ? sqrt((k * PRICE_SCALE) / targetPrice) : sqrt((k * targetPrice) / PRICE_SCALE);
+    const step: PricePathStep = { targetPrice, price, amountIn: 0n, amountOut: 0n };
+    if (targetReserveIn <= reserveIn) return step;
+
+    const token = this.token(sellA ? pair.tokenA : pair.tokenB);
+    const netIn = ((targetReserveIn - reserveIn) * FEE_DENOMINATOR + FEE_NUMERATOR - 1n) / FEE_NUMERATOR;
+    // Gross up so the amount left after a transfer fee still moves the price all the way
+    const amountIn = (netIn * 10000n + (10000n - token.transferFeeBps) - 1n) / (10000n - token.transferFeeBps);
+    token.mint(trader, amountIn);
+    token.approve(trader, this.address, amountIn);
+
+    let amountOut: bigint;
+    try {
+      amountOut = this.swap(trader, pairId, token.address, amountIn);
+    } catch (err) {
+      // A move too small to produce any output leaves the pool where it is
+      if (err instanceof LiteswapError && err.errorName === "InvalidAmount") return step;
+      throw err;
+    }
+    const after = this.getPair(pairId);
+    return {
+      targetPrice,
+      price: (after.reserveB * PRICE_SCALE) / after.reserveA,
+      tokenIn: token.address,
+      amountIn,
+      amountOut,
+    };
+  }
+
+  private applyEvent(event: ReplayEvent): void {
+    switch (event.name) {
+      case "PairInitialized": {
+        for (const address of [event.tokenA, event.tokenB]) {
+          if (!this.tokens.has(key(address))) this.addToken({ address });
+        }
+        this.journal.set(this.pairIds, `${key(event.tokenA)}:${key(event.tokenB)}`, event.pairId);
+        this.journal.set(this.pairs, event.pairId, {
+          ...emptyPair(event.pairId),
+          tokenA: getAddress(event.tokenA),
+          tokenB: getAddress(event.tokenB),
+          initialized: true,
+        });
+        if (event.pairId >= this.pairIdCount) this.setPairIdCount(event.pairId + 1n);
+        break;
+      }
+      case "LiquidityAdded":
+        this.mintShares(event.pairId, event.liquidityProvider, event.shares);
+        break;
+      case "LiquidityRemoved":
+        this.burnShares(event.pairId, event.liquidityProvider, event.shares);
+        break;
+      case "ReservesUpdated":
+        this.journal.set(this.pairs, event.pairId, {
+          ...this.getPair(event.pairId),
+          reserveA: event.reserveA,
+          reserveB: event.reserveB,
+        });
+        break;
+      case "Swap":
+        // Reserves follow from the ReservesUpdated event of the same call
+        break;
+      case "LimitOrderPlaced":
+        this.journal.set(this.orders, `${event.pairId}:${event.orderId}`, {
+          pairId: event.pairId,
+          orderId: event.orderId,
+          maker: getAddress(event.maker),
+          offerToken: getAddress(event.offerToken),
+          desiredToken: getAddress(event.desiredToken),
+          offerAmount: event.offerAmount,
+          desiredAmount: event.desiredAmount,
+          active: true,
+        });
+        if (event.orderId >= this.orderCount(event.pairId)) {
+          this.journal.set(this.orderCounters, event.pairId, event.orderId + 1n);
+        }
+        break;
+      case "LimitOrderFilled": {
+        const order = this.getLimitOrder(event.pairId, event.orderId);
+        // Without amountReceived assume the smallest payment that yields amountFilled
+        const received =
+          ("amountReceived" in event ? event.amountReceived : undefined) ??
+          (event.amountFilled * order.desiredAmount + order.offerAmount - 1n) / order.offerAmount;
+        const remainingDesired = received >= order.desiredAmount ? 0n : order.desiredAmount - received;
+        this.journal.set(this.orders, `${event.pairId}:${event.orderId}`, {
+          ...order,
+          offerAmount: order.offerAmount - event.amountFilled,
+          desiredAmount: remainingDesired,
+          active: remainingDesired !== 0n,
+        });
+        break;
+      }
+      case "LimitOrderCancelled": {
+        const order = this.getLimitOrder(event.pairId, event.orderId);
+        this.journal.set(this.orders, `${event.pairId}:${event.orderId}`, {
+          ...order,
+          active: false,
+          offerAmount: 0n,
+          desiredAmount: 0n,
+        });
+        break;
+      }
+    }
+    this.events.push(event);
+  }
+
+  /**
+   * Tops the simulator's balances up to reserves plus escrowed order amounts.
+   */
+  private syncBalances(): void {
+    const owed = new Map<string, bigint>();
+    const add = (token: string, amount: bigint) => owed.set(key(token), (owed.get(key(token)) ?? 0n) + amount);
+    for (const pair of this.pairs.values()) {
+      add(pair.tokenA, pair.reserveA);
+      add(pair.tokenB, pair.reserveB);
+    }
+    for (const order of this.orders.values()) {
+      if (order.active) add(order.offerToken, order.offerAmount);
+    }
+    for (const [address, amount] of owed) {
+      const token = this.token(address);
+      const balance = token.balanceOf(this.address);
+      if (amount > balance) token.mint(this.address, amount - balance);
+    }
+  }
+
+  private transact<T>(fn: () => T): T {
+    const pending: LiteswapEvent[] = [];
+    this.pending = pending;
+    try {
+      const result = this.journal.atomic(fn);
+      for (const event of pending) event.logIndex = this.events.push(event) - 1;
+      this.lastEvents = pending;
+      return result;
+    } finally {
+      this.pending = undefined;
+    }
+  }
+
+  private emit(body: EventBody): void {
+    this.pending?.push({ ...body, address: this.address, logIndex: -1 } as LiteswapEvent);
+  }
+
+  // transferFrom into the simulator, returning the balance delta like the contract
+  private pull(token: SimToken, from: string, amount: bigint): bigint {
+    const before = token.balanceOf(this.address);
+    token.transferFrom(this.address, from, this.address, amount);
+    return token.balanceOf(this.address) - before;
+  }
+
+  private setPairIdCount(value: bigint): void {
+    const previous = this.pairIdCount;
+    this.pairIdCount = value;
+    this.journal.record(() => {
+      this.pairIdCount = previous;
+    });
+  }
+
+  private updateReserves(pairId: bigint, reserveA: bigint, reserveB: bigint): void {
+    this.journal.set(this.pairs, pairId, { ...this.getPair(pairId), reserveA, reserveB });
+    this.emit({ name: "ReservesUpdated", pairId, reserveA, reserveB });
+  }
+
+  private mintShares(pairId: bigint, to: string, amount: bigint): void {
+    const position = this.getPosition(pairId, to);
+    this.journal.set(this.positions, `${pairId}:${key(to)}`, { shares: position.shares + amount, hasPosition: true });
+    const pair = this.getPair(pairId);
+    this.journal.set(this.pairs, pairId, { ...pair, totalShares: pair.totalShares + amount });
+  }
+
+  private burnShares(pairId: bigint, from: string, amount: bigint): void {
+    const shares = this.getPosition(pairId, from).shares - amount;
+    this.journal.set(this.positions, `${pairId}:${key(from)}`, { shares, hasPosition: shares !== 0n });
+    const pair = this.getPair(pairId);
+    this.journal.set(this.pairs, pairId, { ...pair, totalShares: pair.totalShares - amount });
+  }
+}
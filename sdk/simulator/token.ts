@@ -0,0 +1,127 @@
+import { MaxUint256, ZeroAddress, getAddress } from "ethers";
+import { liteswapError } from "../errors";
+import { Journal } from "./journal";
+
+// Lowercase keys, checksumming every lookup would dominate the simulator's run time
+function key(address: string): string {
+  return address.toLowerCase();
+}
+
+// Same fee as TestFeeOnTransferERC20 in test/TestERC20.sol
+export const TEST_TRANSFER_FEE_BPS = 1000n;
+
+export interface SimTokenOptions {
+  name?: string;
+  symbol?: string;
+  decimals?: number;
+  // Share of every transfer burned from the sender, in bps. 0 for a plain ERC20.
+  transferFeeBps?: bigint;
+}
+
+/**
+ * In-memory OpenZeppelin v5 ERC20. With transferFeeBps set it follows
+ * TestFeeOnTransferERC20: the recipient gets amount - fee and the fee is burned
+ * from the sender, so the sender still pays the full amount.
+ */
+export class SimToken {
+  readonly address: string;
+  readonly name: string;
+  readonly symbol: string;
+  readonly decimals: number;
+  readonly transferFeeBps: bigint;
+  private readonly balances = new Map<string, bigint>();
+  private readonly allowances = new Map<string, bigint>();
+  private supply = 0n;
+
+  constructor(address: string, private readonly journal: Journal, options: SimTokenOptions = {}) {
+    this.address = getAddress(address);
+    this.name = options.name ?? "Simulated Token";
+    this.symbol = options.symbol ?? "SIM";
+    this.decimals = options.decimals ?? 18;
+    this.transferFeeBps = options.transferFeeBps ?? 0n;
+  }
+
+  get totalSupply(): bigint {
+    return this.supply;
+  }
+
+  balanceOf(account: string): bigint {
+    return this.balances.get(key(account)) ?? 0n;
+  }
+
+  allowance(owner: string, spender: string): bigint {
+    return this.allowances.get(`${key(owner)}:${key(spender)}`) ?? 0n;
+  }
+
+  mint(to: string, amount: bigint): void {
+    this.journal.atomic(() => {
+      if (key(to) === ZeroAddress) throw liteswapError("ERC20InvalidReceiver", [ZeroAddress]);
+      this.update(ZeroAddress, to, amount);
+    });
+  }
+
+  approve(owner: string, spender: string, amount: bigint): void {
+    this.journal.atomic(() => {
+      if (key(owner) === ZeroAddress) throw liteswapError("ERC20InvalidApprover", [ZeroAddress]);
+      if (key(spender) === ZeroAddress) throw liteswapError("ERC20InvalidSpender", [ZeroAddress]);
+      this.journal.set(this.allowances, `${key(owner)}:${key(spender)}`, amount);
+    });
+  }
+
+  transfer(from: string, to: string, amount: bigint): void {
+    this.journal.atomic(() => this.move(from, to, amount));
+  }
+
+  /**
+   * transferFrom called by `spender`, spending the allowance before moving funds.
+   */
+  transferFrom(spender: string, from: string, to: string, amount: bigint): void {
+    this.journal.atomic(() => {
+      const current = this.allowance(from, spender);
+      if (current < MaxUint256) {
+        if (current < amount) {
+          throw liteswapError("ERC20InsufficientAllowance", [getAddress(spender), current, amount]);
+        }
+        this.journal.set(this.allowances, `${key(from)}:${key(spender)}`, current - amount);
+      }
+      this.move(from, to, amount);
+    });
+  }
+
+  private move(from: string, to: string, amount: bigint): void {
+    if (key(from) === ZeroAddress) throw liteswapError("ERC20InvalidSender", [ZeroAddress]);
+    if (key(to) === ZeroAddress) throw liteswapError("ERC20InvalidReceiver", [ZeroAddress]);
+    if (this.transferFeeBps === 0n) {
+      this.update(from, to, amount);
+      return;
+    }
+    const fee = (amount * this.transferFeeBps) / 10000n;
+    this.update(from, to, amount - fee);
+    this.update(from, ZeroAddress, fee);
+  }
+
+  // ERC20._update: mint when from is zero, burn when to is zero
+  private update(from: string, to: string, amount: bigint): void {
+    if (key(from) === ZeroAddress) {
+      if (this.supply + amount > MaxUint256) throw liteswapError("Panic", [0x11n]);
+      const previous = this.supply;
+      this.supply += amount;
+      this.journal.record(() => {
+        this.supply = previous;
+      });
+    } else {
+      const balance = this.balanceOf(from);
+      if (balance < amount) throw liteswapError("ERC20InsufficientBalance", [getAddress(from), balance, amount]);
+      this.journal.set(this.balances, key(from), balance - amount);
+    }
+    if (key(to) === ZeroAddress) {
+      const previous = this.supply;
+      this.supply -= amount;
+      this.journal.record(() => {
+        this.supply = previous;
+      });
+    } else {
+      this.journal.set(this.balances, key(to), this.balanceOf(to) + amount);
+    }
+  }
+}
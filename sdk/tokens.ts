@@ -0,0 +1,172 @@
+import { AddressLike, Contract, ContractRunner, resolveAddress } from "ethers";
+import { ERC20_ABI } from "./abi";
+import { PRICE_SCALE, SwapQuote } from "./quote";
+import { Pair } from "./types";
+
+const PRICE_DECIMALS = 18;
+
+export interface TokenMetadata {
+  address: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface FormattedQuote {
+  amountIn: string;
+  amountOut: string;
+  // tokenOut per tokenIn in whole tokens
+  spotPrice: string;
+  effectivePrice: string;
+  priceImpact: string;
+}
+
+/**
+ * Formats base units as a decimal string, e.g. 1500000n with 6 decimals as
+ * "1.5". `maxFractionDigits` truncates, it never rounds up.
+ */
+export function formatTokenAmount(amount: bigint, decimals: number, maxFractionDigits: number = decimals): string {
+  const negative = amount < 0n;
+  const digits = (negative ? -amount : amount).toString().padStart(decimals + 1, "0");
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(whole.length, whole.length + maxFractionDigits).replace(/0+$/, "");
+  return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+}
+
+/**
+ * Parses a decimal string like "1.5" into base units. Throws instead of rounding
+ * when the value has more fraction digits than the token.
+ */
+export function parseTokenAmount(value: string, decimals: number): bigint {
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(value.trim());
+  if (!match || (match[1] === "" && !match[2])) throw new RangeError(`Not a token amount: "${value}"`);
+  const fraction = (match[2] ?? "").replace(/0+$/, "");
+  if (fraction.length > decimals) {
+    throw new RangeError(`"${value}" has more than the token's ${decimals} decimals`);
+  }
+  return BigInt(match[1] || "0") * 10n ** BigInt(decimals) + BigInt(fraction.padEnd(decimals, "0") || "0");
+}
+
+/**
+ * Converts a price in base units (quote token base units per base token base
+ * unit, scaled by PRICE_SCALE) into whole tokens, still scaled by PRICE_SCALE.
+ * Pool and order book prices are in base units, so a 6 decimal token quoted in
+ * an 18 decimal one is off by 10^12 until converted.
+ */
+export function toHumanPrice(price: bigint, baseDecimals: number, quoteDecimals: number): bigint {
+  return (price * 10n ** BigInt(baseDecimals)) / 10n ** BigInt(quoteDecimals);
+}
+
+/**
+ * Inverse of toHumanPrice, e.g. to turn a human tick size into order book units.
+ */
+export function fromHumanPrice(price: bigint, baseDecimals: number, quoteDecimals: number): bigint {
+  return (price * 10n ** BigInt(quoteDecimals)) / 10n ** BigInt(baseDecimals);
+}
+
+/**
+ * Pool price of `pair` as tokenB per tokenA in base units scaled by PRICE_SCALE,
+ * the same units as OrderBookEntry.quotePrice.
+ */
+export function pairPrice(pair: Pair): bigint {
+  return pair.reserveA === 0n ? 0n : (pair.reserveB * PRICE_SCALE) / pair.reserveA;
+}
+
+/**
+ * Formats a base unit price as whole quote tokens per whole base token with
+ * `significantDigits` significant digits, truncating only fraction digits.
+ */
+export function formatPrice(
+  price: bigint,
+  baseDecimals: number,
+  quoteDecimals: number,
+  significantDigits: number = 8
+): string {
+  let human = toHumanPrice(price, baseDecimals, quoteDecimals);
+  const drop = Math.min(human.toString().length - significantDigits, PRICE_DECIMALS);
+  if (drop > 0) {
+    const unit = 10n ** BigInt(drop);
+    human = (human / unit) * unit;
+  }
+  return formatTokenAmount(human, PRICE_DECIMALS);
+}
+
+/**
+ * Formats a quote for display in whole tokens with their symbols.
+ */
+export function formatQuote(quote: SwapQuote, tokenIn: TokenMetadata, tokenOut: TokenMetadata): FormattedQuote {
+  const price = (value: bigint) =>
+    `${formatPrice(value, tokenIn.decimals, tokenOut.decimals)} ${tokenOut.symbol} per ${tokenIn.symbol}`;
+  return {
+    amountIn: `${formatTokenAmount(quote.amountIn, tokenIn.decimals)} ${tokenIn.symbol}`,
+    amountOut: `${formatTokenAmount(quote.amountOut, tokenOut.decimals)} ${tokenOut.symbol}`,
+    spotPrice: price(quote.spotPrice),
+    effectivePrice: price(quote.effectivePrice),
+    // One bps is 0.01%
+    priceImpact: `${formatTokenAmount(quote.priceImpactBps, 2)}%`,
+  };
+}
+
+/**
+ * Fetches and caches ERC20 metadata. name and symbol are optional in ERC20 and
+ * fall back to the address, decimals is required since every amount depends on it.
+ * Metadata of tokens without a node, e.g. simulator tokens, can be registered.
+ */
+export class TokenRegistry {
+  readonly runner: ContractRunner;
+  private readonly cache = new Map<string, Promise<TokenMetadata>>();
+
+  constructor(runner: ContractRunner, known: TokenMetadata[] = []) {
+    this.runner = runner;
+    for (const metadata of known) this.register(metadata);
+  }
+
+  register(metadata: TokenMetadata): void {
+    this.cache.set(metadata.address.toLowerCase(), Promise.resolve(metadata));
+  }
+
+  async get(token: AddressLike): Promise<TokenMetadata> {
+    const address = await resolveAddress(token);
+    const key = address.toLowerCase();
+    let metadata = this.cache.get(key);
+    if (!metadata) {
+      metadata = this.fetch(address);
+      // Failed lookups are retried on the next call
+      metadata.catch(() => this.cache.delete(key));
+      this.cache.set(key, metadata);
+    }
+    return metadata;
+  }
+
+  async forPair(pair: Pair): Promise<{ tokenA: TokenMetadata; tokenB: TokenMetadata }> {
+    const [tokenA, tokenB] = await Promise.all([this.get(pair.tokenA), this.get(pair.tokenB)]);
+    return { tokenA, tokenB };
+  }
+
+  async format(token: AddressLike, amount: bigint, maxFractionDigits?: number): Promise<string> {
+    return formatTokenAmount(amount, (await this.get(token)).decimals, maxFractionDigits);
+  }
+
+  async parse(token: AddressLike, value: string): Promise<bigint> {
+    return parseTokenAmount(value, (await this.get(token)).decimals);
+  }
+
+  /**
+   * Formats a tokenB per tokenA price of `pair`, such as a pool or order book quotePrice.
+   */
+  async formatPairPrice(pair: Pair, price: bigint, significantDigits?: number): Promise<string> {
+    const { tokenA, tokenB } = await this.forPair(pair);
+    return formatPrice(price, tokenA.decimals, tokenB.decimals, significantDigits);
+  }
+
+  private async fetch(address: string): Promise<TokenMetadata> {
+    const erc20 = new Contract(address, ERC20_ABI, this.runner);
+    const optional = (read: Promise<string>) => read.catch(() => address);
+    const [name, symbol, decimals] = await Promise.all([
+      optional(erc20.name()),
+      optional(erc20.symbol()),
+      erc20.decimals() as Promise<bigint>,
+    ]);
+    return { address, name, symbol, decimals: Number(decimals) };
+  }
+}
@@ -0,0 +1,211 @@
+import { AddressLike, Contract, Signer, Wallet, resolveAddress } from "ethers";
+import { ERC20_ABI } from "./abi";
+import { liteswapError } from "./errors";
+import { MINIMUM_SHARES } from "./liquidity";
+import { sqrt } from "./math";
+import { BPS_DENOMINATOR, PRICE_SCALE, SwapQuote, computeAmountOut, orientReserves, quoteSwap } from "./quote";
+import { Pair } from "./types";
+
+/**
+ * Result of probing a token with a real transfer. `taxBps` assumes the usual
+ * fee = amount * taxBps / 10000 rounded down, as TestFeeOnTransferERC20 charges.
+ */
+export interface TransferTax {
+  token: string;
+  taxBps: bigint;
+  sent: bigint;
+  received: bigint;
+  // What the transfer took from the sender, more than `sent` if the fee is charged on top
+  senderCost: bigint;
+}
+
+export interface TaxedSwapQuote extends SwapQuote {
+  // What the trader sends, quote.amountIn is what the pool receives
+  amountSent: bigint;
+  // What the trader receives, quote.amountOut is what the pool pays and minAmountOut is checked against
+  amountReceived: bigint;
+}
+
+export interface TaxedLimitOrderPreview {
+  // Escrowed amount, stored as the order's offerAmount
+  offerAmount: bigint;
+  // Smallest desiredAmount that does not revert with BadRatio
+  minDesiredAmount: bigint;
+  // What the maker ends up with when a single fill completes the order
+  makerReceives: bigint;
+  // What that taker must send, and receives for it
+  fillerPays: bigint;
+  fillerReceives: bigint;
+}
+
+export interface TaxedAddLiquidityPreview {
+  // Pulled from the provider, amountB follows from the nominal amountA
+  amountASent: bigint;
+  amountBSent: bigint;
+  // Received by the pool, shares are minted for amountA
+  amountA: bigint;
+  amountB: bigint;
+  shares: bigint;
+}
+
+/**
+ * What the recipient receives when `amount` is sent with a tax of `taxBps`.
+ */
+export function netAmount(amount: bigint, taxBps: bigint): bigint {
+  return amount - (amount * taxBps) / BPS_DENOMINATOR;
+}
+
+/**
+ * Smallest amount to send so that the recipient receives at least `net`. The net
+ * amount grows by at most one per unit sent, so it receives exactly `net`.
+ */
+export function grossAmount(net: bigint, taxBps: bigint): bigint {
+  if (taxBps >= BPS_DENOMINATOR) throw new RangeError(`A tax of ${taxBps} bps leaves nothing to receive`);
+  let gross = (net * BPS_DENOMINATOR + BPS_DENOMINATOR - taxBps - 1n) / (BPS_DENOMINATOR - taxBps);
+  while (gross > 0n && netAmount(gross - 1n, taxBps) >= net) gross--;
+  while (netAmount(gross, taxBps) < net) gross++;
+  return gross;
+}
+
+/**
+ * Measures a token's transfer tax by sending `amount` (default the signer's whole
+ * balance, the larger the more exact the rate) to a fresh address inside an
+ * evm_snapshot that is reverted afterwards, so the node's state is unchanged.
+ * Needs a local or forked node that supports evm_snapshot, like Hardhat or Anvil,
+ * and a signer holding the token. Tokens exempting some addresses from their tax
+ * are measured for the signer only.
+ */
+export async function detectTransferTax(
+  signer: Signer,
+  token: AddressLike,
+  options: { amount?: bigint } = {}
+): Promise<TransferTax> {
+  const provider = signer.provider as { send?: (method: string, params: unknown[]) => Promise<unknown> } | null;
+  if (!provider?.send) throw new Error("Detecting a transfer tax needs a JSON-RPC provider with evm_snapshot");
+  const address = await resolveAddress(token);
+  const erc20 = new Contract(address, ERC20_ABI, signer);
+  const sender = await signer.getAddress();
+  const recipient = Wallet.createRandom().address;
+
+  const amount: bigint = options.amount ?? (await erc20.balanceOf(sender));
+  if (amount === 0n) throw new Error(`${sender} holds none of ${address} to probe its transfer tax with`);
+
+  const snapshot = await provider.send("evm_snapshot", []);
+  try {
+    const senderBefore: bigint = await erc20.balanceOf(sender);
+    await (await erc20.transfer(recipient, amount)).wait();
+    const received: bigint = await erc20.balanceOf(recipient);
+    const senderCost = senderBefore - (await erc20.balanceOf(sender));
+    const taxBps = ((amount - received) * BPS_DENOMINATOR) / amount;
+    return { token: address, taxBps, sent: amount, received, senderCost };
+  } finally {
+    await provider.send("evm_revert", [snapshot]);
+  }
+}
+
+/**
+ * quoteSwap for taxed tokens: the pool prices what it receives of `amountSent`
+ * and the trader receives the taxed amountOut. Use minAmountOutForSlippage on
+ * quote.amountOut, the contract checks minAmountOut before the outgoing tax.
+ */
+export function quoteSwapAfterTax(
+  pair: Pair,
+  tokenIn: string,
+  amountSent: bigint,
+  taxInBps: bigint,
+  taxOutBps: bigint
+): TaxedSwapQuote {
+  if (amountSent === 0n) throw liteswapError("InvalidAmount");
+  const quote = quoteSwap(pair, tokenIn, netAmount(amountSent, taxInBps));
+  return { ...quote, amountSent, amountReceived: netAmount(quote.amountOut, taxOutBps) };
+}
+
+/**
+ * minAmountOut that guarantees the trader receives at least `minReceived` of a
+ * token taxed at `taxOutBps`.
+ */
+export function minAmountOutForReceived(minReceived: bigint, taxOutBps: bigint): bigint {
+  return grossAmount(minReceived, taxOutBps);
+}
+
+/**
+ * Smallest desiredAmount placeLimitOrder accepts for `offerAmount` of a token
+ * taxed at `taxOfferBps`. The contract compares desiredAmount against the AMM
+ * output of the escrowed amount after truncating both to PRICE_SCALE per unit
+ * escrowed, so it can be a little below that output.
+ */
+export function minDesiredAmountAfterTax(
+  pair: Pair,
+  offerToken: string,
+  offerAmount: bigint,
+  taxOfferBps: bigint
+): bigint {
+  if (!pair.initialized) throw liteswapError("PairDoesNotExist");
+  const escrowed = netAmount(offerAmount, taxOfferBps);
+  if (escrowed === 0n) throw liteswapError("InvalidAmount");
+  const { reserveIn, reserveOut } = orientReserves(pair, offerToken);
+  const ratio = (computeAmountOut(escrowed, reserveIn, reserveOut) * PRICE_SCALE) / escrowed;
+  const minDesiredAmount = (ratio * escrowed + PRICE_SCALE - 1n) / PRICE_SCALE;
+  return minDesiredAmount > 0n ? minDesiredAmount : 1n;
+}
+
+/**
+ * Previews placeLimitOrder and a complete fill of the order for taxed tokens.
+ * Throws BadRatio like the contract when `desiredAmount` is too low for the
+ * amount actually escrowed.
+ */
+export function previewLimitOrderAfterTax(
+  pair: Pair,
+  offerToken: string,
+  offerAmount: bigint,
+  desiredAmount: bigint,
+  taxOfferBps: bigint,
+  taxDesiredBps: bigint
+): TaxedLimitOrderPreview {
+  if (offerAmount === 0n || desiredAmount === 0n) throw liteswapError("InvalidAmount");
+  const minDesiredAmount = minDesiredAmountAfterTax(pair, offerToken, offerAmount, taxOfferBps);
+  if (desiredAmount < minDesiredAmount) throw liteswapError("BadRatio");
+  const escrowed = netAmount(offerAmount, taxOfferBps);
+  return {
+    offerAmount: escrowed,
+    minDesiredAmount,
+    // Fills forward what the contract received to the maker, taxed once more
+    makerReceives: netAmount(desiredAmount, taxDesiredBps),
+    fillerPays: grossAmount(desiredAmount, taxDesiredBps),
+    fillerReceives: netAmount(escrowed, taxOfferBps),
+  };
+}
+
+/**
+ * Previews addLiquidity for taxed tokens: tokenB is pulled for the nominal
+ * amountA, and shares are minted for the amount of tokenA actually received.
+ */
+export function previewAddLiquidityAfterTax(
+  pair: Pair,
+  amountA: bigint,
+  taxABps: bigint,
+  taxBBps: bigint
+): TaxedAddLiquidityPreview {
+  if (!pair.initialized) throw liteswapError("PairDoesNotExist");
+  if (amountA === 0n) throw liteswapError("InvalidAmount");
+  const amountBSent = (amountA * pair.reserveB) / pair.reserveA;
+  if (amountBSent === 0n) throw liteswapError("InvalidAmount");
+  const receivedA = netAmount(amountA, taxABps);
+  const receivedB = netAmount(amountBSent, taxBBps);
+  if (receivedA === 0n || receivedB === 0n) throw liteswapError("InvalidAmount");
+  const shares = (receivedA * pair.totalShares) / pair.reserveA;
+  if (shares === 0n) throw liteswapError("InsufficientLiquidity");
+  return { amountASent: amountA, amountBSent, amountA: receivedA, amountB: receivedB, shares };
+}
+
+/**
+ * Initial shares of initializePair for taxed tokens, sqrt of the received amounts.
+ */
+export function initialSharesAfterTax(amountA: bigint, amountB: bigint, taxABps: bigint, taxBBps: bigint): bigint {
+  const receivedA = netAmount(amountA, taxABps);
+  const receivedB = netAmount(amountB, taxBBps);
+  if (receivedA === 0n || receivedB === 0n) throw liteswapError("InvalidAmount");
+  const shares = sqrt(receivedA * receivedB);
+  if (shares < MINIMUM_SHARES) throw liteswapError("InsufficientLiquidity");
+  return shares;
+}
@@ -0,0 +1,79 @@
+// Mirrors of the structs stored by src/Liteswap.sol plus the typed results returned by the SDK.
+
+export interface Pair {
+  pairId: bigint;
+  tokenA: string;
+  tokenB: string;
+  reserveA: bigint;
+  reserveB: bigint;
+  totalShares: bigint;
+  initialized: boolean;
+}
+
+export interface LiquidityPosition {
+  shares: bigint;
+  hasPosition: boolean;
+}
+
+export interface LimitOrder {
+  pairId: bigint;
+  orderId: bigint;
+  maker: string;
+  offerToken: string;
+  desiredToken: string;
+  offerAmount: bigint;
+  desiredAmount: bigint;
+  active: boolean;
+}
+
+export interface InitializePairResult {
+  pairId: bigint;
+  token0: string;
+  token1: string;
+  amountA: bigint;
+  amountB: bigint;
+  shares: bigint;
+  txHash: string;
+}
+
+export interface AddLiquidityResult {
+  amountA: bigint;
+  amountB: bigint;
+  shares: bigint;
+  txHash: string;
+}
+
+export interface RemoveLiquidityResult {
+  amountA: bigint;
+  amountB: bigint;
+  shares: bigint;
+  txHash: string;
+}
+
+export interface SwapResult {
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: bigint;
+  amountOut: bigint;
+  txHash: string;
+}
+
+export interface PlaceLimitOrderResult {
+  orderId: bigint;
+  offerToken: string;
+  desiredToken: string;
+  offerAmount: bigint;
+  desiredAmount: bigint;
+  txHash: string;
+}
+
+export interface FillLimitOrderResult {
+  orderId: bigint;
+  filled: bigint;
+  txHash: string;
+}
+
+export interface CancelLimitOrderResult {
+  orderId: bigint;
+  txHash: string;
+}
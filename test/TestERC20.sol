@@ -60,4 +60,20 @@ contract TestFeeOnTransferERC20 is ERC20 {
             super._update(from, to, amount);
         }
     }
-}
\ No newline at end of file
+}
+
+contract TestDecimalsERC20 is ERC20 {
+    uint8 private immutable _decimals;
+
+    constructor(string memory name, string memory symbol, uint8 decimals_) ERC20(name, symbol) {
+        _decimals = decimals_;
+    }
+
+    function decimals() public view virtual override returns (uint8) {
+        return _decimals;
+    }
+
+    function mint(address to, uint256 amount) public {
+        _mint(to, amount);
+    }
+}
@@ -0,0 +1,184 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { LiteswapApiServer } from "../api";
+import { LiteswapClient, pairPrice, quoteSwap } from "../sdk";
+import { IndexerStore, LiteswapIndexer } from "../sdk/indexer";
+import { AB_TOKENS, liteswapFixture } from "./fixtures";
+
+describe("LiteswapApiServer", function () {
+  const deployFixture = liteswapFixture(
+    {
+      tokens: AB_TOKENS,
+      users: ["owner", "user1", "user2"],
+      pairs: [{ tokens: ["A", "B"], reserves: ["10000", "10000"] }],
+    },
+    async function apiFixture({ client, pairs, users }) {
+      const { owner, user1, user2 } = users;
+      const { pairId, tokenA: token0, tokenB: token1 } = pairs["A/B"];
+      const e = hre.ethers.parseEther;
+      await client.connect(user1).addLiquidity(pairId, e("2500"));
+      for (const amount of ["10", "20", "30"]) await client.connect(user2).swap(pairId, token0, e(amount));
+      await client.connect(user2).swap(pairId, token1, e("15"));
+      await client.connect(user1).placeLimitOrder(pairId, token0, e("100"), e("110"));
+      await client.connect(user1).placeLimitOrder(pairId, token1, e("100"), e("105"));
+      const cancelled = await client.connect(user2).placeLimitOrder(pairId, token0, e("5"), e("6"));
+      await client.connect(user2).cancelLimitOrder(pairId, cancelled.orderId);
+      return { pairId, token0, token1, owner, user1, user2 };
+    }
+  );
+
+  async function serve(client: LiteswapClient) {
+    const store = new IndexerStore();
+    const indexer = new LiteswapIndexer(hre.ethers.provider, await client.getAddress(), store);
+    await indexer.sync();
+    const server = new LiteswapApiServer(store, { maxPageSize: 50 });
+    const url = await server.listen();
+    const get = async (path: string, headers: Record<string, string> = {}) => {
+      const response = await fetch(`${url}${path}`, { headers });
+      const body = response.status === 304 ? undefined : await response.json();
+      return { status: response.status, etag: response.headers.get("etag"), body };
+    };
+    const graphql = async (query: string, variables?: Record<string, unknown>) => {
+      const response = await fetch(`${url}/graphql`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ query, variables }),
+      });
+      return { status: response.status, body: await response.json() };
+    };
+    return { indexer, server, get, graphql };
+  }
+
+  it("Should serve pairs, positions, order books, quotes and trades over REST", async function () {
+    const { client, liteswap, pairId, token0, user1 } = await loadFixture(deployFixture);
+    const { server, get } = await serve(client);
+    try {
+      const pair = await client.getPair(pairId);
+      const { body: pairs } = await get("/pairs");
+      expect(pairs.nextCursor).to.equal(null);
+      expect(pairs.items).to.deep.equal([
+        {
+          pairId: "1",
+          tokenA: pair.tokenA,
+          tokenB: pair.tokenB,
+          reserveA: pair.reserveA.toString(),
+          reserveB: pair.reserveB.toString(),
+          totalShares: pair.totalShares.toString(),
+          initialized: true,
+          price: pairPrice(pair).toString(),
+        },
+      ]);
+      expect((await get(`/pairs/${pairId}`)).body).to.deep.equal(pairs.items[0]);
+
+      const { body: position } = await get(`/pairs/${pairId}/positions/${user1.address}`);
+      expect(position.shareBps).to.equal((await liteswap.getUserShareBps(pairId, user1.address)).toString());
+      expect((await get(`/pairs/${pairId}/positions`)).body.items.length).to.equal(2);
+      expect((await get(`/accounts/${user1.address}/positions`)).body).to.deep.equal([position]);
+
+      const amountIn = hre.ethers.parseEther("42");
+      const { body: quote } = await get(`/pairs/${pairId}/quote?tokenIn=${token0}&amountIn=${amountIn}`);
+      expect(quote.amountOut).to.equal(quoteSwap(pair, token0, amountIn).amountOut.toString());
+
+      const { body: book } = await get(`/pairs/${pairId}/orderbook?tickSize=${hre.ethers.parseEther("0.1")}`);
+      expect([book.asks.length, book.bids.length]).to.deep.equal([1, 1]);
+      expect(book.depth.asks[0].quotePrice).to.equal(hre.ethers.parseEther("1.1").toString());
+      expect((await get(`/pairs/${pairId}/orders`)).body.items.length).to.equal(3);
+      expect((await get(`/pairs/${pairId}/orders?active=true`)).body.items.length).to.equal(2);
+
+      // Walking the trades one page at a time returns all of them in order
+      const trades: { amountIn: string }[] = [];
+      let cursor: string | null = "";
+      while (cursor !== null) {
+        const { body: page } = await get(`/pairs/${pairId}/trades?limit=1${cursor ? `&cursor=${cursor}` : ""}`);
+        trades.push(...page.items);
+        cursor = page.nextCursor;
+      }
+      expect(trades.map((trade) => trade.amountIn)).to.deep.equal(
+        ["10", "20", "30", "15"].map((amount) => hre.ethers.parseEther(amount).toString())
+      );
+
+      expect((await get("/pairs/9")).status).to.equal(404);
+      expect((await get("/nowhere")).status).to.equal(404);
+      expect((await get("/pairs?limit=51")).status).to.equal(400);
+      const rejected = await get(`/pairs/${pairId}/quote?tokenIn=${user1.address}&amountIn=1`);
+      expect(rejected.status).to.equal(400);
+      expect(rejected.body.errorName).to.equal("InvalidTokenAddress");
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("Should answer conditional requests with 304 until the indexed state changes", async function () {
+    const { client, pairId, token0, user2 } = await loadFixture(deployFixture);
+    const { indexer, server, get } = await serve(client);
+    try {
+      const first = await get(`/pairs/${pairId}`);
+      expect(first.etag).to.be.a("string");
+      const cached = await get(`/pairs/${pairId}`, { "If-None-Match": first.etag! });
+      expect(cached.status).to.equal(304);
+      expect(cached.etag).to.equal(first.etag);
+
+      await client.connect(user2).swap(pairId, token0, hre.ethers.parseEther("1"));
+      await indexer.sync();
+      const changed = await get(`/pairs/${pairId}`, { "If-None-Match": first.etag! });
+      expect(changed.status).to.equal(200);
+      expect(changed.etag).to.not.equal(first.etag);
+      expect(changed.body.reserveA).to.equal((await client.getPair(pairId)).reserveA.toString());
+    } finally {
+      await server.close();
+    }
+  });
+
+  it("Should resolve nested GraphQL queries with variables and fragments", async function () {
+    const { client, pairId, token0, user1 } = await loadFixture(deployFixture);
+    const { server, get, graphql } = await serve(client);
+    try {
+      const { status, body } = await graphql(
+        `query Pair($pairId: String!, $provider: String!, $amountIn: String = "1000") {
+          pair(pairId: $pairId) {
+            ...Reserves
+            mine: position(provider: $provider) { shares shareBps }
+            quote(tokenIn: "${token0}", amountIn: $amountIn) { amountOut }
+            orderBook { asks { orderId quotePrice } bids { orderId } }
+            trades(limit: 2) { items { amountIn } nextCursor }
+            __typename
+          }
+          status { blockNumber }
+        }
+        fragment Reserves on Pair { reserveA reserveB price }`,
+        { pairId: pairId.toString(), provider: user1.address }
+      );
+      expect(status).to.equal(200);
+      expect(body.errors).to.equal(undefined);
+
+      const rest = await get(`/pairs/${pairId}`);
+      const { pair } = body.data;
+      expect(pair).to.deep.include({ reserveA: rest.body.reserveA, reserveB: rest.body.reserveB, __typename: "Pair" });
+      expect(pair.mine).to.deep.equal({
+        shares: (await client.getPosition(pairId, user1.address)).shares.toString(),
+        shareBps: (await get(`/pairs/${pairId}/positions/${user1.address}`)).body.shareBps,
+      });
+      const quote = quoteSwap(await client.getPair(pairId), token0, 1000n);
+      expect(pair.quote.amountOut).to.equal(quote.amountOut.toString());
+      expect(pair.orderBook.asks.length).to.equal(1);
+      expect(pair.trades.items.length).to.equal(2);
+      expect(pair.trades.nextCursor).to.be.a("string");
+      expect(body.data.status.blockNumber).to.equal(await hre.ethers.provider.getBlockNumber());
+
+      // Resolver errors null their field and keep the rest of the data
+      const partial = await graphql(`{ pairs { items { pairId } } missing: pair(pairId: "9") { pairId } }`);
+      expect(partial.body.data).to.deep.equal({ pairs: { items: [{ pairId: "1" }] }, missing: null });
+      expect(partial.body.errors).to.deep.equal([
+        { message: "Pair 9 does not exist", path: ["missing"], extensions: { status: 404 } },
+      ]);
+
+      const invalid = await graphql(`{ pair(pairId: "1") { nope } }`);
+      expect(invalid.status).to.equal(400);
+      expect(invalid.body.errors[0].message).to.equal('Cannot query field "nope" on type "Pair".');
+      expect((await graphql(`query Q($pairId: String!) { pair(pairId: $pairId) { pairId } }`)).status).to.equal(400);
+    } finally {
+      await server.close();
+    }
+  });
+});
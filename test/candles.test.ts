@@ -0,0 +1,163 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { LiteswapApiServer, toJson } from "../api";
+import { PRICE_SCALE, SwapResult, backfillCandles, buildCandles, candlesToCsv } from "../sdk";
+import { IndexerStore, LiteswapIndexer } from "../sdk/indexer";
+import { AB_TOKENS, liteswapFixture } from "./fixtures";
+
+describe("Candles", function () {
+  const deployFixture = liteswapFixture(
+    {
+      tokens: AB_TOKENS,
+      users: ["owner", "trader"],
+      pairs: [{ tokens: ["A", "B"], reserves: ["10000", "20000"] }],
+    },
+    // Every user approved upfront, so every swap is a single block at the timestamp it was given
+    async function candlesFixture({ liteswap, client, pairs, users }) {
+      const { pairId, tokenA: token0, tokenB: token1 } = pairs["A/B"];
+      // Both directions across two hours, starting on a whole hour
+      const hour = Math.ceil((await time.latest()) / 3600) * 3600 + 3600;
+      const swaps: SwapResult[] = [];
+      for (const [offset, tokenIn, amount] of [
+        [10, token0, "100"],
+        [30, token1, "50"],
+        [70, token0, "10"],
+        [3700, token1, "200"],
+      ] as const) {
+        await time.setNextBlockTimestamp(hour + offset);
+        swaps.push(await client.connect(users.trader).swap(pairId, tokenIn, hre.ethers.parseEther(amount)));
+      }
+      return { address: await liteswap.getAddress(), pairId, token0, token1, hour, swaps };
+    }
+  );
+
+  const e = (value: string) => hre.ethers.parseEther(value);
+  const trade = (blockNumber: number, timestamp: number, tokenIn: string, amountIn: string, amountOut: string) => ({
+    blockNumber,
+    logIndex: 0,
+    timestamp,
+    tokenIn,
+    amountIn: e(amountIn),
+    amountOut: e(amountOut),
+  });
+
+  it("Should aggregate trades in both directions into OHLCV candles", function () {
+    const tokenA = "0x" + "aa".repeat(20);
+    const tokenB = "0x" + "bb".repeat(20);
+    // Out of order on purpose, and one trade with a checksummed tokenIn
+    const trades = [
+      trade(4, 250, tokenA, "5", "10"),
+      trade(3, 100, tokenA, "10", "15"),
+      trade(1, 65, hre.ethers.getAddress(tokenA), "10", "20"),
+      trade(2, 70, tokenB, "30", "10"),
+    ];
+    const price = (value: string) => e(value) * (PRICE_SCALE / e("1"));
+
+    const minutes = buildCandles(tokenA, trades, "1m");
+    expect(minutes).to.deep.equal([
+      {
+        openTime: 60,
+        closeTime: 120,
+        open: price("2"),
+        high: price("3"),
+        low: price("1.5"),
+        close: price("1.5"),
+        volumeA: e("30"),
+        volumeB: e("65"),
+        trades: 3,
+      },
+      {
+        openTime: 240,
+        closeTime: 300,
+        open: price("2"),
+        high: price("2"),
+        low: price("2"),
+        close: price("2"),
+        volumeA: e("5"),
+        volumeB: e("10"),
+        trades: 1,
+      },
+    ]);
+
+    const filled = buildCandles(tokenA, trades, "1m", { fillGaps: true });
+    expect(filled.map((candle) => [candle.openTime, candle.close, candle.trades])).to.deep.equal([
+      [60, price("1.5"), 3],
+      [120, price("1.5"), 0],
+      [180, price("1.5"), 0],
+      [240, price("2"), 1],
+    ]);
+    const [fiveMinutes] = buildCandles(tokenA, trades, "5m");
+    expect(fiveMinutes).to.deep.include({ openTime: 0, open: price("2"), close: price("2"), trades: 4 });
+
+    const csv = candlesToCsv(minutes, { decimalsA: 18, decimalsB: 18 }).split("\n");
+    expect(csv[0]).to.equal("openTime,date,open,high,low,close,volumeA,volumeB,trades");
+    expect(csv[1]).to.equal("60,1970-01-01T00:01:00.000Z,2,3,1.5,1.5,30,65,3");
+    const two = price("2");
+    expect(candlesToCsv(minutes).split("\n")[2]).to.equal(
+      `240,1970-01-01T00:04:00.000Z,${two},${two},${two},${two},${e("5")},${e("10")},1`
+    );
+  });
+
+  it("Should backfill candles from the Swap logs since genesis", async function () {
+    const { address, pairId, token0, hour, swaps } = await loadFixture(deployFixture);
+    const hours = await backfillCandles(hre.ethers.provider, address, pairId, "1h", { batchSize: 5 });
+    expect(hours.map((candle) => [candle.openTime, candle.trades])).to.deep.equal([
+      [hour, 3],
+      [hour + 3600, 1],
+    ]);
+
+    const sides = swaps.map((swap) =>
+      swap.tokenIn === token0 ? [swap.amountIn, swap.amountOut] : [swap.amountOut, swap.amountIn]
+    );
+    const prices = sides.slice(0, 3).map(([amountA, amountB]) => (amountB * PRICE_SCALE) / amountA);
+    expect(hours[0]).to.deep.include({
+      open: prices[0],
+      high: prices.reduce((a, b) => (a > b ? a : b)),
+      low: prices.reduce((a, b) => (a < b ? a : b)),
+      close: prices[2],
+    });
+    expect(hours[0].volumeA).to.equal(sides[0][0] + sides[1][0] + sides[2][0]);
+    expect(hours[1].volumeB).to.equal(swaps[3].amountIn);
+    // Buying tokenA with tokenB raised its price
+    expect(hours[1].close > hours[0].close).to.equal(true);
+  });
+
+  it("Should serve candles from the indexer as JSON, CSV and GraphQL", async function () {
+    const { client, address, pairId, hour } = await loadFixture(deployFixture);
+    const store = new IndexerStore();
+    await new LiteswapIndexer(hre.ethers.provider, await client.getAddress(), store).sync();
+    const server = new LiteswapApiServer(store);
+    const url = await server.listen();
+    try {
+      const minutes = await backfillCandles(hre.ethers.provider, address, pairId, "1m", { fillGaps: true });
+      const response = await fetch(`${url}/pairs/${pairId}/candles?interval=1m&fill=true`);
+      expect(await response.json()).to.deep.equal(JSON.parse(toJson(minutes)));
+
+      // from is rounded down to the interval so the first candle is complete
+      const range = `from=${hour + 20}&to=${hour + 100}`;
+      const csv = await fetch(`${url}/pairs/${pairId}/candles?interval=1m&${range}&format=csv`);
+      expect(csv.headers.get("content-type")).to.equal("text/csv; charset=utf-8");
+      const rows = (await csv.text()).trim().split("\n");
+      expect(rows.length).to.equal(3);
+      expect(rows[1].split(",")[8]).to.equal("2");
+      const second = minutes.filter((candle) => candle.openTime === hour + 60);
+      expect(rows[2]).to.equal(candlesToCsv(second).trim().split("\n")[1]);
+
+      const graphql = await fetch(`${url}/graphql`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          query: `{ pair(pairId: "${pairId}") { candles(interval: "1h") { openTime trades } } }`,
+        }),
+      });
+      expect((await graphql.json()).data.pair.candles).to.deep.equal([
+        { openTime: hour, trades: 3 },
+        { openTime: hour + 3600, trades: 1 },
+      ]);
+      expect((await fetch(`${url}/pairs/${pairId}/candles?interval=2m`)).status).to.equal(400);
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,175 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { mkdtempSync, writeFileSync } from "fs";
+import hre from "hardhat";
+import { tmpdir } from "os";
+import { join } from "path";
+import { CliIo, main } from "../cli";
+import { loadConfig, loadSigner } from "../cli/config";
+import { AB_TOKENS, liteswapFixture } from "./fixtures";
+
+describe("liteswap CLI", function () {
+  const deployFixture = liteswapFixture(
+    { tokens: AB_TOKENS, users: ["owner", "user1"], approve: false },
+    async function cliFixture({ liteswap, addresses, users }) {
+      const { owner, user1 } = users;
+      return { tokenA: addresses.A, tokenB: addresses.B, address: await liteswap.getAddress(), owner, user1 };
+    }
+  );
+
+  async function run(argv: string[], signer: CliIo["signer"], address: string) {
+    const out: string[] = [];
+    const err: string[] = [];
+    const code = await main([...argv, "--address", address], {
+      env: {},
+      stdout: (text) => out.push(text),
+      stderr: (text) => err.push(text),
+      signer,
+    });
+    return { code, stdout: out.join("\n"), stderr: err.join("\n") };
+  }
+
+  it("Should initialize, describe and list pairs", async function () {
+    const { tokenA, tokenB, address, owner } = await loadFixture(deployFixture);
+
+    const init = await run(["pair", "init", tokenA, tokenB, "1000000", "4000000", "--json"], owner, address);
+    expect(init.code).to.equal(0);
+    expect(JSON.parse(init.stdout)).to.include({ pairId: "1", shares: "2000000" });
+
+    const info = await run(["pair", "info", "1"], owner, address);
+    expect(info.stdout).to.match(/reserveA\s+1000000|reserveA\s+4000000/);
+
+    const list = await run(["pair", "list"], owner, address);
+    const [header, separator, row] = list.stdout.split("\n");
+    expect(header.split(/\s+/)).to.deep.equal(["pairId", "tokenA", "tokenB", "reserveA", "reserveB", "totalShares"]);
+    expect(separator).to.match(/^-+/);
+    expect(row.split(/\s+/)[0]).to.equal("1");
+  });
+
+  it("Should dry-run writes with eth_call without changing state", async function () {
+    const { liteswap, tokenA, tokenB, address, owner, user1 } = await loadFixture(deployFixture);
+    await run(["pair", "init", tokenA, tokenB, "1000000", "1000000"], owner, address);
+
+    const token = await hre.ethers.getContractAt("TestERC20", tokenA);
+    await token.approve(address, 1000n);
+
+    const quote = JSON.parse((await run(["swap", "quote", "1", tokenA, "1000", "--json"], user1, address)).stdout);
+    const dryRun = JSON.parse(
+      (await run(["swap", "exec", "1", tokenA, "1000", "--dry-run", "--json"], owner, address)).stdout
+    );
+    expect(dryRun).to.include({ dryRun: true, method: "swap", amountOut: quote.amountOut });
+
+    // user1 has not approved anything yet
+    const unapproved = JSON.parse(
+      (await run(["swap", "exec", "1", tokenA, "1000", "--dry-run", "--json"], user1, address)).stdout
+    );
+    expect(unapproved.approvalsNeeded).to.deep.equal([{ token: tokenA, allowance: "0", required: "1000" }]);
+    expect((await liteswap.getPairInfo(1)).reserveA).to.equal(1000000n);
+
+    const swapped = JSON.parse((await run(["swap", "exec", "1", tokenA, "1000", "--json"], user1, address)).stdout);
+    expect(swapped.amountOut).to.equal(quote.amountOut);
+  });
+
+  it("Should manage liquidity and limit orders end to end", async function () {
+    const { tokenA, tokenB, address, owner, user1 } = await loadFixture(deployFixture);
+    await run(["pair", "init", tokenA, tokenB, "1000000", "1000000"], owner, address);
+
+    const added = JSON.parse((await run(["liquidity", "add", "1", "10000", "--json"], user1, address)).stdout);
+    const position = JSON.parse((await run(["liquidity", "position", "1", "--json"], user1, address)).stdout);
+    expect(position.shares).to.equal(added.shares);
+    await run(["liquidity", "remove", "1", added.shares], user1, address);
+
+    const placed = JSON.parse(
+      (await run(["order", "place", "1", tokenA, "1000", "2000", "--json"], user1, address)).stdout
+    );
+    expect(placed.orderId).to.equal("0");
+    const listed = JSON.parse((await run(["order", "list", "1", "--json"], owner, address)).stdout);
+    expect(listed.map((entry: { orderId: string }) => entry.orderId)).to.deep.equal(["0"]);
+
+    const filled = JSON.parse((await run(["order", "fill", "1", "0", "1000", "--json"], owner, address)).stdout);
+    expect(filled.filled).to.equal("500");
+    expect((await run(["order", "cancel", "1", "0"], user1, address)).code).to.equal(0);
+    expect((await run(["order", "list", "1"], owner, address)).stdout).to.equal("(none)");
+  });
+
+  it("Should show prices in whole tokens for pairs with different decimals", async function () {
+    const { tokenA, address, owner } = await loadFixture(deployFixture);
+    const usdc = await hre.ethers.deployContract("TestDecimalsERC20", ["USD Coin", "USDC", 6]);
+    await usdc.mint(owner.address, 10n ** 12n);
+    const usdcAddress = await usdc.getAddress();
+
+    const token = JSON.parse((await run(["token", "info", usdcAddress, "--json"], owner, address)).stdout);
+    expect(token).to.include({ symbol: "USDC", decimals: 6 });
+
+    const amountA = hre.ethers.parseEther("1000").toString();
+    await run(["pair", "init", tokenA, usdcAddress, amountA, "2000000000"], owner, address);
+    const info = JSON.parse((await run(["pair", "info", "1", "--json"], owner, address)).stdout);
+    expect(info.price).to.equal(info.symbolA === "USDC" ? "0.5" : "2");
+
+    const quoteArgs = ["swap", "quote", "1", tokenA, hre.ethers.parseEther("1").toString(), "--json"];
+    const quote = JSON.parse((await run(quoteArgs, owner, address)).stdout);
+    expect(quote.spotPrice).to.equal("2 USDC per TKNA");
+  });
+
+  it("Should read token amounts in whole tokens with --decimal", async function () {
+    const { tokenA, address, owner } = await loadFixture(deployFixture);
+    const usdc = await hre.ethers.deployContract("TestDecimalsERC20", ["USD Coin", "USDC", 6]);
+    await usdc.mint(owner.address, 10n ** 12n);
+    const usdcAddress = await usdc.getAddress();
+
+    const initArgs = ["pair", "init", tokenA, usdcAddress, "1000", "2000.5", "--decimal", "--dry-run", "--json"];
+    expect(JSON.parse((await run(initArgs, owner, address)).stdout).approvalsNeeded).to.deep.equal([
+      { token: tokenA, allowance: "0", required: hre.ethers.parseEther("1000").toString() },
+      { token: usdcAddress, allowance: "0", required: "2000500000" },
+    ]);
+
+    await run(["pair", "init", tokenA, usdcAddress, "1000", "2000", "--decimal"], owner, address);
+    const info = JSON.parse((await run(["pair", "info", "1", "--json"], owner, address)).stdout);
+    expect(info.price).to.equal(info.symbolA === "USDC" ? "0.5" : "2");
+    const quoteArgs = ["swap", "quote", "1", tokenA, "1.5", "--decimal", "--json"];
+    expect(JSON.parse((await run(quoteArgs, owner, address)).stdout).amountIn).to.equal(
+      hre.ethers.parseEther("1.5").toString()
+    );
+
+    const placeArgs = ["order", "place", "1", tokenA, "1", "2.5", "--decimal", "--dry-run", "--json"];
+    const placed = JSON.parse((await run(placeArgs, owner, address)).stdout);
+    expect(placed.approvalsNeeded).to.deep.equal([
+      { token: tokenA, allowance: "0", required: hre.ethers.parseEther("1").toString() },
+    ]);
+
+    // USDC has 6 decimals
+    const tooPrecise = await run(["swap", "quote", "1", usdcAddress, "0.0000001", "--decimal"], owner, address);
+    expect(tooPrecise.code).to.equal(2);
+    expect(tooPrecise.stderr).to.contain("amountIn").and.to.contain("6 decimals");
+  });
+
+  it("Should report decoded reverts and usage errors through the exit code", async function () {
+    const { tokenA, tokenB, address, owner } = await loadFixture(deployFixture);
+    await run(["pair", "init", tokenA, tokenB, "1000000", "1000000"], owner, address);
+
+    const duplicate = await run(["pair", "init", tokenB, tokenA, "1000", "1000", "--dry-run"], owner, address);
+    expect(duplicate.code).to.equal(1);
+    expect(duplicate.stderr).to.contain("PairAlreadyExists");
+
+    const badAmount = await run(["swap", "quote", "1", tokenA, "1.5"], owner, address);
+    expect(badAmount.code).to.equal(2);
+    expect(badAmount.stderr).to.contain("liteswap swap quote <pairId> <tokenIn> <amountIn>");
+
+    expect((await run(["pair", "nope"], owner, address)).code).to.equal(2);
+  });
+
+  it("Should load the signer from an encrypted keystore", async function () {
+    const wallet = hre.ethers.Wallet.createRandom();
+    const dir = mkdtempSync(join(tmpdir(), "liteswap-cli-"));
+    const keystore = join(dir, "key.json");
+    const account = { address: wallet.address, privateKey: wallet.privateKey };
+    writeFileSync(keystore, hre.ethers.encryptKeystoreJsonSync(account, "secret", { scrypt: { N: 1024 } }));
+
+    const config = loadConfig(
+      { keystore },
+      { LITESWAP_ADDRESS: hre.ethers.ZeroAddress, LITESWAP_KEYSTORE_PASSWORD: "secret" }
+    );
+    const signer = await loadSigner(config, hre.ethers.provider);
+    expect(await signer.getAddress()).to.equal(wallet.address);
+  });
+});
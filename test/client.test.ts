@@ -0,0 +1,185 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { DeadlineExceededError, LiteswapClient, LiteswapError, PriceMovedError } from "../sdk";
+import { AB_TOKENS, liteswapFixture } from "./fixtures";
+
+describe("LiteswapClient", function () {
+  const deployFixture = liteswapFixture(
+    { tokens: AB_TOKENS, users: ["owner", "user1", "user2"], approve: false },
+    async function clientFixture({ tokens, users }) {
+      const { owner, user1, user2 } = users;
+      return { tokenA: tokens.A, tokenB: tokens.B, owner, user1, user2 };
+    }
+  );
+
+  it("Should initialize a pair without manual approvals and return the decoded pairId and shares", async function () {
+    const { client, tokenA, tokenB } = await loadFixture(deployFixture);
+    const amount = hre.ethers.parseEther("1000");
+
+    const result = await client.initializePair(tokenA, tokenB, amount, amount);
+
+    expect(result.pairId).to.equal(1n);
+    expect(result.shares).to.equal(amount);
+    expect(await client.getPairId(tokenA, tokenB)).to.equal(result.pairId);
+    expect((await client.getPosition(result.pairId)).shares).to.equal(amount);
+  });
+
+  it("Should add and remove liquidity with the counter token allowance derived from reserves", async function () {
+    const { client, tokenA, tokenB, user1 } = await loadFixture(deployFixture);
+    const { pairId } = await client.initializePair(
+      tokenA,
+      tokenB,
+      hre.ethers.parseEther("1000"),
+      hre.ethers.parseEther("2000")
+    );
+    const pair = await client.getPair(pairId);
+
+    const lp = client.connect(user1);
+    const added = await lp.addLiquidity(pairId, hre.ethers.parseEther("10"));
+    const expectedB = (hre.ethers.parseEther("10") * pair.reserveB) / pair.reserveA;
+    expect(added.amountB).to.equal(expectedB);
+
+    const removed = await lp.removeLiquidity(pairId, added.shares);
+    expect(removed.shares).to.equal(added.shares);
+    expect((await lp.getPosition(pairId)).hasPosition).to.equal(false);
+  });
+
+  it("Should swap and return amountOut decoded from the Swap event", async function () {
+    const { client, tokenA, tokenB, user1 } = await loadFixture(deployFixture);
+    const amount = hre.ethers.parseEther("1000");
+    const { pairId } = await client.initializePair(tokenA, tokenB, amount, amount);
+
+    const trader = client.connect(user1);
+    const balanceBefore = await tokenB.balanceOf(user1.address);
+    const result = await trader.swap(pairId, tokenA, hre.ethers.parseEther("10"));
+
+    expect(result.tokenOut).to.equal(await tokenB.getAddress());
+    expect(await tokenB.balanceOf(user1.address)).to.equal(balanceBefore + result.amountOut);
+  });
+
+  it("Should place, partially fill and cancel limit orders", async function () {
+    const { client, tokenA, tokenB, user1, user2 } = await loadFixture(deployFixture);
+    const amount = hre.ethers.parseEther("10000");
+    const { pairId } = await client.initializePair(tokenA, tokenB, amount, amount);
+
+    const maker = client.connect(user1);
+    const taker = client.connect(user2);
+    const first = await maker.placeLimitOrder(pairId, tokenA, hre.ethers.parseEther("100"), hre.ethers.parseEther("190"));
+    const second = await maker.placeLimitOrder(pairId, tokenA, hre.ethers.parseEther("100"), hre.ethers.parseEther("190"));
+    expect(first.orderId).to.equal(0n);
+    expect(second.orderId).to.equal(1n);
+
+    const fill = await taker.fillLimitOrder(pairId, first.orderId, hre.ethers.parseEther("95"));
+    expect(fill.filled).to.equal(hre.ethers.parseEther("50"));
+
+    await maker.cancelLimitOrder(pairId, first.orderId);
+    expect((await maker.getLimitOrder(pairId, first.orderId)).active).to.equal(false);
+  });
+
+  it("Should rethrow reverts as decoded LiteswapError instances", async function () {
+    const { client, tokenA, tokenB, user1 } = await loadFixture(deployFixture);
+    const amount = hre.ethers.parseEther("10000");
+    const { pairId } = await client.initializePair(tokenA, tokenB, amount, amount);
+    const { orderId } = await client.placeLimitOrder(
+      pairId,
+      tokenA,
+      hre.ethers.parseEther("100"),
+      hre.ethers.parseEther("190")
+    );
+
+    const error = await client
+      .connect(user1)
+      .cancelLimitOrder(pairId, orderId)
+      .catch((err: unknown) => err);
+    expect(error).to.be.instanceOf(LiteswapError);
+    expect((error as LiteswapError).errorName).to.equal("NotOrderMaker");
+
+    const badRatio = await client
+      .placeLimitOrder(pairId, tokenA, hre.ethers.parseEther("100"), hre.ethers.parseEther("1"))
+      .catch((err: unknown) => err);
+    expect((badRatio as LiteswapError).errorName).to.equal("BadRatio");
+    expect((badRatio as LiteswapError).explanation).to.match(/desiredAmount is below current AMM output of \d+/);
+  });
+
+  it("Should decode bubbled up OpenZeppelin ERC20 errors with their arguments", async function () {
+    const { client, tokenA, tokenB, owner } = await loadFixture(deployFixture);
+    const manual = new LiteswapClient(await client.getAddress(), owner, { approval: "none" });
+    const amount = hre.ethers.parseEther("1000");
+
+    const error = (await manual.initializePair(tokenA, tokenB, amount, amount).catch((err: unknown) => err)) as LiteswapError;
+    expect(error.reason.name).to.equal("ERC20InsufficientAllowance");
+    if (error.reason.name === "ERC20InsufficientAllowance") {
+      expect(error.reason.spender).to.equal(await client.getAddress());
+      expect(error.reason.needed).to.equal(amount);
+    }
+    expect(error.remedy).to.contain(`approve at least ${amount}`);
+  });
+
+  it("Should cap addLiquidity at maxAmountB with an exact allowance and abort when the ratio moved", async function () {
+    const { client, tokenA, tokenB, user1, user2 } = await loadFixture(deployFixture);
+    const e = hre.ethers.parseEther;
+    const { pairId, token0, token1 } = await client.initializePair(tokenA, tokenB, e("1000"), e("1000"));
+    const lp = new LiteswapClient(await client.getAddress(), user1, { approval: "max" });
+
+    const added = await lp.addLiquidity(pairId, e("10"), { slippageBps: 100n });
+    expect(added.amountB).to.equal(e("10"));
+    // The allowance was exactly the limit, minus what the add pulled
+    expect(await lp.getAllowance(token1)).to.equal(e("0.1"));
+
+    await client.connect(user2).swap(pairId, token1, e("100"));
+    const nonce = await user1.getNonce();
+    const error = await lp.addLiquidity(pairId, e("10"), { maxAmountB: e("10.5") }).catch((err: unknown) => err);
+    expect(error).to.be.instanceOf(PriceMovedError);
+    expect((error as PriceMovedError).required > e("10.5")).to.equal(true);
+    // Only the allowance was sent, the add itself never was
+    expect(await user1.getNonce()).to.equal(nonce + 1);
+    expect(await lp.getAllowance(token1)).to.equal(e("10.5"));
+    expect((await lp.getPosition(pairId)).shares).to.equal(added.shares);
+    expect(await lp.getAllowance(token0)).to.equal(hre.ethers.MaxUint256);
+  });
+
+  it("Should replace a swap that misses its deadline block", async function () {
+    const { client, tokenA, tokenB, owner } = await loadFixture(deployFixture);
+    const e = hre.ethers.parseEther;
+    const { pairId, token0 } = await client.initializePair(tokenA, tokenB, e("1000"), e("1000"));
+    const trader = new LiteswapClient(await client.getAddress(), owner, { pollingInterval: 20 });
+    const current = await hre.ethers.provider.getBlockNumber();
+
+    const late = await trader.swap(pairId, token0, e("1"), 0n, { deadline: current - 1 }).catch((err: unknown) => err);
+    expect(late).to.be.instanceOf(DeadlineExceededError);
+    expect((late as DeadlineExceededError).txHash).to.equal(undefined);
+    const inTime = await trader.swap(pairId, token0, e("1"), 0n, { deadline: current + 10 });
+    expect(inTime.amountOut > 0n).to.equal(true);
+
+    await trader.ensureAllowance(token0, e("1"));
+    const nonce = await owner.getNonce();
+    await hre.network.provider.send("evm_setAutomine", [false]);
+    try {
+      const deadline = (await hre.ethers.provider.getBlockNumber()) + 1;
+      const pending = trader.swap(pairId, token0, e("1"), 0n, { deadline }).catch((err: unknown) => err);
+      const sleep = () => new Promise((resolve) => setTimeout(resolve, 20));
+      // Transactions the next block would include
+      const includable = async (): Promise<{ to: string }[]> =>
+        (await hre.network.provider.send("eth_getBlockByNumber", ["pending", true])).transactions;
+      for (let i = 0; i < 100 && (await owner.getNonce("pending")) === nonce; i++) await sleep();
+
+      // A base fee the swap cannot pay keeps it out of the next two blocks
+      const baseFee = hre.ethers.toQuantity(hre.ethers.parseUnits("1000", "gwei"));
+      await hre.network.provider.send("hardhat_setNextBlockBaseFeePerGas", [baseFee]);
+      await hre.network.provider.send("hardhat_mine", ["0x2"]);
+      const self = owner.address.toLowerCase();
+      for (let i = 0; i < 100 && !(await includable()).some((tx) => tx.to?.toLowerCase() === self); i++) await sleep();
+      await hre.network.provider.send("hardhat_mine", []);
+
+      const error = (await pending) as DeadlineExceededError;
+      expect(error).to.be.instanceOf(DeadlineExceededError);
+      expect(error.deadline).to.equal(deadline);
+      expect(await owner.getNonce()).to.equal(nonce + 1);
+      const replacement = await hre.ethers.provider.getTransaction(error.replacementHash!);
+      expect(replacement!.to).to.equal(owner.address);
+    } finally {
+      await hre.network.provider.send("evm_setAutomine", [true]);
+    }
+  });
+});
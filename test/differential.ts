@@ -0,0 +1,121 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { BaseContract } from "ethers";
+import hre from "hardhat";
+import {
+  LiteswapClient,
+  LiteswapOp,
+  LiteswapSimulator,
+  OpOutcome,
+  TEST_TRANSFER_FEE_BPS,
+  decodeLiteswapError,
+  parseLiteswapReceipt,
+  withoutLogIndex,
+} from "../sdk";
+import { LiteswapFixture, liteswapFixture } from "./fixtures";
+
+// Shared by the suites that run the same calls on Hardhat and in LiteswapSimulator
+
+const MINT = "1000000";
+
+/**
+ * Adds `createSimulator`, which returns a fresh simulator in the fixture's state
+ * (loadFixture hands every test the same objects, so each test builds its own),
+ * the token and user `labels` by address for formatOp, and the user and token
+ * addresses in label order for randomOp.
+ */
+async function differentialSetup({ liteswap, addresses, users }: LiteswapFixture) {
+  const address = await liteswap.getAddress();
+  const accounts = Object.values(users).map((user) => user.address);
+  const tokenAddresses = Object.values(addresses);
+  const labels: Record<string, string> = {};
+  for (const [label, user] of Object.entries(users)) labels[user.address] = label;
+  for (const [label, tokenAddress] of Object.entries(addresses)) labels[tokenAddress] = label;
+
+  const feeToken = addresses.FEE;
+  const mintAmount = hre.ethers.parseEther(MINT);
+  function createSimulator(transferFeeBps: bigint = TEST_TRANSFER_FEE_BPS): LiteswapSimulator {
+    const sim = new LiteswapSimulator(address);
+    for (const tokenAddress of tokenAddresses) {
+      const simToken = sim.addToken({
+        address: tokenAddress,
+        transferFeeBps: tokenAddress === feeToken ? transferFeeBps : 0n,
+      });
+      for (const account of accounts) {
+        simToken.mint(account, mintAmount);
+        simToken.approve(account, address, hre.ethers.MaxUint256);
+      }
+    }
+    return sim;
+  }
+
+  return { createSimulator, labels, accounts, tokenAddresses };
+}
+
+/**
+ * Liteswap with plain tokens A and B and a TestFeeOnTransferERC20 FEE, owner, user1
+ * and user2 funded with and approved for all three, see `differentialSetup`.
+ */
+export const deployDifferentialFixture = liteswapFixture(
+  {
+    tokens: {
+      A: { name: "Token A", symbol: "TKNA" },
+      B: { name: "Token B", symbol: "TKNB" },
+      FEE: { feeOnTransfer: true },
+    },
+    users: ["owner", "user1", "user2"],
+    mint: MINT,
+  },
+  differentialSetup
+);
+
+export async function runOnChain(
+  liteswap: LiteswapFixture["liteswap"],
+  users: Record<string, HardhatEthersSigner>,
+  op: LiteswapOp
+): Promise<OpOutcome> {
+  const sender = Object.values(users).find((user) => user.address.toLowerCase() === op.sender.toLowerCase());
+  if (!sender) throw new Error(`No signer for ${op.sender}`);
+  try {
+    const tx = await (liteswap.connect(sender) as BaseContract).getFunction(op.method)(...op.args);
+    return { events: withoutLogIndex(parseLiteswapReceipt(await tx.wait()).events) };
+  } catch (err) {
+    const decoded = decodeLiteswapError(err);
+    if (!decoded) throw err;
+    return { revert: decoded.data };
+  }
+}
+
+/**
+ * Asserts the simulator holds the contract's pairs, positions, orders and token balances.
+ */
+export async function expectSameState(
+  liteswap: LiteswapFixture["liteswap"],
+  sim: LiteswapSimulator,
+  tokens: LiteswapFixture["tokens"],
+  users: Record<string, HardhatEthersSigner>
+) {
+  const signers = Object.values(users);
+  const client = new LiteswapClient(await liteswap.getAddress(), signers[0]);
+  const pairs = await client.getPairs();
+  expect(sim.getPairs(), "pairs").to.deep.equal(pairs);
+  for (const pair of pairs) {
+    for (const user of signers) {
+      const position = await client.getPosition(pair.pairId, user);
+      expect(sim.getPosition(pair.pairId, user.address), `position ${pair.pairId} ${user.address}`).to.deep.equal(position);
+    }
+    const orderCount = await liteswap._orderIdCounter(pair.pairId);
+    expect(sim.orderCount(pair.pairId), `order count ${pair.pairId}`).to.equal(orderCount);
+    for (let orderId = 0n; orderId < orderCount; orderId++) {
+      const order = await client.getLimitOrder(pair.pairId, orderId);
+      expect(sim.getLimitOrder(pair.pairId, orderId), `order ${pair.pairId}/${orderId}`).to.deep.equal(order);
+    }
+  }
+  for (const token of Object.values(tokens)) {
+    const simToken = sim.token(await token.getAddress());
+    for (const account of [...signers.map((user) => user.address), await liteswap.getAddress()]) {
+      const balance = await token.balanceOf(account);
+      expect(simToken.balanceOf(account), `${simToken.address} balance of ${account}`).to.equal(balance);
+    }
+  }
+}
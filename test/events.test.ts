@@ -0,0 +1,53 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { parseLiteswapReceipt } from "../sdk";
+import { AB_TOKENS, liteswapFixture } from "./fixtures";
+
+describe("parseLiteswapReceipt", function () {
+  const deployFixture = liteswapFixture(
+    { tokens: AB_TOKENS, users: ["owner", "user1"] },
+    async function eventsFixture({ tokens, users }) {
+      return { tokenA: tokens.A, tokenB: tokens.B, owner: users.owner, user1: users.user1 };
+    }
+  );
+
+  it("Should decode every Liteswap event of a transaction in log order", async function () {
+    const { liteswap, tokenA, tokenB, owner } = await loadFixture(deployFixture);
+    const amount = hre.ethers.parseEther("1000");
+
+    const tx = await liteswap.initializePair(await tokenA.getAddress(), await tokenB.getAddress(), amount, amount);
+    const parsed = parseLiteswapReceipt(await tx.wait(), await liteswap.getAddress());
+
+    // ERC20 Transfer logs are skipped
+    expect(parsed.events.map((event) => event.name)).to.deep.equal([
+      "PairInitialized",
+      "LiquidityAdded",
+      "ReservesUpdated",
+    ]);
+    expect(parsed.pairId).to.equal(1n);
+    expect(parsed.mintedShares).to.equal(amount);
+    expect(parsed.get("LiquidityAdded").liquidityProvider).to.equal(owner.address);
+    const { tokenA: token0 } = parsed.get("PairInitialized");
+    expect(token0).to.equal(hre.ethers.getAddress(token0.toLowerCase()));
+  });
+
+  it("Should expose swap output and placed order ids", async function () {
+    const { liteswap, tokenA, tokenB, user1 } = await loadFixture(deployFixture);
+    const amount = hre.ethers.parseEther("1000");
+    await liteswap.initializePair(await tokenA.getAddress(), await tokenB.getAddress(), amount, amount);
+
+    const balanceBefore = await tokenB.balanceOf(user1.address);
+    const swapTx = await liteswap.connect(user1).swap(1, await tokenA.getAddress(), hre.ethers.parseEther("10"), 0);
+    const swapped = parseLiteswapReceipt(await swapTx.wait());
+    expect(await tokenB.balanceOf(user1.address)).to.equal(balanceBefore + swapped.swapOutput);
+
+    const orderTx = await liteswap
+      .connect(user1)
+      .placeLimitOrder(1, await tokenA.getAddress(), hre.ethers.parseEther("10"), hre.ethers.parseEther("20"));
+    const placed = parseLiteswapReceipt(await orderTx.wait());
+    expect(placed.placedOrderId).to.equal(0n);
+    expect(placed.get("LimitOrderPlaced").maker).to.equal(user1.address);
+    expect(() => placed.swapOutput).to.throw("Swap event not found");
+  });
+});
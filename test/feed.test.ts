@@ -0,0 +1,244 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { WebSocket } from "ws";
+import {
+  BookLevelUpdate,
+  BookSnapshot,
+  FeedMessage,
+  FeedSnapshot,
+  FeedUpdate,
+  LiquidityEvent,
+  LiteswapApiServer,
+  LiteswapFeed,
+  PairView,
+  PositionView,
+} from "../api";
+import { LiteswapClient } from "../sdk";
+import { IndexedSwap, IndexerStore, LiteswapIndexer } from "../sdk/indexer";
+import { AB_TOKENS, liteswapFixture } from "./fixtures";
+
+// A feed message as JSON.parse returns it, bigints arrive as decimal strings
+type Wire<T> = T extends bigint ? string : T extends object ? { [K in keyof T]: Wire<T[K]> } : T;
+type FeedError = Extract<FeedMessage, { type: "error" }>;
+
+describe("LiteswapFeed", function () {
+  const deployFixture = liteswapFixture(
+    {
+      tokens: AB_TOKENS,
+      users: ["owner", "user1", "user2"],
+      pairs: [{ tokens: ["A", "B"], reserves: ["10000", "10000"] }],
+    },
+    async function feedFixture({ client, pairs, users }) {
+      const { user1, user2 } = users;
+      const { pairId, tokenA: token0, tokenB: token1 } = pairs["A/B"];
+      const e = hre.ethers.parseEther;
+      await client.connect(user1).addLiquidity(pairId, e("2500"));
+      for (const amount of ["10", "20", "30"]) await client.connect(user2).swap(pairId, token0, e(amount));
+      const ask = await client.connect(user1).placeLimitOrder(pairId, token0, e("100"), e("110"));
+      return { pairId, token0, token1, ask, user1, user2 };
+    }
+  );
+
+  async function serve(client: LiteswapClient) {
+    const store = new IndexerStore();
+    const indexer = new LiteswapIndexer(hre.ethers.provider, await client.getAddress(), store);
+    await indexer.sync();
+    const server = new LiteswapApiServer(store);
+    const feed = new LiteswapFeed(store, server.server);
+    const url = (await server.listen()).replace(/^http/, "ws") + feed.options.path;
+    const close = async () => {
+      await feed.close();
+      await server.close();
+    };
+    return { indexer, url, close };
+  }
+
+  // Connects a client that queues what the feed sends, `next` waits up to two seconds for a message of type T
+  async function connect(url: string) {
+    const socket = new WebSocket(url);
+    const received: Wire<FeedMessage>[] = [];
+    socket.on("message", (data) => received.push(JSON.parse(data.toString())));
+    await new Promise((resolve, reject) => socket.once("open", resolve).once("error", reject));
+    const send = (op: string, ...channels: string[]) => socket.send(JSON.stringify({ op, channels }));
+    const next = async <T extends FeedMessage = FeedMessage>() => {
+      const deadline = Date.now() + 2000;
+      while (received.length === 0) {
+        if (Date.now() > deadline) throw new Error("No feed message within 2s");
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      return received.shift() as Wire<T>;
+    };
+    return { socket, send, next, received };
+  }
+
+  it("Should send snapshots on subscribe and sequenced trade, ticker and LP updates", async function () {
+    const { client, pairId, token0, user1, user2 } = await loadFixture(deployFixture);
+    const { indexer, url, close } = await serve(client);
+    try {
+      const feed = await connect(url);
+      feed.send("subscribe", "trades:1", "ticker:1", "liquidity:1");
+      const trades = await feed.next<FeedSnapshot<IndexedSwap[]>>();
+      const ticker = await feed.next<FeedSnapshot<PairView>>();
+      const liquidity = await feed.next<FeedSnapshot<PositionView[]>>();
+      expect(trades).to.deep.include({ type: "snapshot", channel: "trades:1", seq: 0, reason: "subscribe" });
+      expect(trades.blockNumber).to.equal(await hre.ethers.provider.getBlockNumber());
+      expect(trades.data.map((trade) => trade.amountIn)).to.deep.equal(
+        ["10", "20", "30"].map((amount) => hre.ethers.parseEther(amount).toString())
+      );
+      expect(ticker.data.reserveA).to.equal((await client.getPair(pairId)).reserveA.toString());
+      expect(liquidity.data.length).to.equal(2);
+
+      await client.connect(user2).swap(pairId, token0, hre.ethers.parseEther("40"));
+      const added = await client.connect(user1).addLiquidity(pairId, hre.ethers.parseEther("5"));
+      await indexer.sync();
+      const trade = await feed.next<FeedUpdate<IndexedSwap>>();
+      expect(trade).to.deep.include({ type: "update", channel: "trades:1", seq: 1 });
+      expect(trade.data).to.deep.include({ user: user2.address, amountIn: hre.ethers.parseEther("40").toString() });
+      const lp = await feed.next<FeedUpdate<LiquidityEvent>>();
+      expect(lp).to.deep.include({ channel: "liquidity:1", seq: 1 });
+      expect(lp.data).to.deep.include({ kind: "added", provider: user1.address, shares: added.shares.toString() });
+      // One ticker per indexed batch with the reserves after it
+      const tick = await feed.next<FeedUpdate<PairView>>();
+      expect(tick).to.deep.include({ channel: "ticker:1", seq: 1 });
+      const pair = await client.getPair(pairId);
+      expect([tick.data.reserveA, tick.data.totalShares]).to.deep.equal([
+        pair.reserveA.toString(),
+        pair.totalShares.toString(),
+      ]);
+
+      feed.send("unsubscribe", "trades:1");
+      expect(await feed.next()).to.deep.equal({ type: "unsubscribed", channel: "trades:1" });
+      await client.connect(user2).swap(pairId, token0, hre.ethers.parseEther("1"));
+      await indexer.sync();
+      expect(await feed.next()).to.deep.include({ channel: "ticker:1", seq: 2 });
+      feed.socket.send(JSON.stringify({ op: "ping" }));
+      expect(await feed.next()).to.deep.equal({ type: "pong" });
+      feed.socket.close();
+    } finally {
+      await close();
+    }
+  });
+
+  it("Should publish L2 book deltas that rebuild the resync snapshot", async function () {
+    const { client, pairId, token0, token1, ask, user1, user2 } = await loadFixture(deployFixture);
+    const { indexer, url, close } = await serve(client);
+    try {
+      const feed = await connect(url);
+      feed.send("subscribe", "book:1");
+      const snapshot = await feed.next<FeedSnapshot<BookSnapshot>>();
+      expect(snapshot.data.asks).to.deep.equal([
+        {
+          side: "asks",
+          quotePrice: hre.ethers.parseEther("1.1").toString(),
+          offerAmount: hre.ethers.parseEther("100").toString(),
+          desiredAmount: hre.ethers.parseEther("110").toString(),
+          orders: 1,
+        },
+      ]);
+
+      // Apply every delta to a local copy of the book, removing levels without orders
+      const book = new Map<string, Wire<BookLevelUpdate>>();
+      const key = (level: { side: string; quotePrice: string }) => `${level.side}:${level.quotePrice}`;
+      for (const level of [...snapshot.data.asks, ...snapshot.data.bids]) book.set(key(level), level);
+      const apply = async (seq: number) => {
+        const update = await feed.next<FeedUpdate<BookLevelUpdate[]>>();
+        expect(update).to.deep.include({ type: "update", channel: "book:1", seq });
+        for (const level of update.data) {
+          if (level.orders === 0) book.delete(key(level));
+          else book.set(key(level), level);
+        }
+        return update.data;
+      };
+
+      const e = hre.ethers.parseEther;
+      const second = await client.connect(user2).placeLimitOrder(pairId, token0, e("50"), e("55"));
+      await indexer.sync();
+      expect((await apply(1))[0]).to.deep.include({ offerAmount: e("150").toString(), orders: 2 });
+      await client.connect(user1).cancelLimitOrder(pairId, ask.orderId);
+      await client.connect(user2).placeLimitOrder(pairId, token1, e("20"), e("21"));
+      await indexer.sync();
+      await apply(2);
+      await client.connect(user2).cancelLimitOrder(pairId, second.orderId);
+      await indexer.sync();
+      const removed = { ...snapshot.data.asks[0], offerAmount: "0", desiredAmount: "0", orders: 0 };
+      expect(await apply(3)).to.deep.equal([removed]);
+
+      feed.send("resync", "book:1");
+      const resync = await feed.next<FeedSnapshot<BookSnapshot>>();
+      expect(resync).to.deep.include({ type: "snapshot", seq: 3, reason: "resync" });
+      expect(resync.data.asks).to.deep.equal([]);
+      expect(resync.data.bids).to.deep.equal([...book.values()]);
+
+      feed.send("subscribe", "candles:1", "book:9");
+      expect((await feed.next<FeedError>()).message).to.match(/^Unknown channel "candles:1"/);
+      expect(await feed.next()).to.deep.equal({ type: "error", channel: "book:9", message: "Pair 9 does not exist" });
+      feed.send("resync", "ticker:1");
+      expect((await feed.next<FeedError>()).message).to.equal("Not subscribed to ticker:1");
+      feed.socket.close();
+    } finally {
+      await close();
+    }
+  });
+
+  it("Should replace subscribers' state with a snapshot after a reorg", async function () {
+    const { client, pairId, token0, token1, user1, user2 } = await loadFixture(deployFixture);
+    const { indexer, url, close } = await serve(client);
+    try {
+      const feed = await connect(url);
+      feed.send("subscribe", "trades:1", "ticker:1");
+      await feed.next();
+      await feed.next();
+
+      // Publish a trade on a branch, then revert it and mine a different, longer one
+      const snapshot = await hre.network.provider.send("evm_snapshot");
+      await client.connect(user1).swap(pairId, token0, hre.ethers.parseEther("100"));
+      await indexer.sync();
+      expect((await feed.next<FeedUpdate<IndexedSwap>>()).data.user).to.equal(user1.address);
+      expect(await feed.next()).to.deep.include({ channel: "ticker:1", seq: 1 });
+      await hre.network.provider.send("evm_revert", [snapshot]);
+      await client.connect(user2).swap(pairId, token1, hre.ethers.parseEther("7"));
+
+      const result = await indexer.sync();
+      expect(result.reorged).to.equal(true);
+      const trades = await feed.next<FeedSnapshot<IndexedSwap[]>>();
+      expect(trades).to.deep.include({ type: "snapshot", channel: "trades:1", seq: 2, reason: "reorg" });
+      expect(trades.data.map((trade) => trade.user)).to.not.include(user1.address);
+      expect(await feed.next()).to.deep.include({ type: "snapshot", channel: "ticker:1", seq: 2, reason: "reorg" });
+      const replayed = await feed.next<FeedUpdate<IndexedSwap>>();
+      expect(replayed).to.deep.include({ type: "update", channel: "trades:1", seq: 3 });
+      expect(replayed.data.user).to.equal(user2.address);
+      const tick = await feed.next<FeedUpdate<PairView>>();
+      expect(tick).to.deep.include({ channel: "ticker:1", seq: 3 });
+      expect(tick.data.reserveB).to.equal((await client.getPair(pairId)).reserveB.toString());
+
+      // A reorg that removes a subscribed pair unsubscribes its channel, and the sync carries on
+      const e = hre.ethers.parseEther;
+      const branch = await hre.network.provider.send("evm_snapshot");
+      const TokenFactory = await hre.ethers.getContractFactory("TestERC20");
+      const tokenC = await (await TokenFactory.deploy("Token C", "TKNC")).waitForDeployment();
+      await tokenC.mint(user1.address, e("100"));
+      const dropped = await client.connect(user1).initializePair(tokenC, token0, e("100"), e("100"));
+      await indexer.sync();
+      feed.send("subscribe", `book:${dropped.pairId}`);
+      expect(await feed.next()).to.deep.include({ type: "snapshot", channel: `book:${dropped.pairId}` });
+      await hre.network.provider.send("evm_revert", [branch]);
+      await client.connect(user2).swap(pairId, token1, e("1"));
+
+      expect((await indexer.sync()).reorged).to.equal(true);
+      expect(await feed.next()).to.deep.include({ channel: "trades:1", seq: 4, reason: "reorg" });
+      expect(await feed.next()).to.deep.include({ channel: "ticker:1", seq: 4, reason: "reorg" });
+      expect(await feed.next()).to.deep.equal({
+        type: "error",
+        channel: `book:${dropped.pairId}`,
+        message: `Pair ${dropped.pairId} does not exist`,
+      });
+      expect(await feed.next()).to.deep.equal({ type: "unsubscribed", channel: `book:${dropped.pairId}` });
+      expect(await feed.next()).to.deep.include({ type: "update", channel: "trades:1", seq: 5 });
+      expect(await feed.next()).to.deep.include({ type: "update", channel: "ticker:1", seq: 5 });
+      feed.socket.close();
+    } finally {
+      await close();
+    }
+  });
+});
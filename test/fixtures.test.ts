@@ -0,0 +1,107 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { Pair, TEST_TRANSFER_FEE_BPS } from "../sdk";
+import { FixtureSpec, liteswapFixture } from "./fixtures";
+import { scenario } from "./scenario";
+
+describe("Fixtures", function () {
+  const deployTokens = liteswapFixture({
+    tokens: { WETH: {}, USDC: { name: "USD Coin", decimals: 6 }, TAX: { feeOnTransfer: true } },
+    users: ["owner", "trader"],
+    mint: "500",
+  });
+
+  const deployMarket = liteswapFixture({
+    tokens: { USDC: { decimals: 6 }, TAX: { feeOnTransfer: true } },
+    faucet: true,
+    users: ["owner", "maker"],
+    pairs: [
+      { tokens: ["GOLD", "USDC"], reserves: ["1000", "2000"] },
+      { tokens: ["TAX", "SILVER"], reserves: ["1000", "1000"], provider: "maker" },
+    ],
+    orders: [{ pair: "GOLD/USDC", maker: "maker", offerToken: "GOLD", offerAmount: "10", desiredAmount: "25" }],
+  });
+
+  // Reserves by token address, whichever way the pair sorted its tokens
+  const reserves = (pair: Pair) => ({ [pair.tokenA]: pair.reserveA, [pair.tokenB]: pair.reserveB });
+
+  it("Should deploy tokens with their decimals and fee-on-transfer, minted and approved for every user", async function () {
+    const { liteswap, tokens, decimals, users } = await loadFixture(deployTokens);
+    expect(Object.keys(tokens)).to.deep.equal(["WETH", "USDC", "TAX"]);
+    expect(Object.keys(users)).to.deep.equal(["owner", "trader"]);
+    expect(await tokens.USDC.decimals()).to.equal(6n);
+    expect(decimals).to.deep.equal({ WETH: 18, USDC: 6, TAX: 18 });
+    expect(await tokens.USDC.name()).to.equal("USD Coin");
+    expect(await tokens.WETH.symbol()).to.equal("WETH");
+
+    const address = await liteswap.getAddress();
+    for (const user of Object.values(users)) {
+      expect(await tokens.USDC.balanceOf(user.address)).to.equal(500n * 10n ** 6n);
+      expect(await tokens.WETH.balanceOf(user.address)).to.equal(hre.ethers.parseEther("500"));
+      expect(await tokens.TAX.allowance(user.address, address)).to.equal(hre.ethers.MaxUint256);
+    }
+    await tokens.TAX.connect(users.trader).transfer(users.owner.address, hre.ethers.parseEther("100"));
+    const received = hre.ethers.parseEther("100") - (hre.ethers.parseEther("100") * TEST_TRANSFER_FEE_BPS) / 10000n;
+    expect(await tokens.TAX.balanceOf(users.owner.address)).to.equal(hre.ethers.parseEther("500") + received);
+  });
+
+  it("Should seed the faucet tokens, pairs and limit orders, and plug into scenarios", async function () {
+    const fixture = await loadFixture(deployMarket);
+    const { faucet, tokens, addresses, users, pairs, orders, client } = fixture;
+    expect(Object.keys(tokens)).to.deep.equal(["USDC", "TAX", "GOLD", "SILVER", "BRONZE", "COPPER", "IRON"]);
+    expect(addresses.GOLD).to.equal(await faucet!.GOLD());
+    expect(await tokens.IRON.balanceOf(users.maker.address)).to.equal(hre.ethers.parseEther("10000000"));
+
+    expect(Object.keys(pairs)).to.deep.equal(["GOLD/USDC", "TAX/SILVER"]);
+    expect(reserves(pairs["GOLD/USDC"])).to.deep.equal({
+      [addresses.GOLD]: hre.ethers.parseEther("1000"),
+      [addresses.USDC]: 2000n * 10n ** 6n,
+    });
+    // The fee is taken on the way into the pool
+    expect(reserves(pairs["TAX/SILVER"])[addresses.TAX]).to.equal(hre.ethers.parseEther("900"));
+    expect((await client.getPosition(pairs["TAX/SILVER"].pairId, users.maker)).shares).to.not.equal(0n);
+
+    expect(orders).to.have.length(1);
+    expect(orders[0]).to.deep.include({
+      pair: "GOLD/USDC",
+      pairId: pairs["GOLD/USDC"].pairId,
+      maker: "maker",
+      orderId: 0n,
+      offerToken: addresses.GOLD,
+      desiredToken: addresses.USDC,
+      offerAmount: hre.ethers.parseEther("10"),
+      desiredAmount: 25n * 10n ** 6n,
+    });
+
+    await scenario(fixture)
+      .usePair(pairs["GOLD/USDC"].pairId)
+      .fill(0n, "25")
+      .expectBalanceChange("owner", "GOLD", "10")
+      .expectOrder(0n, { active: false })
+      .run();
+  });
+
+  it("Should cache equal specs as one fixture and reject specs it cannot deploy", async function () {
+    const spec = {
+      tokens: { WETH: {}, USDC: { name: "USD Coin", decimals: 6 }, TAX: { feeOnTransfer: true } },
+      users: ["owner", "trader"],
+      mint: "500",
+    };
+    expect(liteswapFixture(spec)).to.equal(deployTokens);
+    expect(liteswapFixture({ mint: 500n })).to.not.equal(liteswapFixture({ mint: "500" }));
+
+    const { tokens, users } = await loadFixture(deployTokens);
+    await tokens.WETH.mint(users.owner.address, 1n);
+    const reloaded = await loadFixture(deployTokens);
+    expect(await reloaded.tokens.WETH.balanceOf(users.owner.address)).to.equal(hre.ethers.parseEther("500"));
+
+    const rejected = async (invalid: FixtureSpec) =>
+      ((await liteswapFixture(invalid)().catch((err: unknown) => err)) as Error).message;
+    expect(await rejected({ tokens: { TAX: { feeOnTransfer: true, decimals: 6 } } })).to.equal(
+      "Token TAX: TestFeeOnTransferERC20 only has 18 decimals"
+    );
+    expect(await rejected({ faucet: true, tokens: { GOLD: {} } })).to.equal("Token GOLD clashes with the faucet token");
+    expect(await rejected({ pairs: [{ tokens: ["A", "B"], reserves: ["1", "1"] }] })).to.equal('Unknown token "A"');
+  });
+});
@@ -0,0 +1,235 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import hre from "hardhat";
+import { LiteswapClient, Pair, PlaceLimitOrderResult, parseTokenAmount } from "../sdk";
+
+// Declarative fixtures for suites that need more than two plain tokens, see `liteswapFixture`
+
+// Whole tokens as a decimal string, or base units as a bigint
+export type FixtureAmount = string | bigint;
+
+export interface FixtureTokenSpec {
+  // Both default to the label
+  name?: string;
+  symbol?: string;
+  // 18 by default, any other value deploys a TestDecimalsERC20
+  decimals?: number;
+  // Deploys a TestFeeOnTransferERC20, which only comes with 18 decimals
+  feeOnTransfer?: boolean;
+}
+
+export interface FixturePairSpec {
+  // Token labels, the pair is keyed "<tokenA>/<tokenB>" in this order
+  tokens: [string, string];
+  // Sent by the provider, fee-on-transfer tokens reach the pool with the fee taken
+  reserves: [FixtureAmount, FixtureAmount];
+  // User label, the first user by default
+  provider?: string;
+}
+
+export interface FixtureOrderSpec {
+  // Key of a pair from `pairs`
+  pair: string;
+  maker: string;
+  offerToken: string;
+  offerAmount: FixtureAmount;
+  // In the other token of the pair
+  desiredAmount: FixtureAmount;
+}
+
+export interface FixtureSpec {
+  // By label, their addresses sort in this order
+  tokens?: Record<string, FixtureTokenSpec>;
+  // Deploys TestERC20Factory and claims its faucet for every user, its tokens are labelled GOLD, SILVER,
+  // BRONZE, COPPER and IRON
+  faucet?: boolean;
+  // Labels of the first Hardhat signers, owner, user1, user2 and user3 by default
+  users?: string[];
+  // Minted to every user in each token of `tokens`, 1000000 whole tokens by default
+  mint?: FixtureAmount;
+  // Every user approves Liteswap for MaxUint256 of every token, true by default
+  approve?: boolean;
+  pairs?: FixturePairSpec[];
+  orders?: FixtureOrderSpec[];
+}
+
+export interface FixtureOrder extends PlaceLimitOrderResult {
+  pair: string;
+  pairId: bigint;
+  maker: string;
+}
+
+export type LiteswapFixture = Awaited<ReturnType<typeof deployLiteswap>>;
+
+// Seeds what the spec cannot express, its result is merged into the fixture
+export type FixtureSetup<T extends object> = (fixture: LiteswapFixture) => Promise<T>;
+
+// Token A and Token B, the plain pair most suites trade
+export const AB_TOKENS: Record<string, FixtureTokenSpec> = {
+  A: { name: "Token A", symbol: "TKNA" },
+  B: { name: "Token B", symbol: "TKNB" },
+};
+
+const FAUCET_TOKENS = ["GOLD", "SILVER", "BRONZE", "COPPER", "IRON"] as const;
+const DEFAULT_USERS = ["owner", "user1", "user2", "user3"];
+
+// By spec, then by setup
+const fixtures = new Map<string, Map<FixtureSetup<object> | undefined, () => Promise<LiteswapFixture>>>();
+
+/**
+ * A loadFixture-ready function deploying Liteswap with the tokens, funded users,
+ * pairs and limit orders of `spec`, then running `setup` on the result. Equal
+ * specs with the same setup return the same function, so suites and helpers
+ * sharing them share one snapshot instead of redeploying. The result also fits
+ * `scenario()` from ./scenario.
+ */
+export function liteswapFixture<T extends object = Record<never, never>>(
+  spec: FixtureSpec,
+  setup?: FixtureSetup<T>
+): () => Promise<LiteswapFixture & T> {
+  const key = JSON.stringify(spec, (_, value) => (typeof value === "bigint" ? `${value}n` : value));
+  let bySetup = fixtures.get(key);
+  if (!bySetup) fixtures.set(key, (bySetup = new Map()));
+  let fixture = bySetup.get(setup);
+  if (!fixture) {
+    // loadFixture rejects anonymous functions
+    fixture = async function deployLiteswapFixture() {
+      const deployed = await deployLiteswap(spec);
+      return setup ? { ...deployed, ...(await setup(deployed)) } : deployed;
+    };
+    bySetup.set(setup, fixture);
+  }
+  return fixture as () => Promise<LiteswapFixture & T>;
+}
+
+function toBaseUnits(amount: FixtureAmount, decimals: number): bigint {
+  return typeof amount === "bigint" ? amount : parseTokenAmount(amount, decimals);
+}
+
+async function deployToken(label: string, spec: FixtureTokenSpec) {
+  const name = spec.name ?? label;
+  const symbol = spec.symbol ?? label;
+  const decimals = spec.decimals ?? 18;
+  if (spec.feeOnTransfer) {
+    if (decimals !== 18) throw new Error(`Token ${label}: TestFeeOnTransferERC20 only has 18 decimals`);
+    const factory = await hre.ethers.getContractFactory("TestFeeOnTransferERC20");
+    return (await factory.deploy(name, symbol)).waitForDeployment();
+  }
+  if (decimals !== 18) {
+    const factory = await hre.ethers.getContractFactory("TestDecimalsERC20");
+    return (await factory.deploy(name, symbol, decimals)).waitForDeployment();
+  }
+  const factory = await hre.ethers.getContractFactory("TestERC20");
+  return (await factory.deploy(name, symbol)).waitForDeployment();
+}
+
+async function deployLiteswap(spec: FixtureSpec) {
+  const labels = spec.users ?? DEFAULT_USERS;
+  const signers = await hre.ethers.getSigners();
+  if (labels.length > signers.length) throw new Error(`Only ${signers.length} signers for ${labels.length} users`);
+  const users: Record<string, HardhatEthersSigner> = {};
+  labels.forEach((label, i) => (users[label] = signers[i]));
+  const user = (label: string) => {
+    if (!users[label]) throw new Error(`Unknown user "${label}"`);
+    return users[label];
+  };
+
+  const tokens: Record<string, Awaited<ReturnType<typeof deployToken | typeof faucetToken>>> = {};
+  const decimals: Record<string, number> = {};
+  const tokenSpecs = Object.entries(spec.tokens ?? {});
+  // Each label takes the nonce whose address ranks like the label does, so addresses sort in label order
+  // wherever the fixture runs and every pair has its first label as tokenA
+  const nonce = await signers[0].getNonce();
+  const slots = tokenSpecs.map((_, i) => hre.ethers.getCreateAddress({ from: signers[0].address, nonce: nonce + i }));
+  const ranked = [...slots].sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1));
+  const deployed = new Map<string, Awaited<ReturnType<typeof deployToken>>>();
+  for (const slot of slots) {
+    const [label, tokenSpec] = tokenSpecs[ranked.indexOf(slot)];
+    deployed.set(label, await deployToken(label, tokenSpec));
+  }
+  for (const [label, tokenSpec] of tokenSpecs) {
+    tokens[label] = deployed.get(label)!;
+    decimals[label] = tokenSpec.decimals ?? 18;
+  }
+  for (const [label, token] of Object.entries(tokens)) {
+    const amount = toBaseUnits(spec.mint ?? "1000000", decimals[label]);
+    for (const signer of Object.values(users)) await token.mint(signer.address, amount);
+  }
+
+  let faucet: Awaited<ReturnType<typeof deployFaucet>> | undefined;
+  if (spec.faucet) {
+    faucet = await deployFaucet();
+    for (const label of FAUCET_TOKENS) {
+      if (tokens[label]) throw new Error(`Token ${label} clashes with the faucet token`);
+      tokens[label] = await faucetToken(await faucet[label]());
+      decimals[label] = 18;
+    }
+    for (const label of labels) await faucet.connect(users[label]).faucet();
+  }
+
+  const LiteswapFactory = await hre.ethers.getContractFactory("Liteswap");
+  const liteswap = await (await LiteswapFactory.deploy()).waitForDeployment();
+  const address = await liteswap.getAddress();
+
+  const addresses: Record<string, string> = {};
+  for (const [label, token] of Object.entries(tokens)) addresses[label] = await token.getAddress();
+  const token = (label: string) => {
+    if (!addresses[label]) throw new Error(`Unknown token "${label}"`);
+    return addresses[label];
+  };
+  if (spec.approve ?? true) {
+    for (const label of labels) {
+      for (const contract of Object.values(tokens)) {
+        await contract.connect(users[label]).approve(address, hre.ethers.MaxUint256);
+      }
+    }
+  }
+
+  // Without `approve` the client sets exact allowances for what the seeding spends
+  const client = new LiteswapClient(address, signers[0]);
+  const pairs: Record<string, Pair> = {};
+  for (const pairSpec of spec.pairs ?? []) {
+    const [labelA, labelB] = pairSpec.tokens;
+    const key = `${labelA}/${labelB}`;
+    if (pairs[key]) throw new Error(`Pair ${key} is already initialized`);
+    const { pairId } = await client
+      .connect(user(pairSpec.provider ?? labels[0]))
+      .initializePair(
+        token(labelA),
+        token(labelB),
+        toBaseUnits(pairSpec.reserves[0], decimals[labelA]),
+        toBaseUnits(pairSpec.reserves[1], decimals[labelB])
+      );
+    pairs[key] = await client.getPair(pairId);
+  }
+
+  const orders: FixtureOrder[] = [];
+  for (const orderSpec of spec.orders ?? []) {
+    const pair = pairs[orderSpec.pair];
+    if (!pair) throw new Error(`Unknown pair "${orderSpec.pair}"`);
+    const [labelA, labelB] = orderSpec.pair.split("/");
+    if (orderSpec.offerToken !== labelA && orderSpec.offerToken !== labelB) {
+      throw new Error(`Token ${orderSpec.offerToken} is not in pair ${orderSpec.pair}`);
+    }
+    const desiredToken = orderSpec.offerToken === labelA ? labelB : labelA;
+    const placed = await client
+      .connect(user(orderSpec.maker))
+      .placeLimitOrder(
+        pair.pairId,
+        token(orderSpec.offerToken),
+        toBaseUnits(orderSpec.offerAmount, decimals[orderSpec.offerToken]),
+        toBaseUnits(orderSpec.desiredAmount, decimals[desiredToken])
+      );
+    orders.push({ pair: orderSpec.pair, pairId: pair.pairId, maker: orderSpec.maker, ...placed });
+  }
+
+  return { liteswap, client, faucet, tokens, addresses, decimals, users, pairs, orders };
+}
+
+async function deployFaucet() {
+  const factory = await hre.ethers.getContractFactory("TestERC20Factory");
+  return (await factory.deploy()).waitForDeployment();
+}
+
+async function faucetToken(address: string) {
+  return hre.ethers.getContractAt("TestERC20", address);
+}
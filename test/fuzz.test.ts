@@ -0,0 +1,71 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { FuzzFailure, LiteswapOp, applyOp, formatOp, fuzz, randomOps, shrinkOps } from "../sdk";
+import { deployDifferentialFixture, expectSameState, runOnChain } from "./differential";
+
+// FUZZ_SEED reproduces a reported failure, FUZZ_RUNS / FUZZ_LENGTH search longer
+const SEED = Number(process.env.FUZZ_SEED ?? 1);
+const RUNS = Number(process.env.FUZZ_RUNS ?? 8);
+const LENGTH = Number(process.env.FUZZ_LENGTH ?? 40);
+
+describe("Differential fuzzing", function () {
+  /**
+   * Replays `ops` on a fresh deployment and a fresh simulator, comparing every
+   * call's events or revert data and then the full state.
+   */
+  async function lockstep(ops: LiteswapOp[], transferFeeBps?: bigint) {
+    const { liteswap, createSimulator, tokens, users, labels } = await loadFixture(deployDifferentialFixture);
+    const sim = createSimulator(transferFeeBps);
+    for (const [i, op] of ops.entries()) {
+      const onChain = await runOnChain(liteswap, users, op);
+      expect(applyOp(sim, op), `call ${i} ${formatOp(op, labels)}`).to.deep.equal(onChain);
+    }
+    await expectSameState(liteswap, sim, tokens, users);
+  }
+
+  it("Should keep the contract and the simulator in lockstep on random call sequences", async function () {
+    const { createSimulator, tokenAddresses, accounts, labels } = await loadFixture(deployDifferentialFixture);
+    await fuzz(
+      (random) => randomOps(random, createSimulator(), accounts, tokenAddresses, LENGTH),
+      (ops) => lockstep(ops),
+      { seed: SEED, runs: RUNS, labels }
+    );
+  });
+
+  it("Should shrink a divergence to a minimal reproduction", async function () {
+    const { createSimulator, addresses, tokenAddresses, accounts, labels } =
+      await loadFixture(deployDifferentialFixture);
+    // A model that forgot the transfer fee: the first call that moves the fee token diverges
+    const failure = await fuzz(
+      (random) => randomOps(random, createSimulator(), accounts, tokenAddresses, 30),
+      (ops) => lockstep(ops, 0n),
+      { seed: SEED, runs: 20, labels }
+    ).catch((err: unknown) => err);
+
+    expect(failure).to.be.instanceOf(FuzzFailure);
+    const { ops, original, message } = failure as FuzzFailure;
+    expect(ops.length).to.be.lessThan(original.length);
+    expect(ops.length).to.be.lte(2);
+    expect(ops.some((op) => (op.args as unknown[]).includes(addresses.FEE))).to.equal(true);
+    expect(message).to.contain("FEE");
+
+    // The reproduction fails on its own and passes against the correct model
+    const reproduces = await lockstep(ops, 0n).then(
+      () => false,
+      () => true
+    );
+    expect(reproduces).to.equal(true);
+    await lockstep(ops);
+  });
+
+  it("Should shrink every amount of a call from the latest accepted version of it", async function () {
+    const ops: LiteswapOp[] = [{ sender: "maker", method: "initializePair", args: ["A", "B", 1000n, 1000n] }];
+    // Fails while the call is kept with both amounts at 10 or more
+    const fails = async ([op]: LiteswapOp[]) =>
+      op !== undefined && (op.args[2] as bigint) >= 10n && (op.args[3] as bigint) >= 10n;
+
+    // One attempt to drop the call, then two passes of three per amount
+    const [shrunk] = await shrinkOps(ops, fails, 13);
+    expect(shrunk.args.slice(2)).to.deep.equal([250n, 250n]);
+  });
+});
@@ -0,0 +1,90 @@
+import { expect } from "chai";
+import fs from "fs";
+import {
+  DEFAULT_GAS_THRESHOLD_BPS,
+  GAS_BASELINE,
+  GasCompiler,
+  GasReport,
+  compareGas,
+  formatGasDiff,
+  gasCompiler,
+  measureGas,
+  readGasBaseline,
+  writeGasBaseline,
+} from "./gas";
+
+const OPERATIONS = [
+  "initializePair",
+  "addLiquidity",
+  "removeLiquidity",
+  "swap A to B",
+  "swap B to A",
+  "placeLimitOrder",
+  "fillLimitOrder partial",
+  "fillLimitOrder full",
+  "cancelLimitOrder",
+];
+
+describe("Gas", function () {
+  let compiler: GasCompiler;
+  let report: GasReport;
+
+  before(async function () {
+    compiler = await gasCompiler();
+    report = await measureGas();
+  });
+
+  it("Should compare reports against the threshold and render a markdown table", function () {
+    const baseline = { swap: 50000, fill: 60000, cancel: 30000 };
+    const diffs = compareGas(baseline, { swap: 50999, fill: 61500, place: 90000 }, 200);
+    expect(diffs).to.deep.equal([
+      { operation: "swap", baseline: 50000, current: 50999, changeBps: 200, regressed: false },
+      { operation: "fill", baseline: 60000, current: 61500, changeBps: 250, regressed: true },
+      { operation: "place", baseline: undefined, current: 90000, regressed: false },
+      { operation: "cancel", baseline: 30000, current: undefined, regressed: false },
+    ]);
+    expect(formatGasDiff(diffs)).to.equal(
+      [
+        "| Operation | Baseline | Current | Change |",
+        "| --- | ---: | ---: | ---: |",
+        "| swap | 50000 | 50999 | +2.00% |",
+        "| fill | 60000 | 61500 | **+2.50%** |",
+        "| place | - | 90000 | new |",
+        "| cancel | 30000 | - | removed |",
+        "",
+      ].join("\n")
+    );
+    expect(compareGas(baseline, { swap: 45000 })[0]).to.deep.include({ changeBps: -1000, regressed: false });
+  });
+
+  it("Should measure every operation with and without fee-on-transfer tokens", function () {
+    const workloads = ["plain", "fee-on-transfer"];
+    expect(Object.keys(report)).to.deep.equal(
+      workloads.flatMap((workload) => OPERATIONS.map((operation) => `${workload}/${operation}`))
+    );
+    for (const gas of Object.values(report)) expect(gas).to.be.greaterThan(21000);
+    // The fee-on-transfer token pays its fee on every transfer it makes
+    expect(report["fee-on-transfer/swap A to B"]).to.be.greaterThan(report["plain/swap A to B"]);
+    expect(report["plain/fillLimitOrder partial"]).to.not.equal(report["plain/fillLimitOrder full"]);
+  });
+
+  it("Should not regress from the committed baseline", function () {
+    const exists = fs.existsSync(GAS_BASELINE);
+    expect(exists || !process.env.CI, `${GAS_BASELINE} is missing, CI never writes the baseline`).to.equal(true);
+    if (process.env.UPDATE_GAS_BASELINE) {
+      writeGasBaseline({ compiler, gas: report });
+      return;
+    }
+    expect(exists, `${GAS_BASELINE} is missing, rerun with UPDATE_GAS_BASELINE=1 to write it`).to.equal(true);
+    const baseline = readGasBaseline();
+    const settings = "Compiler settings differ from the ones the baseline was measured with, rebuild with them";
+    expect(compiler, `${settings} or rerun with UPDATE_GAS_BASELINE=1`).to.deep.equal(baseline.compiler);
+    const threshold = Number(process.env.GAS_THRESHOLD_BPS ?? DEFAULT_GAS_THRESHOLD_BPS);
+    const diffs = compareGas(baseline.gas, report, threshold);
+    const table = formatGasDiff(diffs);
+    if (process.env.GAS_REPORT) fs.writeFileSync(process.env.GAS_REPORT, table);
+    const regressed = diffs.filter((diff) => diff.regressed).map((diff) => diff.operation);
+    const message = `Gas over ${threshold} bps above the baseline, rerun with UPDATE_GAS_BASELINE=1 to accept`;
+    expect(regressed, `${message}:\n${table}`).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,155 @@
+import { reset } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { ContractTransactionResponse } from "ethers";
+import fs from "fs";
+import hre from "hardhat";
+import path from "path";
+import { FixtureTokenSpec, liteswapFixture } from "./fixtures";
+
+// Gas used by every Liteswap operation in a fixed workload, compared against a committed baseline
+
+// gasUsed by "<workload>/<operation>", in the order the workload sends them
+export type GasReport = Record<string, number>;
+
+// The solc build the numbers were measured on, gas only compares within one build
+export interface GasCompiler {
+  // Full solc version, commit included
+  version: string;
+  optimizer: { enabled?: boolean; runs?: number };
+  viaIR: boolean;
+  evmVersion?: string;
+}
+
+export interface GasBaseline {
+  compiler: GasCompiler;
+  gas: GasReport;
+}
+
+export interface GasDiff {
+  operation: string;
+  // Missing for operations the baseline does not have yet
+  baseline?: number;
+  // Missing for operations the workload no longer sends
+  current?: number;
+  // (current - baseline) / baseline in basis points, when both are known
+  changeBps?: number;
+  regressed: boolean;
+}
+
+export const GAS_BASELINE = path.join(__dirname, "gas-baseline.json");
+export const DEFAULT_GAS_THRESHOLD_BPS = 200;
+
+// Token A charges the transfer fee in the second workload, B never does
+const WORKLOADS: Record<string, Record<"A" | "B", FixtureTokenSpec>> = {
+  plain: { A: {}, B: {} },
+  "fee-on-transfer": { A: { feeOnTransfer: true }, B: {} },
+};
+
+async function gasUsed(tx: Promise<ContractTransactionResponse>): Promise<number> {
+  const receipt = await (await tx).wait();
+  return Number(receipt!.gasUsed);
+}
+
+/**
+ * Sends the standard workload to a fresh Liteswap per token setup and records the gasUsed of each operation. Approvals are
+ * MaxUint256 and sent beforehand, so they never count towards an operation.
+ * Each workload starts from a reset chain, so every run deploys to the same
+ * addresses whatever ran before it, and calldata costs the same. Resetting
+ * wipes the chain, so it only runs on the in-process `hardhat` network.
+ */
+export async function measureGas(): Promise<GasReport> {
+  if (hre.network.name !== "hardhat") {
+    throw new Error(`measureGas resets the chain, run it on the in-process hardhat network, not ${hre.network.name}`);
+  }
+  const report: GasReport = {};
+  const e = hre.ethers.parseEther;
+  for (const [workload, tokens] of Object.entries(WORKLOADS)) {
+    await reset();
+    const fixture = await liteswapFixture({ tokens, users: ["owner", "maker", "taker"] })();
+    const { liteswap, addresses } = fixture;
+    const { maker, taker } = fixture.users;
+    const measure = async (operation: string, tx: Promise<ContractTransactionResponse>) => {
+      report[`${workload}/${operation}`] = await gasUsed(tx);
+    };
+
+    await measure("initializePair", liteswap.initializePair(addresses.A, addresses.B, e("1000"), e("1000")));
+    const pairId = await liteswap.getPairId(addresses.A, addresses.B);
+    // amountA is in the pair's tokenA, which the fixture makes A
+    await measure("addLiquidity", liteswap.connect(maker).addLiquidity(pairId, e("100")));
+    const { shares } = await liteswap.liquidityProviderPositions(pairId, maker.address);
+    await measure("removeLiquidity", liteswap.connect(maker).removeLiquidity(pairId, shares / 2n));
+    await measure("swap A to B", liteswap.connect(taker).swap(pairId, addresses.A, e("10"), 0n));
+    await measure("swap B to A", liteswap.connect(taker).swap(pairId, addresses.B, e("10"), 0n));
+
+    await measure("placeLimitOrder", liteswap.connect(maker).placeLimitOrder(pairId, addresses.A, e("100"), e("200")));
+    await measure("fillLimitOrder partial", liteswap.connect(taker).fillLimitOrder(pairId, 0n, e("50")));
+    const { desiredAmount } = await liteswap.limitOrders(pairId, 0n);
+    await measure("fillLimitOrder full", liteswap.connect(taker).fillLimitOrder(pairId, 0n, desiredAmount));
+    await (await liteswap.connect(maker).placeLimitOrder(pairId, addresses.A, e("100"), e("200"))).wait();
+    await measure("cancelLimitOrder", liteswap.connect(maker).cancelLimitOrder(pairId, 1n));
+  }
+  return report;
+}
+
+/**
+ * Version and gas-relevant settings of the solc build Liteswap was compiled
+ * with, read from its build info rather than the Hardhat config.
+ */
+export async function gasCompiler(): Promise<GasCompiler> {
+  const { sourceName, contractName } = await hre.artifacts.readArtifact("Liteswap");
+  const buildInfo = await hre.artifacts.getBuildInfo(`${sourceName}:${contractName}`);
+  if (!buildInfo) throw new Error(`No build info for ${contractName}, compile it first`);
+  const { optimizer, viaIR, evmVersion } = buildInfo.input.settings;
+  return {
+    version: buildInfo.solcLongVersion,
+    optimizer: { enabled: optimizer.enabled, runs: optimizer.runs },
+    viaIR: viaIR === true,
+    evmVersion,
+  };
+}
+
+/**
+ * One diff per operation in either report, current ones first. An operation
+ * regresses when it costs more than `thresholdBps` over its baseline, added
+ * and dropped operations never do.
+ */
+export function compareGas(
+  baseline: GasReport,
+  current: GasReport,
+  thresholdBps: number = DEFAULT_GAS_THRESHOLD_BPS
+): GasDiff[] {
+  const operations = [...new Set([...Object.keys(current), ...Object.keys(baseline)])];
+  return operations.map((operation) => {
+    const before = baseline[operation];
+    const after = current[operation];
+    if (before === undefined || after === undefined) {
+      return { operation, baseline: before, current: after, regressed: false };
+    }
+    const changeBps = Math.round(((after - before) * 10000) / before);
+    return { operation, baseline: before, current: after, changeBps, regressed: changeBps > thresholdBps };
+  });
+}
+
+function formatChange(diff: GasDiff): string {
+  if (diff.baseline === undefined) return "new";
+  if (diff.current === undefined) return "removed";
+  const change = `${diff.changeBps! > 0 ? "+" : ""}${(diff.changeBps! / 100).toFixed(2)}%`;
+  return diff.regressed ? `**${change}**` : change;
+}
+
+/**
+ * Markdown table of `compareGas` output, regressions in bold.
+ */
+export function formatGasDiff(diffs: readonly GasDiff[]): string {
+  const rows = diffs.map(
+    (diff) => `| ${diff.operation} | ${diff.baseline ?? "-"} | ${diff.current ?? "-"} | ${formatChange(diff)} |`
+  );
+  return ["| Operation | Baseline | Current | Change |", "| --- | ---: | ---: | ---: |", ...rows].join("\n") + "\n";
+}
+
+export function readGasBaseline(file: string = GAS_BASELINE): GasBaseline {
+  return JSON.parse(fs.readFileSync(file, "utf8")) as GasBaseline;
+}
+
+export function writeGasBaseline(baseline: GasBaseline, file: string = GAS_BASELINE): void {
+  fs.writeFileSync(file, JSON.stringify(baseline, null, 2) + "\n");
+}
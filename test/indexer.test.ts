@@ -0,0 +1,130 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { LiteswapClient } from "../sdk";
+import { IndexerStore, LiteswapIndexer } from "../sdk/indexer";
+import { AB_TOKENS, liteswapFixture } from "./fixtures";
+
+describe("LiteswapIndexer", function () {
+  const deployFixture = liteswapFixture(
+    {
+      tokens: { ...AB_TOKENS, FEE: { name: "Fee Token", symbol: "FEE", feeOnTransfer: true } },
+      users: ["owner", "user1", "user2"],
+      approve: false,
+    },
+    async function indexerFixture({ tokens, users }) {
+      const { owner, user1, user2 } = users;
+      const signers = await hre.ethers.getSigners();
+      return { tokenA: tokens.A, tokenB: tokens.B, feeToken: tokens.FEE, signers, owner, user1, user2 };
+    }
+  );
+
+  // Runs a mix of every entry point across two pairs, one with a fee-on-transfer token
+  async function runWorkload(client: LiteswapClient, users: LiteswapClient[], tokens: string[]) {
+    const [tokenA, tokenB, feeToken] = tokens;
+    const amount = hre.ethers.parseEther("10000");
+    const { pairId } = await client.initializePair(tokenA, tokenB, amount, amount);
+    const { pairId: feePairId } = await client.initializePair(tokenA, feeToken, amount, amount);
+
+    await users[0].addLiquidity(pairId, hre.ethers.parseEther("500"));
+    await users[1].swap(pairId, tokenA, hre.ethers.parseEther("42"));
+    await users[1].swap(feePairId, feeToken, hre.ethers.parseEther("13"));
+
+    const order = await users[0].placeLimitOrder(
+      pairId,
+      tokenB,
+      hre.ethers.parseEther("100"),
+      hre.ethers.parseEther("250")
+    );
+    await users[1].fillLimitOrder(pairId, order.orderId, hre.ethers.parseEther("70"));
+    const feeOrder = await users[0].placeLimitOrder(
+      feePairId,
+      tokenA,
+      hre.ethers.parseEther("100"),
+      hre.ethers.parseEther("300")
+    );
+    await users[1].fillLimitOrder(feePairId, feeOrder.orderId, hre.ethers.parseEther("90"));
+    const cancelled = await users[1].placeLimitOrder(
+      pairId,
+      tokenA,
+      hre.ethers.parseEther("10"),
+      hre.ethers.parseEther("30")
+    );
+    await users[1].cancelLimitOrder(pairId, cancelled.orderId);
+
+    const position = await users[0].getPosition(pairId);
+    await users[0].removeLiquidity(pairId, position.shares / 2n);
+  }
+
+  async function expectMatchesChain(store: IndexerStore, client: LiteswapClient, providers: string[]) {
+    const pairCount: bigint = await client.contract._pairIdCount();
+    expect(store.getPairs().length).to.equal(Number(pairCount - 1n));
+    for (let pairId = 1n; pairId < pairCount; pairId++) {
+      expect(store.getPair(pairId)).to.deep.equal(await client.getPair(pairId));
+      for (const provider of providers) {
+        const indexed = store.getPosition(pairId, provider);
+        expect({ shares: indexed.shares, hasPosition: indexed.hasPosition }).to.deep.equal(
+          await client.getPosition(pairId, provider)
+        );
+      }
+      const orderCount: bigint = await client.contract._orderIdCounter(pairId);
+      for (let orderId = 0n; orderId < orderCount; orderId++) {
+        expect(store.getLimitOrder(pairId, orderId)).to.deep.equal(await client.getLimitOrder(pairId, orderId));
+      }
+    }
+  }
+
+  it("Should rebuild pairs, positions and orders that match on-chain reads", async function () {
+    const { client, tokenA, tokenB, feeToken, signers, user1, user2 } = await loadFixture(deployFixture);
+    const tokens = [await tokenA.getAddress(), await tokenB.getAddress(), await feeToken.getAddress()];
+    await runWorkload(client, [client.connect(user1), client.connect(user2)], tokens);
+
+    const store = new IndexerStore();
+    const indexer = new LiteswapIndexer(hre.ethers.provider, await client.getAddress(), store, { batchSize: 5 });
+    const result = await indexer.sync();
+
+    expect(result.events).to.be.greaterThan(0);
+    expect(store.getSwaps(1n).length).to.equal(1);
+    await expectMatchesChain(store, client, signers.map((signer) => signer.address));
+  });
+
+  it("Should resume from the checkpoint", async function () {
+    const { client, tokenA, tokenB, feeToken, signers, user1, user2 } = await loadFixture(deployFixture);
+    const tokens = [await tokenA.getAddress(), await tokenB.getAddress(), await feeToken.getAddress()];
+    const store = new IndexerStore();
+    const address = await client.getAddress();
+
+    await new LiteswapIndexer(hre.ethers.provider, address, store).sync();
+    const checkpoint = store.getCheckpoint();
+    await runWorkload(client, [client.connect(user1), client.connect(user2)], tokens);
+
+    // A fresh indexer over the same store continues after the checkpoint
+    const result = await new LiteswapIndexer(hre.ethers.provider, address, store).sync();
+    expect(result.fromBlock).to.equal(checkpoint!.blockNumber + 1);
+    await expectMatchesChain(store, client, signers.map((signer) => signer.address));
+  });
+
+  it("Should roll back orphaned blocks after a reorg", async function () {
+    const { client, tokenA, tokenB, feeToken, signers, user1, user2 } = await loadFixture(deployFixture);
+    const tokens = [await tokenA.getAddress(), await tokenB.getAddress(), await feeToken.getAddress()];
+    const store = new IndexerStore();
+    const indexer = new LiteswapIndexer(hre.ethers.provider, await client.getAddress(), store);
+
+    const amount = hre.ethers.parseEther("10000");
+    const { pairId } = await client.initializePair(tokens[0], tokens[1], amount, amount);
+    await indexer.sync();
+
+    // Index a branch, then revert it and mine a different one of greater length
+    const snapshot = await hre.network.provider.send("evm_snapshot");
+    await client.connect(user1).swap(pairId, tokens[0], hre.ethers.parseEther("100"));
+    await indexer.sync();
+    await hre.network.provider.send("evm_revert", [snapshot]);
+    await client.connect(user2).swap(pairId, tokens[1], hre.ethers.parseEther("7"));
+    await client.connect(user2).addLiquidity(pairId, hre.ethers.parseEther("3"));
+
+    const result = await indexer.sync();
+    expect(result.reorged).to.equal(true);
+    expect(store.getSwaps(pairId)[0].user).to.equal(user2.address);
+    await expectMatchesChain(store, client, signers.map((signer) => signer.address));
+  });
+});
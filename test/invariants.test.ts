@@ -0,0 +1,107 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import {
+  InvariantChecker,
+  InvariantError,
+  InvariantViolation,
+  LiteswapClient,
+  LiteswapSnapshot,
+  Random,
+  applyOp,
+  checkInvariants,
+  randomOp,
+  simulatorSnapshot,
+} from "../sdk";
+import { deployDifferentialFixture, runOnChain } from "./differential";
+
+describe("Invariants", function () {
+  it("Should hold on chain and in the simulator after every call of a random workload", async function () {
+    const { liteswap, createSimulator, tokenAddresses, users, accounts } = await loadFixture(deployDifferentialFixture);
+    const client = new LiteswapClient(await liteswap.getAddress(), users.owner);
+    const invariants = new InvariantChecker(client);
+    await invariants.assert();
+
+    const sim = createSimulator();
+    let previous = simulatorSnapshot(sim);
+    const random = new Random(3);
+    for (let i = 0; i < 60; i++) {
+      const op = randomOp(random, sim, accounts, tokenAddresses);
+      const outcome = applyOp(sim, op);
+      await runOnChain(liteswap, users, op);
+      await invariants.assert();
+
+      const current = simulatorSnapshot(sim);
+      expect(checkInvariants(current, previous, outcome.events ? sim.lastEvents : [])).to.deep.equal([]);
+      previous = current;
+    }
+    expect((await client.getPairs()).length).to.be.gt(0);
+  });
+
+  it("Should name every broken invariant in a tampered snapshot", async function () {
+    const tokenA = "0x00000000000000000000000000000000000000a1";
+    const tokenB = "0x00000000000000000000000000000000000000b2";
+    const maker = "0x00000000000000000000000000000000000000c3";
+    const pair = { pairId: 1n, tokenA, tokenB, reserveA: 1000n, reserveB: 4000n, totalShares: 2000n, initialized: true };
+    const order = {
+      pairId: 1n,
+      orderId: 0n,
+      maker,
+      offerToken: tokenA,
+      desiredToken: tokenB,
+      offerAmount: 100n,
+      desiredAmount: 500n,
+      active: true,
+    };
+    const previous: LiteswapSnapshot = {
+      pairs: [pair],
+      positions: [{ pairId: 1n, user: maker, shares: 2000n, hasPosition: true }],
+      orders: [order],
+      balances: new Map([
+        [tokenA, 1100n],
+        [tokenB, 4000n],
+      ]),
+    };
+    expect(checkInvariants(previous)).to.deep.equal([]);
+
+    const current: LiteswapSnapshot = {
+      // A "swap" that paid out more than the fee-adjusted curve allows
+      pairs: [{ ...pair, reserveA: 1100n, reserveB: 3000n }],
+      positions: [{ pairId: 1n, user: maker, shares: 1999n, hasPosition: true }],
+      orders: [{ ...order, offerAmount: 50n, desiredAmount: 400n }],
+      balances: new Map([
+        [tokenA, 1100n],
+        [tokenB, 3000n],
+      ]),
+    };
+    const violations = checkInvariants(current, previous);
+    const names = violations.map((violation: InvariantViolation) => violation.invariant);
+    expect(names).to.have.members(["solvency", "shareConservation", "kNonDecreasing", "orderEscrow"]);
+    expect(violations.find((violation) => violation.invariant === "solvency")!.token).to.equal(tokenA);
+    expect(new InvariantError(violations).message).to.contain("k of pair 1 fell");
+  });
+
+  it("Should flag a drained contract from a block watcher", async function () {
+    const { liteswap, addresses, users } = await loadFixture(deployDifferentialFixture);
+    const client = new LiteswapClient(await liteswap.getAddress(), users.owner);
+    const e = hre.ethers.parseEther;
+    await client.initializePair(addresses.A, addresses.B, e("100"), e("100"));
+
+    const invariants = new InvariantChecker(client);
+    const reported: InvariantViolation[][] = [];
+    const stop = await invariants.watch((violations) => reported.push(violations));
+
+    // OpenZeppelin ERC20 keeps balances in a mapping at slot 0
+    const slot = hre.ethers.keccak256(
+      hre.ethers.AbiCoder.defaultAbiCoder().encode(["address", "uint256"], [await liteswap.getAddress(), 0])
+    );
+    await hre.network.provider.send("hardhat_setStorageAt", [addresses.A, slot, hre.ethers.toBeHex(e("1"), 32)]);
+    await hre.network.provider.send("hardhat_mine", []);
+    for (let i = 0; i < 50 && reported.length === 0; i++) await new Promise((resolve) => setTimeout(resolve, 100));
+    await stop();
+
+    expect(reported.length).to.be.gte(1);
+    expect(reported[0].map((violation) => violation.invariant)).to.deep.equal(["solvency"]);
+    expect(reported[0][0].token).to.equal(addresses.A.toLowerCase());
+  });
+});
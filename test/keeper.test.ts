@@ -0,0 +1,113 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { KeeperFill, LimitOrderKeeper, computeAmountOut, findOpportunity } from "../sdk";
+import { AB_TOKENS, liteswapFixture } from "./fixtures";
+
+describe("LimitOrderKeeper", function () {
+  const deployFixture = liteswapFixture(
+    {
+      tokens: AB_TOKENS,
+      users: ["owner", "maker", "trader"],
+      pairs: [{ tokens: ["A", "B"], reserves: ["10000", "10000"] }],
+    },
+    async function keeperFixture({ pairs, users }) {
+      const { pairId, tokenA: token0, tokenB: token1 } = pairs["A/B"];
+      const balanceOf = async (token: string) =>
+        (await hre.ethers.getContractAt("TestERC20", token)).balanceOf(users.owner.address);
+      return { pairId, token0, token1, balanceOf, maker: users.maker, trader: users.trader };
+    }
+  );
+
+  // One native coin is worth one token, so gas costs a fraction of a wei-denominated token
+  const nativePrice = () => hre.ethers.parseEther("1");
+
+  it("Should size the fill where the pool's marginal rate meets the order's", function () {
+    const e = hre.ethers.parseEther;
+    const tokenA = "0x00000000000000000000000000000000000000a1";
+    const tokenB = "0x00000000000000000000000000000000000000b2";
+    const maker = "0x00000000000000000000000000000000000000c3";
+    // One A trades for about 1.44 B in the pool, the order sells A at 1 B
+    const pair = {
+      pairId: 0n,
+      tokenA,
+      tokenB,
+      reserveA: e("8333"),
+      reserveB: e("12000"),
+      totalShares: e("10000"),
+      initialized: true,
+    };
+    const order = {
+      pairId: 0n,
+      orderId: 3n,
+      maker,
+      offerToken: tokenA,
+      desiredToken: tokenB,
+      offerAmount: e("5000"),
+      desiredAmount: e("5000"),
+      active: true,
+    };
+
+    const best = findOpportunity(pair, order, 0n)!;
+    expect(best.amountIn < order.desiredAmount).to.equal(true);
+    const profit = (amountIn: bigint) => computeAmountOut(amountIn, pair.reserveA, pair.reserveB) - amountIn;
+    expect(best.profit).to.equal(profit(best.amountIn));
+    for (const amountIn of [(best.amountIn * 99n) / 100n, (best.amountIn * 101n) / 100n, order.desiredAmount]) {
+      expect(best.profit >= profit(amountIn)).to.equal(true);
+    }
+
+    const capped = findOpportunity(pair, order, 0n, { maxFillAmount: e("100") })!;
+    expect(capped.amountIn).to.equal(e("100"));
+    expect(findOpportunity(pair, order, best.profit)).to.equal(undefined);
+    expect(findOpportunity(pair, order, 0n, { minProfit: best.profit + 1n })).to.equal(undefined);
+    expect(findOpportunity(pair, order, 0n, { ignoreMakers: [maker] })).to.equal(undefined);
+    // Selling the other way round the order is worse than the pool
+    expect(findOpportunity({ ...pair, reserveA: e("12000"), reserveB: e("8333") }, order, 0n)).to.equal(undefined);
+  });
+
+  it("Should fill orders the pool moved past and sell the proceeds back at a profit", async function () {
+    const { client, pairId, token0, token1, balanceOf, maker, trader } = await loadFixture(deployFixture);
+    const e = hre.ethers.parseEther;
+    const { orderId } = await client.connect(maker).placeLimitOrder(pairId, token0, e("100"), e("100"));
+    const { orderId: farOrderId } = await client.connect(maker).placeLimitOrder(pairId, token0, e("100"), e("200"));
+    await client.connect(trader).swap(pairId, token1, e("2000"));
+
+    const keeper = new LimitOrderKeeper(client, { nativePrice, maxTotalSpend: e("60") });
+    const before = await balanceOf(token1);
+    const fills = await keeper.scan(pairId);
+
+    expect(fills.length).to.equal(1);
+    const [fill] = fills;
+    expect(fill.orderId).to.equal(orderId);
+    expect(fill.amountIn).to.equal(e("60"));
+    expect(fill.realisedAmountOut).to.equal(fill.amountOut);
+    expect(fill.realisedProfit > 0n).to.equal(true);
+    expect(await balanceOf(token1)).to.equal(before - fill.amountIn + fill.realisedAmountOut);
+    expect(keeper.spentOf(token1)).to.equal(e("60"));
+    expect(keeper.haltReason).to.equal(undefined);
+
+    // Spend limit reached, the rest of the order waits
+    expect(await keeper.scan(pairId)).to.deep.equal([]);
+    expect((await client.getLimitOrder(pairId, orderId)).desiredAmount).to.equal(e("40"));
+    expect((await client.getLimitOrder(pairId, farOrderId)).active).to.equal(true);
+  });
+
+  it("Should fill from events once started", async function () {
+    const { client, pairId, token0, token1, maker, trader } = await loadFixture(deployFixture);
+    const e = hre.ethers.parseEther;
+    const keeper = new LimitOrderKeeper(client, { nativePrice, pairIds: [pairId], maxFillAmount: e("50") });
+    const fills: KeeperFill[] = [];
+    keeper.onFill((fill) => fills.push(fill));
+    const stop = await keeper.start();
+
+    const { orderId } = await client.connect(maker).placeLimitOrder(pairId, token0, e("100"), e("100"));
+    await client.connect(trader).swap(pairId, token1, e("2000"));
+    for (let i = 0; i < 50 && fills.length < 2; i++) await new Promise((resolve) => setTimeout(resolve, 100));
+    await stop();
+
+    expect(fills.length).to.equal(2);
+    expect(fills.every((fill) => fill.orderId === orderId && fill.amountIn <= e("50"))).to.equal(true);
+    expect((await client.getLimitOrder(pairId, orderId)).active).to.equal(false);
+    expect(keeper.fills).to.deep.equal(fills);
+  });
+});
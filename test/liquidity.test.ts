@@ -0,0 +1,80 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import {
+  LiteswapError,
+  MINIMUM_SHARES,
+  previewAddLiquidity,
+  previewInitializePair,
+  previewRemoveLiquidity,
+  sqrt,
+} from "../sdk";
+import { AB_TOKENS, liteswapFixture } from "./fixtures";
+
+describe("Liquidity previews", function () {
+  const deployFixture = liteswapFixture(
+    { tokens: AB_TOKENS, users: ["owner", "user1"], approve: false },
+    async function liquidityFixture({ tokens, users }) {
+      return { tokenA: tokens.A, tokenB: tokens.B, owner: users.owner, user1: users.user1 };
+    }
+  );
+
+  it("Should match the contract's sqrt for edge values", function () {
+    expect(sqrt(0n)).to.equal(0n);
+    expect(sqrt(3n)).to.equal(1n);
+    expect(sqrt(4n)).to.equal(2n);
+    expect(sqrt(999_999n)).to.equal(999n);
+    const maxUint = 2n ** 256n - 1n;
+    const root = sqrt(maxUint);
+    expect(root * root <= maxUint && (root + 1n) * (root + 1n) > maxUint).to.equal(true);
+  });
+
+  it("Should preview initial shares and enforce MINIMUM_SHARES", async function () {
+    const { client, tokenA, tokenB } = await loadFixture(deployFixture);
+    const addressA = await tokenA.getAddress();
+    const addressB = await tokenB.getAddress();
+    const amountA = hre.ethers.parseEther("1000");
+    const amountB = hre.ethers.parseEther("2000");
+
+    const preview = previewInitializePair(addressA, addressB, amountA, amountB);
+    const result = await client.initializePair(addressA, addressB, amountA, amountB);
+    expect(result.shares).to.equal(preview.shares);
+    expect(result.token0).to.equal(preview.token0);
+
+    expect(() => previewInitializePair(addressA, addressB, 999n, 999n)).to.throw(LiteswapError, "InsufficientLiquidity");
+    expect(previewInitializePair(addressA, addressB, 1000n, 1000n).shares).to.equal(MINIMUM_SHARES);
+  });
+
+  it("Should preview addLiquidity and removeLiquidity exactly", async function () {
+    const { client, tokenA, tokenB, user1 } = await loadFixture(deployFixture);
+    const { pairId } = await client.initializePair(
+      tokenA,
+      tokenB,
+      hre.ethers.parseEther("1000"),
+      hre.ethers.parseEther("3000")
+    );
+    const lp = client.connect(user1);
+
+    const addPreview = previewAddLiquidity(await lp.getPair(pairId), 123456789n, await lp.getPosition(pairId));
+    const added = await lp.addLiquidity(pairId, 123456789n);
+    expect(added.amountB).to.equal(addPreview.amountB);
+    expect(added.shares).to.equal(addPreview.shares);
+    expect(await lp.getUserShareBps(pairId)).to.equal(addPreview.shareBps);
+
+    const position = await lp.getPosition(pairId);
+    const burn = position.shares / 3n;
+    const removePreview = previewRemoveLiquidity(await lp.getPair(pairId), burn, position);
+    const removed = await lp.removeLiquidity(pairId, burn);
+    expect(removed.amountA).to.equal(removePreview.amountA);
+    expect(removed.amountB).to.equal(removePreview.amountB);
+    expect(await lp.getUserShareBps(pairId)).to.equal(removePreview.shareBps);
+
+    const pair = await lp.getPair(pairId);
+    const remaining = await lp.getPosition(pairId);
+    expect(() => previewRemoveLiquidity(pair, 0n, remaining)).to.throw(LiteswapError, "InvalidAmount");
+    expect(() => previewRemoveLiquidity(pair, remaining.shares + 1n, remaining)).to.throw(
+      LiteswapError,
+      "InsufficientShares"
+    );
+  });
+});
@@ -0,0 +1,178 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import {
+  PRICE_SCALE,
+  PriceOracle,
+  PriceUnavailableError,
+  pairPrice,
+  spotPrice,
+  timeWeightedPrice,
+  volumeWeightedPrice,
+} from "../sdk";
+import { AB_TOKENS, liteswapFixture } from "./fixtures";
+
+describe("PriceOracle", function () {
+  const deployFixture = liteswapFixture(
+    {
+      tokens: AB_TOKENS,
+      users: ["owner", "trader"],
+      pairs: [{ tokens: ["A", "B"], reserves: ["10000", "10000"] }],
+    },
+    // Every user approved upfront, so every swap is a single block at the timestamp it was given
+    async function oracleFixture({ liteswap, client, pairs, users }) {
+      const { pairId, tokenA: token0, tokenB: token1 } = pairs["A/B"];
+      const trader = client.connect(users.trader);
+      return { trader, address: await liteswap.getAddress(), pairId, token0, token1, start: await time.latest() };
+    }
+  );
+
+  const e = (value: string) => hre.ethers.parseEther(value);
+  const sample = (timestamp: number, reserveA: string, reserveB: string) => ({
+    blockNumber: timestamp,
+    logIndex: 0,
+    timestamp,
+    reserveA: e(reserveA),
+    reserveB: e(reserveB),
+  });
+
+  it("Should weigh pool states by the time they held and reject thin or manipulated ones", function () {
+    const samples = [
+      sample(100, "1000", "1000"),
+      // Pushed and restored within the block, only the closing state counts
+      sample(200, "1000", "10000"),
+      sample(200, "1000", "2000"),
+      // Held for a single block
+      sample(300, "1000", "100000"),
+      sample(310, "1000", "1000"),
+      // Almost all liquidity removed
+      sample(400, "10", "20"),
+    ];
+
+    const plain = timeWeightedPrice(samples, 100, 500)!;
+    const weighted = e("1") * 100n + e("2") * 100n + e("100") * 10n + e("1") * 90n + e("2") * 100n;
+    expect(plain.price).to.equal(weighted / 400n);
+    expect(plain).to.deep.include({ samples: 5, rejected: 0, coverageBps: 10000n });
+
+    const guards = { minLiquidity: e("100"), maxDeviationBps: 5000n };
+    const guarded = timeWeightedPrice(samples, 100, 500, guards)!;
+    expect(guarded.price).to.equal((e("1") * 100n + e("2") * 100n + e("1") * 90n) / 290n);
+    expect(guarded).to.deep.include({ samples: 3, rejected: 2, coverageBps: 7250n });
+    // Before the first sample nothing is known
+    expect(timeWeightedPrice(samples, 0, 150)!.coverageBps).to.equal(3333n);
+    expect(timeWeightedPrice(samples, 0, 100)).to.equal(undefined);
+    expect(() => timeWeightedPrice(samples, 100, 100)).to.throw(RangeError);
+
+    expect(spotPrice(samples, 305)!.price).to.equal(e("100"));
+    expect(spotPrice(samples, 450)!.price).to.equal(e("2"));
+    expect(spotPrice(samples, 450, guards)).to.equal(undefined);
+
+    const trade = (timestamp: number, amountA: string, amountB: string, reserve: string) => ({
+      blockNumber: timestamp,
+      logIndex: 1,
+      timestamp,
+      amountA: e(amountA),
+      amountB: e(amountB),
+      reserveA: e(reserve),
+      reserveB: e(reserve),
+    });
+    const trades = [
+      trade(100, "10", "20", "1000"),
+      trade(200, "30", "30", "1000"),
+      trade(250, "20", "30", "1000"),
+      trade(300, "5", "500", "1000"),
+      trade(400, "1", "2", "1"),
+      trade(600, "1", "1", "1000"),
+    ];
+    expect(volumeWeightedPrice(trades, 100, 500)!.price).to.equal((e("582") * PRICE_SCALE) / e("66"));
+    const vwap = volumeWeightedPrice(trades, 100, 500, guards)!;
+    expect(vwap.price).to.equal((e("80") * PRICE_SCALE) / e("60"));
+    expect(vwap).to.deep.include({ samples: 3, rejected: 2, coverageBps: (60n * 10000n) / 66n });
+  });
+
+  it("Should price a pair from its event history", async function () {
+    const { client, trader, address, pairId, token0, token1, start } = await loadFixture(deployFixture);
+    const prices = [pairPrice(await client.getPair(pairId))];
+    const before = await client.getPair(pairId);
+
+    await time.setNextBlockTimestamp(start + 100);
+    const first = await trader.swap(pairId, token0, e("500"));
+    prices.push(pairPrice(await client.getPair(pairId)));
+    await time.setNextBlockTimestamp(start + 400);
+    const second = await trader.swap(pairId, token1, e("2000"));
+    prices.push(pairPrice(await client.getPair(pairId)));
+    await time.increaseTo(start + 1000);
+
+    const oracle = new PriceOracle(hre.ethers.provider, address, { pairIds: [pairId] });
+    const synced = await oracle.sync();
+    expect(synced).to.deep.include({ samples: 3, trades: 2, reorged: false });
+    expect(oracle.timestamp).to.equal(start + 1000);
+
+    const spot = oracle.spot(pairId);
+    expect(spot).to.deep.include({ pairId, kind: "spot", price: prices[2], blockNumber: oracle.blockNumber });
+    const twap = oracle.twap(pairId, 1000);
+    expect(twap.price).to.equal((prices[0] * 100n + prices[1] * 300n + prices[2] * 600n) / 1000n);
+    expect(twap.coverageBps).to.equal(10000n);
+    // An earlier window ending between the swaps
+    expect(oracle.twap(pairId, 300, start + 300).price).to.equal((prices[0] * 100n + prices[1] * 200n) / 300n);
+
+    // Trades are oriented on the pair whichever way they went, against the reserves before them
+    const volumeA = first.amountIn + second.amountOut;
+    const volumeB = first.amountOut + second.amountIn;
+    expect(oracle.vwap(pairId, 1000).price).to.equal((volumeB * PRICE_SCALE) / volumeA);
+    expect(oracle.trades(pairId)[0]).to.deep.include({ reserveA: before.reserveA, reserveB: before.reserveB });
+    expect(oracle.deviationBps(pairId, 1000)).to.equal(((spot.price - twap.price) * 10000n) / twap.price);
+
+    const err = (() => {
+      try {
+        oracle.vwap(pairId, 100);
+      } catch (err) {
+        return err;
+      }
+    })();
+    expect(err).to.be.instanceOf(PriceUnavailableError);
+  });
+
+  it("Should reject a one block manipulation and follow reorgs", async function () {
+    const { client, trader, address, pairId, token0, token1, start } = await loadFixture(deployFixture);
+    const guarded = new PriceOracle(hre.ethers.provider, address, { maxDeviationBps: 1000n, minCoverageBps: 9900n });
+    const plain = new PriceOracle(hre.ethers.provider, address);
+
+    // Pushed in one block and sold back in the next
+    await time.setNextBlockTimestamp(start + 100);
+    const push = await trader.swap(pairId, token0, e("5000"));
+    await time.setNextBlockTimestamp(start + 101);
+    await trader.swap(pairId, token1, push.amountOut);
+    await time.increaseTo(start + 300);
+    await guarded.sync();
+    await plain.sync();
+
+    const twap = guarded.twap(pairId, 300);
+    expect(twap).to.deep.include({ samples: 2, rejected: 1, coverageBps: 9966n });
+    expect(plain.twap(pairId, 300).price < twap.price).to.equal(true);
+    const err = (() => {
+      try {
+        guarded.twap(pairId, 1000);
+      } catch (err) {
+        return err;
+      }
+    })();
+    expect(err).to.be.instanceOf(PriceUnavailableError);
+    expect((err as Error).message).to.match(/cover/);
+
+    const snapshot = await hre.network.provider.send("evm_snapshot", []);
+    await trader.swap(pairId, token0, e("100"));
+    await plain.sync();
+    const orphaned = plain.spot(pairId).price;
+    await hre.network.provider.send("evm_revert", [snapshot]);
+    await trader.swap(pairId, token1, e("100"));
+    await time.increase(10);
+
+    const resynced = await plain.sync();
+    expect(resynced.reorged).to.equal(true);
+    const price = pairPrice(await client.getPair(pairId));
+    expect(price).to.not.equal(orphaned);
+    expect(plain.spot(pairId).price).to.equal(price);
+    expect(plain.samples(pairId).length).to.equal(4);
+  });
+});
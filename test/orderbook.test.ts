@@ -0,0 +1,85 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { OrderBook } from "../sdk";
+import { AB_TOKENS, liteswapFixture } from "./fixtures";
+
+describe("OrderBook", function () {
+  const deployFixture = liteswapFixture(
+    {
+      tokens: AB_TOKENS,
+      users: ["owner", "user1", "user2"],
+      approve: false,
+      pairs: [{ tokens: ["A", "B"], reserves: ["10000", "10000"] }],
+    },
+    async function orderBookFixture({ pairs, users }) {
+      const { pairId, tokenA: token0, tokenB: token1 } = pairs["A/B"];
+      return { pairId, token0, token1, user1: users.user1, user2: users.user2 };
+    }
+  );
+
+  it("Should list only active orders with both sides sorted best first", async function () {
+    const { client, pairId, token0, token1, user1 } = await loadFixture(deployFixture);
+    const maker = client.connect(user1);
+    const e = hre.ethers.parseEther;
+
+    await maker.placeLimitOrder(pairId, token0, e("100"), e("300")); // ask at 3
+    await maker.placeLimitOrder(pairId, token0, e("100"), e("200")); // ask at 2
+    const cancelled = await maker.placeLimitOrder(pairId, token0, e("100"), e("150"));
+    await maker.cancelLimitOrder(pairId, cancelled.orderId);
+    await maker.placeLimitOrder(pairId, token1, e("100"), e("400")); // bid at 0.25
+    await maker.placeLimitOrder(pairId, token1, e("100"), e("200")); // bid at 0.5
+
+    const book = await OrderBook.load(client, pairId);
+    expect(book.size).to.equal(4);
+    expect(book.asks.map((order) => order.quotePrice)).to.deep.equal([e("2"), e("3")]);
+    expect(book.bids.map((order) => order.quotePrice)).to.deep.equal([e("0.5"), e("0.25")]);
+    expect(book.ordersFor(token0)).to.deep.equal(book.bids);
+  });
+
+  it("Should aggregate depth by tick size", async function () {
+    const { client, pairId, token0, user1 } = await loadFixture(deployFixture);
+    const maker = client.connect(user1);
+    const e = hre.ethers.parseEther;
+
+    await maker.placeLimitOrder(pairId, token0, e("100"), e("210"));
+    await maker.placeLimitOrder(pairId, token0, e("50"), e("110"));
+    await maker.placeLimitOrder(pairId, token0, e("10"), e("40"));
+
+    const depth = (await OrderBook.load(client, pairId)).depth(e("1"));
+    expect(depth.asks.map((level) => level.quotePrice)).to.deep.equal([e("3"), e("4")]);
+    expect(depth.asks[0].orders).to.equal(2);
+    expect(depth.asks[0].offerAmount).to.equal(e("150"));
+    expect(depth.asks[1].cumulativeOfferAmount).to.equal(e("160"));
+  });
+
+  it("Should live update from order events", async function () {
+    const { client, pairId, token0, user1, user2 } = await loadFixture(deployFixture);
+    const e = hre.ethers.parseEther;
+    const book = await OrderBook.load(client, pairId);
+    const unwatch = await book.watch(client);
+
+    const waitForUpdate = (predicate: (book: OrderBook) => boolean) =>
+      new Promise<void>((resolve) => {
+        const off = book.onUpdate((current) => {
+          if (predicate(current)) {
+            off();
+            resolve();
+          }
+        });
+      });
+
+    let update = waitForUpdate((current) => current.size === 1);
+    const { orderId } = await client.connect(user1).placeLimitOrder(pairId, token0, e("100"), e("200"));
+    await update;
+
+    update = waitForUpdate((current) => current.getOrder(orderId)?.desiredAmount === e("150"));
+    await client.connect(user2).fillLimitOrder(pairId, orderId, e("50"));
+    await update;
+
+    update = waitForUpdate((current) => current.size === 0);
+    await client.connect(user1).cancelLimitOrder(pairId, orderId);
+    await update;
+    await unwatch();
+  });
+});
@@ -0,0 +1,110 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { LiteswapError, MAX_HOPS, PathFinder, computeAmountOut, executeRoute } from "../sdk";
+import { liteswapFixture } from "./fixtures";
+
+describe("PathFinder", function () {
+  // A chain A-B-C-D-E-F of deep pools with a thin A/C shortcut, and X/Y on their own
+  const deployFixture = liteswapFixture({
+    tokens: { A: {}, B: {}, C: {}, D: {}, E: {}, F: {}, X: {}, Y: {} },
+    users: ["owner", "trader", "mover"],
+    pairs: [
+      { tokens: ["A", "B"], reserves: ["1000", "1000"] },
+      { tokens: ["B", "C"], reserves: ["1000", "1000"] },
+      { tokens: ["C", "D"], reserves: ["1000", "1000"] },
+      { tokens: ["D", "E"], reserves: ["1000", "1000"] },
+      { tokens: ["E", "F"], reserves: ["1000", "1000"] },
+      { tokens: ["A", "C"], reserves: ["100", "100"] },
+      { tokens: ["X", "Y"], reserves: ["1000", "1000"] },
+    ],
+  });
+
+  const e = hre.ethers.parseEther;
+  // Output of consecutive swaps through the 1000/1000 pools
+  const deep = (amountIn: bigint, hops: number) =>
+    Array.from({ length: hops }).reduce<bigint>((amount) => computeAmountOut(amount, e("1000"), e("1000")), amountIn);
+
+  it("Should find 1-, 2- and 3-hop routes best first and execute them hop by hop", async function () {
+    const { client, addresses, tokens, users } = await loadFixture(deployFixture);
+    const { A, B, C, D } = addresses;
+    const finder = await PathFinder.load(client);
+
+    const direct = finder.bestRoute(A, B, e("10"))!;
+    expect(direct.path).to.deep.equal([A, B]);
+    expect(direct.expectedOut).to.equal(deep(e("10"), 1));
+
+    // Two deep hops pay more than the thin direct pool
+    const routes = finder.findRoutes(A, C, e("10"));
+    expect(routes.map((route) => route.path)).to.deep.equal([
+      [A, B, C],
+      [A, C],
+    ]);
+    expect(routes[0].expectedOut).to.equal(deep(e("10"), 2));
+    expect(routes[1].expectedOut).to.equal(computeAmountOut(e("10"), e("100"), e("100")));
+
+    const route = finder.bestRoute(A, D, e("10"))!;
+    expect(route.path).to.deep.equal([A, B, C, D]);
+    expect(route.hops.map((hop) => hop.amountIn)).to.deep.equal([e("10"), deep(e("10"), 1), deep(e("10"), 2)]);
+    expect(route.expectedOut).to.equal(deep(e("10"), 3));
+
+    const before = await tokens.D.balanceOf(users.trader.address);
+    const execution = await executeRoute(client.connect(users.trader), route);
+    expect(execution.swaps.map((swap) => [swap.tokenIn, swap.tokenOut])).to.deep.equal([
+      [A, B],
+      [B, C],
+      [C, D],
+    ]);
+    expect(execution.amountOut).to.equal(route.expectedOut);
+    expect(await tokens.D.balanceOf(users.trader.address)).to.equal(before + execution.amountOut);
+  });
+
+  it("Should enforce the minAmountOut of every hop and of the whole route", async function () {
+    const { client, addresses, tokens, users, pairs } = await loadFixture(deployFixture);
+    const { A, B, C } = addresses;
+    const trader = client.connect(users.trader);
+    const route = (await PathFinder.load(client)).bestRoute(A, C, e("10"))!;
+
+    // Dumping B into B/C after quoting makes the second hop pay less than its minimum
+    await client.connect(users.mover).swap(pairs["B/C"].pairId, B, e("100"));
+    const balanceB = await tokens.B.balanceOf(users.trader.address);
+    const hopError = await executeRoute(trader, route).catch((err: unknown) => err);
+    expect(hopError).to.be.instanceOf(LiteswapError);
+    expect((hopError as LiteswapError).errorName).to.equal("InvalidAmount");
+    // The first hop went through before the second reverted
+    expect(await tokens.B.balanceOf(users.trader.address)).to.equal(balanceB + route.hops[0].expectedOut);
+
+    // Without hop minimums the end to end one still holds on the last hop
+    const fresh = (await PathFinder.load(client)).bestRoute(A, C, e("10"))!;
+    const lax = {
+      ...fresh,
+      minAmountOut: fresh.expectedOut + 1n,
+      hops: fresh.hops.map((hop) => ({ ...hop, minAmountOut: 0n })),
+    };
+    const balanceC = await tokens.C.balanceOf(users.trader.address);
+    const routeError = await executeRoute(trader, lax).catch((err: unknown) => err);
+    expect((routeError as LiteswapError).errorName).to.equal("InvalidAmount");
+    expect(await tokens.C.balanceOf(users.trader.address)).to.equal(balanceC);
+
+    const exact = (await PathFinder.load(client)).bestRoute(A, C, e("10"))!;
+    const execution = await executeRoute(trader, { ...exact, minAmountOut: exact.expectedOut });
+    expect(execution.amountOut).to.equal(exact.expectedOut);
+  });
+
+  it("Should find no route to unreachable tokens or beyond MAX_HOPS", async function () {
+    const { client, addresses } = await loadFixture(deployFixture);
+    const { A, C, D, F, X } = addresses;
+    const finder = await PathFinder.load(client);
+
+    expect(finder.tokens).to.include(X);
+    expect(finder.findRoutes(A, X, e("10"))).to.deep.equal([]);
+    expect(finder.findRoutes(A, hre.ethers.Wallet.createRandom().address, e("10"))).to.deep.equal([]);
+    expect(finder.findRoutes(A, D, 0n)).to.deep.equal([]);
+
+    // A-C-D-E-F is the shortest way to F
+    expect(finder.findRoutes(A, F, e("10"))).to.deep.equal([]);
+    const longer = finder.findRoutes(A, F, e("10"), MAX_HOPS + 1);
+    expect(longer.map((route) => route.path)).to.deep.equal([[A, C, D, addresses.E, F]]);
+    expect(finder.findRoutes(A, D, e("10"), 2).map((route) => route.path)).to.deep.equal([[A, C, D]]);
+  });
+});
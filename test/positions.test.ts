@@ -0,0 +1,77 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { loadPositionReport } from "../sdk";
+import { main } from "../cli";
+import { AB_TOKENS, liteswapFixture } from "./fixtures";
+
+describe("Position report", function () {
+  const deployFixture = liteswapFixture(
+    {
+      tokens: AB_TOKENS,
+      users: ["owner", "lp", "trader"],
+      pairs: [{ tokens: ["A", "B"], reserves: ["10000", "10000"] }],
+    },
+    async function positionsFixture({ client, pairs, users }) {
+      const { pairId, tokenA: token0, tokenB: token1 } = pairs["A/B"];
+      await client.connect(users.lp).addLiquidity(pairId, hre.ethers.parseEther("1000"));
+      return { pairId, token0, token1, lp: users.lp, trader: users.trader };
+    }
+  );
+
+  it("Should attribute k growth from round trip swaps to fees with no impermanent loss", async function () {
+    const { client, pairId, token0, token1, lp, trader } = await loadFixture(deployFixture);
+    const e = hre.ethers.parseEther;
+    const taker = client.connect(trader);
+    for (let i = 0; i < 5; i++) {
+      const { amountOut } = await taker.swap(pairId, token0, e("500"));
+      await taker.swap(pairId, token1, amountOut);
+    }
+
+    const report = await loadPositionReport(client, pairId, lp.address);
+    const pair = await client.getPair(pairId);
+    expect(report.shares).to.equal((await client.getPosition(pairId, lp.address)).shares);
+    expect(report.costBasisA).to.equal(e("1000"));
+    expect(report.currentA * pair.totalShares).to.be.lte(pair.reserveA * report.shares);
+    expect(report.feesA > 0n && report.feesB > 0n).to.equal(true);
+    expect(report.kGrowthBps > 0n).to.equal(true);
+    // Price drifts only by the fees kept in the pool
+    expect(report.impermanentLossBps).to.be.lte(1n);
+    expect(report.netVsHoldBps > 0n).to.equal(true);
+  });
+
+  it("Should report impermanent loss after a one sided price move", async function () {
+    const { client, pairId, token0, lp, trader } = await loadFixture(deployFixture);
+    await client.connect(trader).swap(pairId, token0, hre.ethers.parseEther("10000"));
+
+    const report = await loadPositionReport(client.connect(lp), pairId);
+    const pair = await client.getPair(pairId);
+    // Entry price was 1, the textbook loss for a price ratio p is 1 - 2 * sqrt(p) / (1 + p)
+    const price = Number(pair.reserveB) / Number(pair.reserveA);
+    const expectedBps = Math.round((1 - (2 * Math.sqrt(price)) / (1 + price)) * 10000);
+    expect(Number(report.impermanentLossBps)).to.be.closeTo(expectedBps, 2);
+    expect(report.netVsHoldBps < 0n).to.equal(true);
+  });
+
+  it("Should reduce the cost basis pro rata on removals and print through the CLI", async function () {
+    const { client, pairId, lp } = await loadFixture(deployFixture);
+    const provider = client.connect(lp);
+    const { shares } = await provider.getPosition(pairId);
+    await provider.removeLiquidity(pairId, shares / 4n);
+
+    const report = await loadPositionReport(provider, pairId);
+    expect(report.withdrawnA > 0n).to.equal(true);
+    expect(report.costBasisA).to.equal(hre.ethers.parseEther("750"));
+    expect(report.shares).to.equal(shares - shares / 4n);
+
+    const out: string[] = [];
+    const code = await main(["liquidity", "report", pairId.toString(), "--address", await client.getAddress(), "--json"], {
+      env: {},
+      stdout: (text) => out.push(text),
+      stderr: (text) => out.push(text),
+      signer: lp,
+    });
+    expect(code).to.equal(0);
+    expect(JSON.parse(out.join(""))).to.include({ costBasisA: report.costBasisA.toString(), user: lp.address });
+  });
+});
@@ -0,0 +1,97 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { LiteswapError, minAmountOutForSlippage, quoteSwap } from "../sdk";
+import { AB_TOKENS, liteswapFixture } from "./fixtures";
+
+describe("Quote engine", function () {
+  const deployFixture = liteswapFixture(
+    {
+      tokens: AB_TOKENS,
+      users: ["owner", "user1"],
+      mint: "1000000000",
+      pairs: [{ tokens: ["A", "B"], reserves: ["10000", "25000"] }],
+    },
+    async function quoteFixture({ tokens, pairs, users }) {
+      const { owner, user1 } = users;
+      return { pairId: pairs["A/B"].pairId, tokenA: tokens.A, tokenB: tokens.B, owner, user1 };
+    }
+  );
+
+  // Deterministic xorshift generator so failing cases can be replayed from the seed
+  function randomAmounts(seed: bigint, count: number, max: bigint): bigint[] {
+    const mask = (1n << 64n) - 1n;
+    let state = seed;
+    const values: bigint[] = [];
+    for (let i = 0; i < count; i++) {
+      state ^= (state << 13n) & mask;
+      state ^= state >> 7n;
+      state ^= (state << 17n) & mask;
+      // Spread samples over many orders of magnitude
+      const magnitude = 10n ** (state % 25n);
+      values.push(((state * magnitude) % max) + 1n);
+    }
+    return values;
+  }
+
+  it("Should match swap.staticCall output for random amounts in both directions", async function () {
+    const { liteswap, client, pairId, tokenA, tokenB } = await loadFixture(deployFixture);
+    const amounts = randomAmounts(0x5eedn, 40, hre.ethers.parseEther("100000"));
+
+    for (const [index, amountIn] of amounts.entries()) {
+      const tokenIn = await (index % 2 === 0 ? tokenA : tokenB).getAddress();
+      const pair = await client.getPair(pairId);
+
+      let expected: bigint | string;
+      try {
+        expected = quoteSwap(pair, tokenIn, amountIn).amountOut;
+      } catch (err) {
+        expected = (err as LiteswapError).errorName;
+      }
+
+      let actual: bigint | string;
+      try {
+        actual = await liteswap.swap.staticCall(pairId, tokenIn, amountIn, 0);
+      } catch (err) {
+        actual = liteswap.interface.parseError((err as { data: string }).data)?.name ?? "unknown";
+      }
+      expect(actual, `amountIn ${amountIn}`).to.equal(expected);
+
+      // Move the reserves so later samples hit different states
+      if (typeof expected === "bigint" && index % 5 === 0) {
+        await client.swap(pairId, tokenIn, amountIn);
+      }
+    }
+  });
+
+  it("Should reproduce the revert conditions of swap", async function () {
+    const { client, pairId, tokenA } = await loadFixture(deployFixture);
+    const pair = await client.getPair(pairId);
+    const tokenIn = await tokenA.getAddress();
+
+    expect(() => quoteSwap(pair, tokenIn, 0n)).to.throw(LiteswapError, "InvalidAmount");
+    expect(() => quoteSwap(pair, tokenIn, 1n)).to.throw(LiteswapError, "InvalidAmount");
+    expect(() => quoteSwap(pair, hre.ethers.ZeroAddress, 100n)).to.throw(LiteswapError, "InvalidTokenAddress");
+    expect(() => quoteSwap({ ...pair, initialized: false }, tokenIn, 100n)).to.throw(LiteswapError, "PairDoesNotExist");
+
+    const { amountOut } = quoteSwap(pair, tokenIn, hre.ethers.parseEther("10"));
+    expect(() => quoteSwap(pair, tokenIn, hre.ethers.parseEther("10"), amountOut + 1n)).to.throw(
+      LiteswapError,
+      "InvalidAmount"
+    );
+  });
+
+  it("Should derive a minAmountOut that the contract accepts", async function () {
+    const { client, pairId, tokenA, user1 } = await loadFixture(deployFixture);
+    const pair = await client.getPair(pairId);
+    const quote = quoteSwap(pair, await tokenA.getAddress(), hre.ethers.parseEther("500"));
+    const minAmountOut = minAmountOutForSlippage(quote.amountOut, 50n);
+
+    expect(quote.priceImpactBps > 0n).to.equal(true);
+    expect(quote.effectivePrice < quote.spotPrice).to.equal(true);
+    expect(minAmountOut).to.equal((quote.amountOut * 9950n) / 10000n);
+
+    const result = await client.connect(user1).swap(pairId, tokenA, quote.amountIn, minAmountOut);
+    expect(result.amountOut).to.equal(quote.amountOut);
+  });
+});
@@ -0,0 +1,57 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { SmartOrderRouter } from "../sdk";
+import { AB_TOKENS, liteswapFixture } from "./fixtures";
+
+describe("SmartOrderRouter", function () {
+  const deployFixture = liteswapFixture(
+    {
+      tokens: AB_TOKENS,
+      users: ["owner", "maker", "taker"],
+      approve: false,
+      pairs: [{ tokens: ["A", "B"], reserves: ["10000", "10000"] }],
+    },
+    async function routerFixture({ pairs, users }) {
+      const { pairId, tokenA: token0, tokenB: token1 } = pairs["A/B"];
+      return { pairId, token0, token1, maker: users.maker, taker: users.taker };
+    }
+  );
+
+  it("Should fill resting orders that beat the pool and route the remainder through swap", async function () {
+    const { client, pairId, token0, token1, maker, taker } = await loadFixture(deployFixture);
+    const e = hre.ethers.parseEther;
+    await client.connect(maker).placeLimitOrder(pairId, token0, e("100"), e("100"));
+    await client.connect(maker).placeLimitOrder(pairId, token0, e("100"), e("101"));
+    // Far worse than the pool, must be skipped
+    await client.connect(maker).placeLimitOrder(pairId, token0, e("100"), e("200"));
+
+    const router = new SmartOrderRouter(client.connect(taker));
+    const plan = await router.plan(pairId, token1, e("500"));
+
+    expect(plan.expectedOut > plan.ammOnlyOut).to.equal(true);
+    expect(plan.legs.filter((leg) => leg.kind === "limitOrder").map((leg) => leg.amountIn)).to.deep.equal([
+      e("100"),
+      e("101"),
+    ]);
+    expect(plan.legs[plan.legs.length - 1].kind).to.equal("amm");
+
+    const execution = await router.execute(plan);
+    expect(execution.amountOut).to.equal(plan.expectedOut);
+    expect(execution.txHashes.length).to.equal(3);
+  });
+
+  it("Should reroute a fill lost to another taker through the pool", async function () {
+    const { client, pairId, token0, token1, maker, taker } = await loadFixture(deployFixture);
+    const e = hre.ethers.parseEther;
+    const { orderId } = await client.connect(maker).placeLimitOrder(pairId, token0, e("100"), e("100"));
+
+    const router = new SmartOrderRouter(client.connect(taker));
+    const plan = await router.plan(pairId, token1, e("300"), 500n);
+    await client.fillLimitOrder(pairId, orderId, e("100"));
+
+    const execution = await router.execute(plan);
+    expect(execution.skippedOrders).to.deep.equal([orderId]);
+    expect(execution.amountOut >= plan.minAmountOut).to.equal(true);
+  });
+});
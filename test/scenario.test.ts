@@ -0,0 +1,126 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import fs from "fs";
+import hre from "hardhat";
+import path from "path";
+import { AB_TOKENS, liteswapFixture } from "./fixtures";
+import { SNAPSHOT_DIR, scenario } from "./scenario";
+
+describe("Scenario", function () {
+  const deployFixture = liteswapFixture({
+    tokens: AB_TOKENS,
+    users: ["owner", "user1", "user2"],
+    // Scenario steps approve what they spend
+    approve: false,
+  });
+
+  it("Should report every step with labels and whole token amounts", async function () {
+    const fixture = await loadFixture(deployFixture);
+    const report = await scenario(fixture)
+      .pair("A", "B", "1000", "1000")
+      .as("user1")
+      .addLiquidity("100")
+      .placeOrder("A", "10", "20")
+      .as("user2")
+      .fill(0n, "10")
+      .expectBalanceChange("user2", "A", "5")
+      .expectOrder(0n, { offerAmount: hre.ethers.parseEther("5"), active: true })
+      .cancel(0n)
+      .expectRevert("NotOrderMaker")
+      .run();
+    const shares = hre.ethers.parseEther("1000");
+    const added = hre.ethers.parseEther("100");
+    expect(report).to.equal(
+      [
+        `1. owner initializePair 1000 A + 1000 B -> pair 1, ${shares} shares`,
+        `   pair 1: 1000 A, 1000 B, ${shares} shares`,
+        `   shares: owner ${shares}`,
+        "   balances: owner 999000 A, 999000 B; user1 1000000 A, 1000000 B; user2 1000000 A, 1000000 B",
+        `2. user1 addLiquidity 100 A -> 100 B in, ${added} shares`,
+        `   pair 1: 1100 A, 1100 B, ${shares + added} shares`,
+        `   shares: owner ${shares}, user1 ${added}`,
+        "   balances: owner 999000 A, 999000 B; user1 999900 A, 999900 B; user2 1000000 A, 1000000 B",
+        "3. user1 placeLimitOrder 10 A for 20 B -> order #0",
+        `   pair 1: 1100 A, 1100 B, ${shares + added} shares`,
+        `   shares: owner ${shares}, user1 ${added}`,
+        "   balances: owner 999000 A, 999000 B; user1 999890 A, 999900 B; user2 1000000 A, 1000000 B",
+        "   order #0: user1 10 A for 20 B, active",
+        "4. user2 fillLimitOrder #0 with 10 B -> 5 A out",
+        `   pair 1: 1100 A, 1100 B, ${shares + added} shares`,
+        `   shares: owner ${shares}, user1 ${added}`,
+        "   balances: owner 999000 A, 999000 B; user1 999890 A, 999910 B; user2 1000005 A, 999990 B",
+        "   order #0: user1 5 A for 10 B, active",
+        "5. user2 cancelLimitOrder #0 -> reverted NotOrderMaker",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("Should fail on the step whose expectation does not hold", async function () {
+    const fixture = await loadFixture(deployFixture);
+    const wrongReserve = await scenario(fixture)
+      .pair("A", "B", "1000", "1000")
+      .swap("A", "10")
+      .expectReserves({ A: "1010", B: "990" })
+      .run()
+      .catch((err: unknown) => err);
+    expect(wrongReserve).to.be.instanceOf(Error);
+    expect((wrongReserve as Error).message).to.match(/^Step 2\. owner swap 10 A: reserve of B/);
+
+    // Nothing rolls back between scenarios, so this pair is the one initialized above
+    const notReverted = await scenario(fixture)
+      .usePair(1n)
+      .swap("A", "10")
+      .expectRevert("InvalidAmount")
+      .run()
+      .catch((err: unknown) => err);
+    expect((notReverted as Error).message).to.match(/^Step 2\. owner swap 10 A: .*InvalidAmount/);
+    expect(() => scenario(fixture).expectRevert("InvalidAmount")).to.throw("expectRevert() needs a step before it");
+    expect(() => scenario(fixture).as("user9")).to.throw('Unknown user "user9"');
+  });
+
+  it("Should only write snapshots with UPDATE_SNAPSHOTS and compare reports with them after", async function () {
+    const fixture = await loadFixture(deployFixture);
+    const name = `scenario-test-${process.pid}`;
+    const file = path.join(SNAPSHOT_DIR, `${name}.snap`);
+    const { UPDATE_SNAPSHOTS: update, CI: ci } = process.env;
+    delete process.env.UPDATE_SNAPSHOTS;
+    delete process.env.CI;
+    const failure = (promise: Promise<string>) => promise.catch((err: unknown) => err);
+    try {
+      expect(await failure(scenario(fixture).pair("A", "B", "1000", "1000").snapshot(name)))
+        .to.be.instanceOf(Error)
+        .with.property("message")
+        .that.includes("rerun with UPDATE_SNAPSHOTS=1 to write it");
+      expect(fs.existsSync(file)).to.equal(false);
+
+      process.env.CI = "true";
+      process.env.UPDATE_SNAPSHOTS = "1";
+      expect(await failure(scenario(fixture).usePair(1n).snapshot(name)))
+        .to.be.instanceOf(Error)
+        .with.property("message")
+        .that.includes("CI never writes snapshots");
+      expect(fs.existsSync(file)).to.equal(false);
+
+      delete process.env.CI;
+      const report = await scenario(fixture).usePair(1n).snapshot(name);
+      expect(fs.readFileSync(file, "utf8")).to.equal(report);
+      delete process.env.UPDATE_SNAPSHOTS;
+      expect(await scenario(fixture).usePair(1n).snapshot(name)).to.equal(report);
+      expect(await failure(scenario(fixture).usePair(1n).removeLiquidity(1n).snapshot(name)))
+        .to.be.instanceOf(Error)
+        .with.property("message")
+        .that.includes("rerun with UPDATE_SNAPSHOTS=1");
+
+      process.env.UPDATE_SNAPSHOTS = "1";
+      const updated = await scenario(fixture).usePair(1n).removeLiquidity(1n).snapshot(name);
+      expect(fs.readFileSync(file, "utf8")).to.equal(updated);
+    } finally {
+      for (const [key, value] of Object.entries({ UPDATE_SNAPSHOTS: update, CI: ci })) {
+        if (value === undefined) delete process.env[key];
+        else process.env[key] = value;
+      }
+      fs.rmSync(file, { force: true });
+    }
+  });
+});
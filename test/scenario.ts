@@ -0,0 +1,530 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { Contract, ContractTransactionResponse, getAddress, isAddress } from "ethers";
+import fs from "fs";
+import path from "path";
+import {
+  ERC20_ABI,
+  LITESWAP_ABI,
+  LimitOrder,
+  LiteswapClient,
+  LiteswapReceipt,
+  Pair,
+  formatTokenAmount,
+  parseLiteswapReceipt,
+  parseTokenAmount,
+} from "../sdk";
+
+// Fluent scenarios for the Hardhat suites. Steps run against a deployed Liteswap, expectations run on the state
+// after each step, and every step is written to a plain text report that can be diffed between runs.
+
+export const SNAPSHOT_DIR = path.join(__dirname, "__snapshots__");
+
+/**
+ * The contracts and signers a scenario drives. The keys of `tokens` and `users`
+ * are the labels steps refer to and reports print, the first user acts until `as()`.
+ */
+export interface ScenarioFixture {
+  liteswap: { getAddress(): Promise<string> };
+  tokens: Record<string, { getAddress(): Promise<string> }>;
+  users: Record<string, HardhatEthersSigner>;
+}
+
+/**
+ * What the chain holds after a step, for the pair the scenario acts on.
+ */
+export interface ScenarioState {
+  // 0n until pair() or usePair()
+  pairId: bigint;
+  pair: Pair;
+  // By token label, only the pair's two tokens
+  reserves: Record<string, bigint>;
+  // By user label
+  shares: Record<string, bigint>;
+  // By user label, then token label
+  balances: Record<string, Record<string, bigint>>;
+  // Every order of the pair, the index is the order id
+  orders: LimitOrder[];
+  // Events of the step's transaction, undefined when it reverted or sent none
+  receipt?: LiteswapReceipt;
+}
+
+// Whole tokens as a decimal string, base units as a bigint, or computed from the state before the step
+export type ScenarioAmount = string | bigint | ((state: ScenarioState) => bigint);
+
+// Shares and order ids, which have no decimals
+export type ScenarioValue = bigint | ((state: ScenarioState) => bigint);
+
+export type ScenarioCheck = (state: ScenarioState, previous: ScenarioState) => unknown;
+
+export type ScenarioEventArgs = unknown[] | ((state: ScenarioState, previous: ScenarioState) => unknown[]);
+
+export interface StepOptions {
+  // Approve the exact amounts the step pulls before sending it, true by default
+  approve?: boolean;
+}
+
+export interface SwapStepOptions extends StepOptions {
+  minAmountOut?: ScenarioAmount;
+}
+
+interface Context {
+  liteswap: Contract;
+  client: LiteswapClient;
+  // Label by checksummed address, for users, tokens and the Liteswap contract
+  labels: Map<string, string>;
+  addresses: Record<string, string>;
+  decimals: Record<string, number>;
+  erc20: Record<string, Contract>;
+  users: string[];
+}
+
+interface Action {
+  text: string;
+  approvals?: { token: string; amount: bigint }[];
+  // Absent for steps that only change what the scenario looks at
+  send?: (liteswap: Contract) => Promise<ContractTransactionResponse>;
+  outcome?: (receipt: LiteswapReceipt) => string;
+  pairId?: (receipt: LiteswapReceipt | undefined) => bigint | undefined;
+}
+
+type Check = (state: ScenarioState, previous: ScenarioState, ctx: Context) => unknown;
+
+interface Step {
+  user: string;
+  approve: boolean;
+  prepare: (ctx: Context, state: ScenarioState) => Promise<Action>;
+  revert?: string;
+  events: { name: string; args?: ScenarioEventArgs }[];
+  checks: Check[];
+}
+
+/**
+ * Queues steps against a deployed Liteswap, e.g.
+ * `scenario(fixture).pair("A", "B", "1000", "1000").as("user1").swap("A", "10").expectReserves({ A: "1010" })`.
+ * Nothing is sent until `run()` or `snapshot()`.
+ */
+export function scenario(fixture: ScenarioFixture): Scenario {
+  return new Scenario(fixture);
+}
+
+export class Scenario {
+  private readonly fixture: ScenarioFixture;
+  private readonly steps: Step[] = [];
+  private user: string;
+
+  constructor(fixture: ScenarioFixture) {
+    const [first] = Object.keys(fixture.users);
+    if (!first) throw new Error("A scenario needs at least one user");
+    this.fixture = fixture;
+    this.user = first;
+  }
+
+  /**
+   * Sends the following steps from `user`.
+   */
+  as(user: string): this {
+    if (!this.fixture.users[user]) throw new Error(`Unknown user "${user}"`);
+    this.user = user;
+    return this;
+  }
+
+  /**
+   * Acts on `pairId` from here on, including one that does not exist.
+   */
+  usePair(pairId: bigint): this {
+    return this.step(false, async () => ({ text: `use pair ${pairId}`, pairId: () => pairId }));
+  }
+
+  approve(token: string, amount: ScenarioAmount): this {
+    const user = this.fixture.users[this.user];
+    return this.step(false, async (ctx, state) => {
+      const value = resolveAmount(ctx, state, token, amount);
+      const erc20 = new Contract(resolveAddress(ctx, token), ERC20_ABI, user);
+      return {
+        text: `approve ${formatAmount(ctx, token, value)}`,
+        send: (liteswap) => erc20.approve(liteswap.target, value),
+      };
+    });
+  }
+
+  /**
+   * initializePair, the following steps act on the new pair. Tokens are labels or raw addresses.
+   */
+  pair(tokenA: string, tokenB: string, amountA: ScenarioAmount, amountB: ScenarioAmount, options: StepOptions = {}) {
+    return this.step(options.approve ?? true, async (ctx, state) => {
+      const valueA = resolveAmount(ctx, state, tokenA, amountA);
+      const valueB = resolveAmount(ctx, state, tokenB, amountB);
+      return {
+        text: `initializePair ${formatAmount(ctx, tokenA, valueA)} + ${formatAmount(ctx, tokenB, valueB)}`,
+        approvals: [
+          { token: tokenA, amount: valueA },
+          { token: tokenB, amount: valueB },
+        ],
+        send: (liteswap) =>
+          liteswap.initializePair(resolveAddress(ctx, tokenA), resolveAddress(ctx, tokenB), valueA, valueB),
+        outcome: (receipt) => `pair ${receipt.pairId}, ${receipt.mintedShares} shares`,
+        pairId: (receipt) => receipt?.pairId,
+      };
+    });
+  }
+
+  addLiquidity(amountA: ScenarioAmount, options: StepOptions = {}): this {
+    return this.step(options.approve ?? true, async (ctx, state) => {
+      const [tokenA, tokenB] = pairTokens(ctx, state);
+      const value = resolveAmount(ctx, state, tokenA, amountA);
+      const { reserveA, reserveB } = state.pair;
+      return {
+        text: `addLiquidity ${formatAmount(ctx, tokenA, value)}`,
+        approvals: [
+          { token: tokenA, amount: value },
+          { token: tokenB, amount: reserveA === 0n ? 0n : (value * reserveB) / reserveA },
+        ],
+        send: (liteswap) => liteswap.addLiquidity(state.pairId, value),
+        outcome: (receipt) => {
+          const added = receipt.get("LiquidityAdded");
+          return `${formatAmount(ctx, tokenB, added.amountB)} in, ${added.shares} shares`;
+        },
+      };
+    });
+  }
+
+  removeLiquidity(shares: ScenarioValue): this {
+    return this.step(false, async (ctx, state) => {
+      const [tokenA, tokenB] = pairTokens(ctx, state);
+      const value = resolveValue(state, shares);
+      return {
+        text: `removeLiquidity ${value} shares`,
+        send: (liteswap) => liteswap.removeLiquidity(state.pairId, value),
+        outcome: (receipt) => {
+          const removed = receipt.get("LiquidityRemoved");
+          return `${formatAmount(ctx, tokenA, removed.amountA)} + ${formatAmount(ctx, tokenB, removed.amountB)} out`;
+        },
+      };
+    });
+  }
+
+  swap(tokenIn: string, amountIn: ScenarioAmount, options: SwapStepOptions = {}): this {
+    return this.step(options.approve ?? true, async (ctx, state) => {
+      const value = resolveAmount(ctx, state, tokenIn, amountIn);
+      const tokenOut = otherToken(ctx, state, tokenIn);
+      const min = options.minAmountOut === undefined ? 0n : resolveAmount(ctx, state, tokenOut, options.minAmountOut);
+      const limit = min === 0n ? "" : `, min ${formatAmount(ctx, tokenOut, min)}`;
+      return {
+        text: `swap ${formatAmount(ctx, tokenIn, value)}${limit}`,
+        approvals: [{ token: tokenIn, amount: value }],
+        send: (liteswap) => liteswap.swap(state.pairId, resolveAddress(ctx, tokenIn), value, min),
+        outcome: (receipt) => `${formatAmount(ctx, tokenOut, receipt.swapOutput)} out`,
+      };
+    });
+  }
+
+  placeOrder(
+    offerToken: string,
+    offerAmount: ScenarioAmount,
+    desiredAmount: ScenarioAmount,
+    options: StepOptions = {}
+  ): this {
+    return this.step(options.approve ?? true, async (ctx, state) => {
+      const offer = resolveAmount(ctx, state, offerToken, offerAmount);
+      const desiredToken = otherToken(ctx, state, offerToken);
+      const desired = resolveAmount(ctx, state, desiredToken, desiredAmount);
+      return {
+        text: `placeLimitOrder ${formatAmount(ctx, offerToken, offer)} for ${formatAmount(ctx, desiredToken, desired)}`,
+        approvals: [{ token: offerToken, amount: offer }],
+        send: (liteswap) => liteswap.placeLimitOrder(state.pairId, resolveAddress(ctx, offerToken), offer, desired),
+        outcome: (receipt) => `order #${receipt.placedOrderId}`,
+      };
+    });
+  }
+
+  /**
+   * fillLimitOrder, `amount` is in the order's desired token.
+   */
+  fill(orderId: ScenarioValue, amount: ScenarioAmount, options: StepOptions = {}): this {
+    return this.step(options.approve ?? true, async (ctx, state) => {
+      const id = resolveValue(state, orderId);
+      const order = await ctx.client.getLimitOrder(state.pairId, id);
+      const [offerToken, desiredToken] = [labelOf(ctx, order.offerToken), labelOf(ctx, order.desiredToken)];
+      const value = resolveAmount(ctx, state, desiredToken, amount);
+      return {
+        text: `fillLimitOrder #${id} with ${formatAmount(ctx, desiredToken, value)}`,
+        approvals: [{ token: desiredToken, amount: value }],
+        send: (liteswap) => liteswap.fillLimitOrder(state.pairId, id, value),
+        outcome: (receipt) => `${formatAmount(ctx, offerToken, receipt.amountFilled)} out`,
+      };
+    });
+  }
+
+  cancel(orderId: ScenarioValue): this {
+    return this.step(false, async (ctx, state) => {
+      const id = resolveValue(state, orderId);
+      return {
+        text: `cancelLimitOrder #${id}`,
+        send: (liteswap) => liteswap.cancelLimitOrder(state.pairId, id),
+        outcome: () => "cancelled",
+      };
+    });
+  }
+
+  /**
+   * The last step must revert with this custom error, from Liteswap or bubbled up from a token.
+   */
+  expectRevert(error: string): this {
+    this.last("expectRevert").revert = error;
+    return this;
+  }
+
+  /**
+   * The last step's transaction emits `name`, with `args` when given.
+   * User and token labels in `args` stand for their addresses.
+   */
+  expectEvent(name: string, args?: ScenarioEventArgs): this {
+    this.last("expectEvent").events.push({ name, args });
+    return this;
+  }
+
+  /**
+   * Runs `check` on the state after the last step and the one before it.
+   */
+  check(check: ScenarioCheck): this {
+    this.last("check").checks.push(check);
+    return this;
+  }
+
+  expectReserves(reserves: Record<string, ScenarioAmount>): this {
+    this.last("expectReserves").checks.push((state, _, ctx) => {
+      for (const [token, amount] of Object.entries(reserves)) {
+        expect(state.reserves[token], `reserve of ${token}`).to.equal(resolveAmount(ctx, state, token, amount));
+      }
+    });
+    return this;
+  }
+
+  expectShares(shares: Record<string, ScenarioValue>): this {
+    return this.check((state) => {
+      for (const [user, value] of Object.entries(shares)) {
+        expect(state.shares[user], `shares of ${user}`).to.equal(resolveValue(state, value));
+      }
+    });
+  }
+
+  /**
+   * The last step changed the balance of `user` by `delta`, negative when it spent tokens.
+   */
+  expectBalanceChange(user: string, token: string, delta: ScenarioAmount): this {
+    this.last("expectBalanceChange").checks.push((state, previous, ctx) => {
+      const change = state.balances[user][token] - previous.balances[user][token];
+      expect(change, `${token} balance change of ${user}`).to.equal(resolveAmount(ctx, previous, token, delta));
+    });
+    return this;
+  }
+
+  expectOrder(orderId: bigint, order: Partial<Omit<LimitOrder, "pairId" | "orderId">>): this {
+    return this.check((state) => {
+      expect(state.orders[Number(orderId)], `order #${orderId}`).to.deep.include(order);
+    });
+  }
+
+  /**
+   * Sends every step in order, running its expectations after it, and returns the report.
+   * A failing expectation names the step it belongs to.
+   */
+  async run(): Promise<string> {
+    const ctx = await this.context();
+    let state = await readState(ctx, 0n);
+    const lines: string[] = [];
+    for (const [index, step] of this.steps.entries()) {
+      const previous = state;
+      const action = await step.prepare(ctx, state);
+      const title = `${index + 1}. ${action.send ? `${step.user} ` : ""}${action.text}`;
+      try {
+        const signer = this.fixture.users[step.user];
+        for (const { token, amount } of step.approve ? action.approvals ?? [] : []) {
+          // Addresses that are not fixture tokens are passed through to show the contract rejecting them
+          const erc20 = ctx.erc20[labelOf(ctx, resolveAddress(ctx, token))];
+          if (erc20) await (erc20.connect(signer) as Contract).approve(ctx.liteswap.target, amount);
+        }
+        const liteswap = ctx.liteswap.connect(signer) as Contract;
+        let tx: ContractTransactionResponse | undefined;
+        let receipt: LiteswapReceipt | undefined;
+        if (!action.send) {
+          lines.push(title);
+        } else if (step.revert) {
+          await expect(action.send(liteswap)).to.be.revertedWithCustomError(ctx.liteswap, step.revert);
+          lines.push(`${title} -> reverted ${step.revert}`);
+        } else {
+          tx = await action.send(liteswap);
+          receipt = parseLiteswapReceipt(await tx.wait(), ctx.liteswap.target as string);
+          lines.push(action.outcome ? `${title} -> ${action.outcome(receipt)}` : title);
+        }
+
+        const pairId = action.pairId?.(receipt) ?? state.pairId;
+        if (receipt || pairId !== state.pairId) {
+          state = await readState(ctx, pairId, receipt);
+          if (receipt?.events.length || pairId !== previous.pairId) lines.push(...formatState(ctx, state));
+        } else {
+          state = { ...state, receipt };
+        }
+        for (const event of step.events) {
+          if (!tx) throw new Error(`expectEvent(${event.name}) needs a step that sends a transaction`);
+          const args = typeof event.args === "function" ? event.args(state, previous) : event.args;
+          const emitted = expect(tx).to.emit(ctx.liteswap, event.name);
+          await (args ? emitted.withArgs(...args.map((arg) => resolveArg(ctx, arg))) : emitted);
+        }
+        for (const check of step.checks) await check(state, previous, ctx);
+      } catch (err) {
+        if (err instanceof Error) err.message = `Step ${title}: ${err.message}`;
+        throw err;
+      }
+    }
+    return lines.join("\n") + "\n";
+  }
+
+  /**
+   * Runs the scenario and compares its report with test/__snapshots__/<name>.snap.
+   * Snapshots are only written with UPDATE_SNAPSHOTS=1, and a missing one always fails under CI.
+   */
+  async snapshot(name: string): Promise<string> {
+    const report = await this.run();
+    const file = path.join(SNAPSHOT_DIR, `${name}.snap`);
+    const exists = fs.existsSync(file);
+    if (!exists && process.env.CI) {
+      throw new Error(`Snapshot ${file} is missing, CI never writes snapshots: write it with UPDATE_SNAPSHOTS=1`);
+    }
+    if (process.env.UPDATE_SNAPSHOTS) {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(file, report);
+    } else if (!exists) {
+      throw new Error(`Snapshot ${file} is missing, rerun with UPDATE_SNAPSHOTS=1 to write it`);
+    } else {
+      const expected = fs.readFileSync(file, "utf8");
+      expect(report, `Report differs from ${file}, rerun with UPDATE_SNAPSHOTS=1 to accept it`).to.equal(expected);
+    }
+    return report;
+  }
+
+  private step(approve: boolean, prepare: Step["prepare"]): this {
+    this.steps.push({ user: this.user, approve, prepare, events: [], checks: [] });
+    return this;
+  }
+
+  private last(method: string): Step {
+    const step = this.steps[this.steps.length - 1];
+    if (!step) throw new Error(`${method}() needs a step before it`);
+    return step;
+  }
+
+  private async context(): Promise<Context> {
+    const address = await this.fixture.liteswap.getAddress();
+    const [runner] = Object.values(this.fixture.users);
+    const ctx: Context = {
+      liteswap: new Contract(address, LITESWAP_ABI, runner),
+      client: new LiteswapClient(address, runner),
+      labels: new Map([[getAddress(address), "liteswap"]]),
+      addresses: {},
+      decimals: {},
+      erc20: {},
+      users: Object.keys(this.fixture.users),
+    };
+    for (const [label, user] of Object.entries(this.fixture.users)) {
+      ctx.addresses[label] = user.address;
+      ctx.labels.set(getAddress(user.address), label);
+    }
+    for (const [label, token] of Object.entries(this.fixture.tokens)) {
+      ctx.addresses[label] = await token.getAddress();
+      ctx.labels.set(getAddress(ctx.addresses[label]), label);
+      ctx.erc20[label] = new Contract(ctx.addresses[label], ERC20_ABI, runner);
+      ctx.decimals[label] = Number(await ctx.erc20[label].decimals());
+    }
+    return ctx;
+  }
+}
+
+function labelOf(ctx: Context, address: string): string {
+  return ctx.labels.get(getAddress(address)) ?? address;
+}
+
+function resolveAddress(ctx: Context, ref: string): string {
+  if (ctx.addresses[ref]) return ctx.addresses[ref];
+  if (isAddress(ref)) return getAddress(ref);
+  throw new Error(`"${ref}" is neither a label of the fixture nor an address`);
+}
+
+function resolveArg(ctx: Context, arg: unknown): unknown {
+  return typeof arg === "string" && ctx.addresses[arg] ? ctx.addresses[arg] : arg;
+}
+
+function resolveValue(state: ScenarioState, value: ScenarioValue): bigint {
+  return typeof value === "function" ? value(state) : value;
+}
+
+// Strings are whole tokens, tokens the fixture does not know are taken to have 18 decimals
+function resolveAmount(ctx: Context, state: ScenarioState, token: string, amount: ScenarioAmount): bigint {
+  if (typeof amount === "function") return amount(state);
+  if (typeof amount === "bigint") return amount;
+  return parseTokenAmount(amount, ctx.decimals[labelOf(ctx, resolveAddress(ctx, token))] ?? 18);
+}
+
+function formatAmount(ctx: Context, token: string, amount: bigint): string {
+  const label = labelOf(ctx, resolveAddress(ctx, token));
+  const decimals = ctx.decimals[label];
+  return `${decimals === undefined ? amount : formatTokenAmount(amount, decimals)} ${label}`;
+}
+
+function pairTokens(ctx: Context, state: ScenarioState): [string, string] {
+  return [labelOf(ctx, state.pair.tokenA), labelOf(ctx, state.pair.tokenB)];
+}
+
+// The pair's other token, or its tokenB for a token outside the pair
+function otherToken(ctx: Context, state: ScenarioState, token: string): string {
+  const [tokenA, tokenB] = pairTokens(ctx, state);
+  return labelOf(ctx, resolveAddress(ctx, token)) === tokenB ? tokenA : tokenB;
+}
+
+async function readState(ctx: Context, pairId: bigint, receipt?: LiteswapReceipt): Promise<ScenarioState> {
+  const pair = await ctx.client.getPair(pairId);
+  const reserves: Record<string, bigint> = {};
+  if (pair.initialized) {
+    reserves[labelOf(ctx, pair.tokenA)] = pair.reserveA;
+    reserves[labelOf(ctx, pair.tokenB)] = pair.reserveB;
+  }
+  const shares: Record<string, bigint> = {};
+  const balances: Record<string, Record<string, bigint>> = {};
+  for (const user of ctx.users) {
+    shares[user] = (await ctx.client.getPosition(pairId, ctx.addresses[user])).shares;
+    balances[user] = {};
+    for (const [token, erc20] of Object.entries(ctx.erc20)) {
+      balances[user][token] = await erc20.balanceOf(ctx.addresses[user]);
+    }
+  }
+  const orders: LimitOrder[] = [];
+  const orderCount: bigint = await ctx.liteswap._orderIdCounter(pairId);
+  for (let orderId = 0n; orderId < orderCount; orderId++) {
+    orders.push(await ctx.client.getLimitOrder(pairId, orderId));
+  }
+  return { pairId, pair, reserves, shares, balances, orders, receipt };
+}
+
+// Labels and whole tokens only, so the same steps give the same report on every run
+function formatState(ctx: Context, state: ScenarioState): string[] {
+  const { pair } = state;
+  if (!pair.initialized) return [`   pair ${state.pairId}: not initialized`];
+  const [tokenA, tokenB] = pairTokens(ctx, state);
+  const reserves = `${formatAmount(ctx, tokenA, pair.reserveA)}, ${formatAmount(ctx, tokenB, pair.reserveB)}`;
+  const lines = [`   pair ${state.pairId}: ${reserves}, ${pair.totalShares} shares`];
+  const holders = ctx.users.filter((user) => state.shares[user] > 0n);
+  if (holders.length) lines.push(`   shares: ${holders.map((user) => `${user} ${state.shares[user]}`).join(", ")}`);
+  const balances = ctx.users.map((user) => {
+    const amounts = Object.keys(ctx.erc20).map((token) => formatAmount(ctx, token, state.balances[user][token]));
+    return `${user} ${amounts.join(", ")}`;
+  });
+  lines.push(`   balances: ${balances.join("; ")}`);
+  for (const order of state.orders) {
+    const offer = formatAmount(ctx, order.offerToken, order.offerAmount);
+    const desired = formatAmount(ctx, order.desiredToken, order.desiredAmount);
+    const status = order.active ? "active" : "closed";
+    lines.push(`   order #${order.orderId}: ${labelOf(ctx, order.maker)} ${offer} for ${desired}, ${status}`);
+  }
+  return lines;
+}
@@ -0,0 +1,157 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import {
+  LiteswapOp,
+  LiteswapSimulator,
+  PRICE_SCALE,
+  Random,
+  ReplayEvent,
+  TEST_TRANSFER_FEE_BPS,
+  applyOp,
+  formatOp,
+  parseLiteswapLog,
+  randomOp,
+} from "../sdk";
+import { deployDifferentialFixture, expectSameState, runOnChain } from "./differential";
+
+describe("LiteswapSimulator", function () {
+  it("Should match the contract's events, reverts and state on a scripted sequence", async function () {
+    const { liteswap, createSimulator, tokens, tokenAddresses, users, accounts } =
+      await loadFixture(deployDifferentialFixture);
+    const sim = createSimulator();
+    const [a, b, fee] = tokenAddresses;
+    const [owner, user1, user2] = accounts;
+    const e = hre.ethers.parseEther;
+    const ops: LiteswapOp[] = [
+      { sender: owner, method: "initializePair", args: [a, a, e("1"), e("1")] },
+      { sender: owner, method: "initializePair", args: [a, b, e("1000"), e("2000")] },
+      { sender: owner, method: "initializePair", args: [b, a, e("1"), e("1")] },
+      { sender: owner, method: "initializePair", args: [fee, b, e("500"), e("500")] },
+      { sender: owner, method: "initializePair", args: [a, fee, 10n, 10n] },
+      { sender: user1, method: "addLiquidity", args: [1n, e("10")] },
+      { sender: user1, method: "addLiquidity", args: [2n, e("10")] },
+      { sender: user2, method: "swap", args: [1n, a, e("25"), 0n] },
+      { sender: user2, method: "swap", args: [2n, fee, e("25"), 0n] },
+      { sender: user2, method: "swap", args: [2n, b, e("25"), e("1000")] },
+      { sender: user2, method: "swap", args: [3n, a, e("1"), 0n] },
+      { sender: user1, method: "placeLimitOrder", args: [1n, a, e("10"), e("1")] },
+      { sender: user1, method: "placeLimitOrder", args: [1n, a, e("10"), e("30")] },
+      { sender: user1, method: "placeLimitOrder", args: [2n, fee, e("10"), e("30")] },
+      { sender: user2, method: "fillLimitOrder", args: [1n, 0n, e("10")] },
+      { sender: user2, method: "fillLimitOrder", args: [1n, 0n, e("40")] },
+      { sender: user2, method: "fillLimitOrder", args: [2n, 0n, e("12")] },
+      { sender: user2, method: "cancelLimitOrder", args: [2n, 0n] },
+      { sender: user1, method: "cancelLimitOrder", args: [2n, 0n] },
+      { sender: user1, method: "cancelLimitOrder", args: [2n, 0n] },
+      { sender: user1, method: "removeLiquidity", args: [2n, e("1")] },
+      { sender: user2, method: "removeLiquidity", args: [2n, e("1")] },
+      { sender: user1, method: "removeLiquidity", args: [1n, e("1000000")] },
+      { sender: user2, method: "swap", args: [1n, b, e("2000000"), 0n] },
+    ];
+
+    for (const op of ops) {
+      expect(applyOp(sim, op), formatOp(op)).to.deep.equal(await runOnChain(liteswap, users, op));
+    }
+    await expectSameState(liteswap, sim, tokens, users);
+  });
+
+  it("Should match the contract on a seeded random sequence from several signers", async function () {
+    const { liteswap, createSimulator, tokens, tokenAddresses, users, accounts, labels } =
+      await loadFixture(deployDifferentialFixture);
+    const sim = createSimulator();
+    const random = new Random(12);
+    for (let i = 0; i < 150; i++) {
+      const op = randomOp(random, sim, accounts, tokenAddresses);
+      const onChain = await runOnChain(liteswap, users, op);
+      expect(applyOp(sim, op), `op ${i} ${formatOp(op, labels)}`).to.deep.equal(onChain);
+    }
+    await expectSameState(liteswap, sim, tokens, users);
+  });
+
+  it("Should rebuild contract state by replaying its events and keep simulating from there", async function () {
+    const { liteswap, createSimulator, tokens, tokenAddresses, users, accounts } =
+      await loadFixture(deployDifferentialFixture);
+    const mirror = createSimulator();
+    const [a, b, fee] = tokenAddresses;
+    const [owner, user1, user2] = accounts;
+    const e = hre.ethers.parseEther;
+    const ops: LiteswapOp[] = [
+      { sender: owner, method: "initializePair", args: [a, b, e("1000"), e("1000")] },
+      { sender: owner, method: "initializePair", args: [fee, b, e("1000"), e("1000")] },
+      { sender: user1, method: "addLiquidity", args: [1n, e("50")] },
+      { sender: user2, method: "swap", args: [1n, a, e("30"), 0n] },
+      { sender: user2, method: "swap", args: [2n, fee, e("30"), 0n] },
+      { sender: user1, method: "placeLimitOrder", args: [1n, b, e("10"), e("11")] },
+      { sender: user1, method: "placeLimitOrder", args: [2n, b, e("10"), e("11")] },
+      { sender: user2, method: "fillLimitOrder", args: [1n, 0n, e("3")] },
+      { sender: user2, method: "fillLimitOrder", args: [2n, 0n, e("3")] },
+      { sender: user1, method: "removeLiquidity", args: [1n, e("20")] },
+    ];
+    for (const op of ops) {
+      applyOp(mirror, op);
+      await runOnChain(liteswap, users, op);
+    }
+
+    const logs = await hre.ethers.provider.getLogs({ address: await liteswap.getAddress(), fromBlock: 0 });
+    const events: ReplayEvent[] = logs.map((log) => {
+      const event = parseLiteswapLog(log)!;
+      // Fills only log the offer side, the fee token fill delivered 10% less than was sent
+      if (event.name !== "LimitOrderFilled") return event;
+      return { ...event, amountReceived: event.pairId === 1n ? e("3") : e("2.7") };
+    });
+
+    const replayed = new LiteswapSimulator(await liteswap.getAddress());
+    replayed.addToken({ address: fee, transferFeeBps: TEST_TRANSFER_FEE_BPS });
+    replayed.replay(events);
+    await expectSameState(liteswap, mirror, tokens, users);
+    expect(replayed.getPairs()).to.deep.equal(mirror.getPairs());
+    for (const pairId of [1n, 2n]) {
+      expect(replayed.getLimitOrders(pairId)).to.deep.equal(mirror.getLimitOrders(pairId));
+      for (const account of accounts) {
+        expect(replayed.getPosition(pairId, account)).to.deep.equal(mirror.getPosition(pairId, account));
+      }
+    }
+
+    // The replayed state answers for the next trade exactly like the chain
+    replayed.token(b).mint(user2, e("5"));
+    replayed.token(b).approve(user2, replayed.address, e("5"));
+    const swap: LiteswapOp = { sender: user2, method: "swap", args: [1n, b, e("5"), 0n] };
+    expect(applyOp(replayed, swap)).to.deep.equal(await runOnChain(liteswap, users, swap));
+  });
+
+  it("Should follow a synthetic price path of a thousand steps", async function () {
+    const sim = new LiteswapSimulator();
+    const tokenA = sim.addToken({ symbol: "A" });
+    const tokenB = sim.addToken({ symbol: "B", transferFeeBps: TEST_TRANSFER_FEE_BPS });
+    const lp = "0x00000000000000000000000000000000000000A1";
+    const trader = "0x00000000000000000000000000000000000000B2";
+    const amount = hre.ethers.parseEther("1000000");
+    for (const token of [tokenA, tokenB]) {
+      token.mint(lp, amount);
+      token.approve(lp, sim.address, hre.ethers.MaxUint256);
+    }
+    const pairId = sim.initializePair(lp, tokenA.address, tokenB.address, amount, amount);
+    const start = sim.getPair(pairId);
+
+    // Random walk in steps of up to 1% from the starting price
+    const random = new Random(7);
+    const path: bigint[] = [];
+    let current = (start.reserveB * PRICE_SCALE) / start.reserveA;
+    for (let i = 0; i < 1000; i++) {
+      current = (current * BigInt(9900 + random.int(201))) / 10000n;
+      path.push(current);
+    }
+    const steps = sim.followPricePath(trader, pairId, path);
+
+    expect(steps).to.have.length(1000);
+    for (const step of steps) {
+      const drift = step.price > step.targetPrice ? step.price - step.targetPrice : step.targetPrice - step.price;
+      expect(drift * 1000n).to.be.lte(step.targetPrice);
+    }
+    expect(sim.events.filter((event) => event.name === "Swap").length).to.be.gt(900);
+    const pair = sim.getPair(pairId);
+    expect(tokenA.balanceOf(sim.address)).to.equal(pair.reserveA);
+    expect(tokenB.balanceOf(sim.address)).to.equal(pair.reserveB);
+  });
+});
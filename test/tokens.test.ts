@@ -0,0 +1,89 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import {
+  OrderBook,
+  TokenRegistry,
+  formatPrice,
+  formatQuote,
+  formatTokenAmount,
+  fromHumanPrice,
+  pairPrice,
+  parseTokenAmount,
+  quoteSwap,
+  toHumanPrice,
+} from "../sdk";
+import { liteswapFixture } from "./fixtures";
+
+describe("Token registry", function () {
+  const deployFixture = liteswapFixture(
+    {
+      tokens: { GOLD: { name: "Digital Gold" }, USDC: { name: "USD Coin", decimals: 6 } },
+      users: ["owner"],
+      approve: false,
+    },
+    async function tokensFixture({ addresses, users }) {
+      return { gold: addresses.GOLD, usdc: addresses.USDC, owner: users.owner };
+    }
+  );
+
+  it("Should format and parse amounts without losing or inventing digits", function () {
+    expect(formatTokenAmount(1500000n, 6)).to.equal("1.5");
+    expect(formatTokenAmount(1n, 18)).to.equal("0.000000000000000001");
+    expect(formatTokenAmount(123456789n, 6, 2)).to.equal("123.45");
+    expect(formatTokenAmount(42n, 0)).to.equal("42");
+    expect(formatTokenAmount(-2500n, 3)).to.equal("-2.5");
+
+    expect(parseTokenAmount("1.5", 6)).to.equal(1500000n);
+    expect(parseTokenAmount(".25", 2)).to.equal(25n);
+    expect(parseTokenAmount("7", 18)).to.equal(7n * 10n ** 18n);
+    expect(parseTokenAmount("1.500", 1)).to.equal(15n);
+    expect(() => parseTokenAmount("1.0000001", 6)).to.throw(RangeError, "more than the token's 6 decimals");
+    expect(() => parseTokenAmount("1e6", 6)).to.throw(RangeError, "Not a token amount");
+    expect(() => parseTokenAmount(".", 6)).to.throw(RangeError);
+
+    // 2 USDC (6 decimals) per GOLD (18 decimals) is 2e-12 base units per base unit, 2e6 scaled by PRICE_SCALE
+    const price = 2n * 10n ** 6n;
+    expect(toHumanPrice(price, 18, 6)).to.equal(2n * 10n ** 18n);
+    expect(fromHumanPrice(2n * 10n ** 18n, 18, 6)).to.equal(price);
+    expect(formatPrice(price, 18, 6)).to.equal("2");
+    expect(formatPrice(10n ** 18n / 3n, 18, 18, 4)).to.equal("0.3333");
+    expect(formatPrice(123456789n * 10n ** 18n, 18, 18, 4)).to.equal("123456789");
+  });
+
+  it("Should properly handle tokens with different decimals", async function () {
+    const { client, gold, usdc, owner } = await loadFixture(deployFixture);
+    const tokens = new TokenRegistry(owner);
+    const metadata = await tokens.get(usdc);
+    expect(metadata).to.deep.include({ name: "USD Coin", symbol: "USDC", decimals: 6 });
+    expect(await tokens.get(usdc.toLowerCase())).to.equal(metadata);
+
+    // 1000 GOLD against 2000 USDC, whichever sorts first
+    const goldAmount = await tokens.parse(gold, "1000");
+    const usdcAmount = await tokens.parse(usdc, "2000");
+    expect(usdcAmount).to.equal(2000n * 10n ** 6n);
+    const { pairId } = await client.initializePair(gold, usdc, goldAmount, usdcAmount);
+    const pair = await client.getPair(pairId);
+    const goldIsA = pair.tokenA === gold;
+    expect(await tokens.formatPairPrice(pair, pairPrice(pair))).to.equal(goldIsA ? "2" : "0.5");
+
+    const quote = quoteSwap(pair, gold, await tokens.parse(gold, "1"));
+    const display = formatQuote(quote, await tokens.get(gold), metadata);
+    expect(display.amountIn).to.equal("1 GOLD");
+    expect(display.spotPrice).to.equal("2 USDC per GOLD");
+    expect(display.amountOut).to.match(/^1\.99\d* USDC$/);
+    // 0.3% fee plus 0.1% impact of a trade a thousandth of the pool
+    expect(quote.priceImpactBps).to.equal(39n);
+    expect(display.priceImpact).to.equal("0.39%");
+
+    // An ask 5% above the pool price, in whole tokens of each side
+    const offerAmount = await tokens.parse(pair.tokenA, "10");
+    const desiredAmount = await tokens.parse(pair.tokenB, goldIsA ? "21" : "5.25");
+    await client.placeLimitOrder(pairId, pair.tokenA, offerAmount, desiredAmount);
+    const book = await OrderBook.load(client, pairId);
+    expect(await tokens.formatPairPrice(pair, book.bestAsk!.quotePrice)).to.equal(goldIsA ? "2.1" : "0.525");
+    // Levels 0.1 whole tokens apart, the ask rounds up to the next one
+    const { tokenA, tokenB } = await tokens.forPair(pair);
+    const [level] = book.depth(fromHumanPrice(10n ** 17n, tokenA.decimals, tokenB.decimals)).asks;
+    expect(formatPrice(level.quotePrice, tokenA.decimals, tokenB.decimals)).to.equal(goldIsA ? "2.1" : "0.6");
+  });
+});
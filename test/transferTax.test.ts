@@ -0,0 +1,112 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import {
+  LiteswapError,
+  detectTransferTax,
+  grossAmount,
+  initialSharesAfterTax,
+  minAmountOutForReceived,
+  minAmountOutForSlippage,
+  minDesiredAmountAfterTax,
+  netAmount,
+  previewAddLiquidityAfterTax,
+  previewLimitOrderAfterTax,
+  quoteSwap,
+  quoteSwapAfterTax,
+} from "../sdk";
+import { AB_TOKENS, liteswapFixture } from "./fixtures";
+
+describe("Transfer tax", function () {
+  const deployFixture = liteswapFixture(
+    {
+      tokens: { A: AB_TOKENS.A, FEE: { name: "Fee Token", symbol: "FEE", feeOnTransfer: true } },
+      users: ["owner", "user1"],
+      approve: false,
+    },
+    async function transferTaxFixture({ tokens, addresses, users }) {
+      const { A: plain, FEE: taxed } = tokens;
+      return { plain, taxed, plainAddress: addresses.A, taxedAddress: addresses.FEE, user1: users.user1 };
+    }
+  );
+
+  it("Should detect the tax by simulation and leave the chain untouched", async function () {
+    const { plain, taxed, plainAddress, taxedAddress, user1 } = await loadFixture(deployFixture);
+    const block = await hre.ethers.provider.getBlockNumber();
+    const balance = await taxed.balanceOf(user1.address);
+
+    const tax = await detectTransferTax(user1, taxedAddress);
+    expect(tax.taxBps).to.equal(1000n);
+    expect(tax.sent).to.equal(balance);
+    expect(tax.received).to.equal(netAmount(balance, 1000n));
+    expect(tax.senderCost).to.equal(balance);
+    expect((await detectTransferTax(user1, plainAddress, { amount: 12345n })).taxBps).to.equal(0n);
+
+    expect(await hre.ethers.provider.getBlockNumber()).to.equal(block);
+    expect(await taxed.balanceOf(user1.address)).to.equal(balance);
+    expect(await plain.balanceOf(user1.address)).to.equal(hre.ethers.parseEther("1000000"));
+  });
+
+  it("Should invert netAmount exactly", function () {
+    for (const net of [0n, 1n, 9n, 10n, 899n, 900n, 123456789n]) {
+      const gross = grossAmount(net, 1000n);
+      expect(netAmount(gross, 1000n)).to.equal(net);
+      if (gross > 0n) expect(netAmount(gross - 1n, 1000n) < net).to.equal(true);
+    }
+    expect(grossAmount(77n, 0n)).to.equal(77n);
+  });
+
+  it("Should preview shares, swaps and orders with the amounts the contract actually receives", async function () {
+    const { client, plainAddress, taxedAddress, user1 } = await loadFixture(deployFixture);
+    const e = hre.ethers.parseEther;
+    const tax = (token: string) => (token === taxedAddress ? 1000n : 0n);
+
+    const init = await client.initializePair(taxedAddress, plainAddress, e("1000"), e("1000"));
+    expect(init.shares).to.equal(initialSharesAfterTax(e("1000"), e("1000"), 1000n, 0n));
+    let pair = await client.getPair(init.pairId);
+    const { tokenA, tokenB } = pair;
+
+    const lp = client.connect(user1);
+    const preview = previewAddLiquidityAfterTax(pair, e("10"), tax(tokenA), tax(tokenB));
+    const added = await lp.addLiquidity(init.pairId, e("10"));
+    expect(added).to.include({ amountA: preview.amountA, amountB: preview.amountB, shares: preview.shares });
+
+    // A minAmountOut from the untaxed quote is more than the pool will pay
+    pair = await client.getPair(init.pairId);
+    const naive = minAmountOutForSlippage(quoteSwap(pair, taxedAddress, e("10")).amountOut, 50n);
+    const error = await lp.swap(init.pairId, taxedAddress, e("10"), naive).catch((err: unknown) => err);
+    expect((error as LiteswapError).errorName).to.equal("InvalidAmount");
+
+    const quote = quoteSwapAfterTax(pair, taxedAddress, e("10"), 1000n, 0n);
+    const swapped = await lp.swap(init.pairId, taxedAddress, e("10"), minAmountOutForSlippage(quote.amountOut, 50n));
+    expect(swapped.amountIn).to.equal(quote.amountIn);
+    expect(swapped.amountOut).to.equal(quote.amountOut);
+
+    // Selling into the taxed token, the trader gets 90% of amountOut
+    pair = await client.getPair(init.pairId);
+    const back = quoteSwapAfterTax(pair, plainAddress, e("5"), 0n, 1000n);
+    const taxedToken = await hre.ethers.getContractAt("TestFeeOnTransferERC20", taxedAddress);
+    const before = await taxedToken.balanceOf(user1.address);
+    await lp.swap(init.pairId, plainAddress, e("5"), minAmountOutForReceived(back.amountReceived, 1000n));
+    expect((await taxedToken.balanceOf(user1.address)) - before).to.equal(back.amountReceived);
+
+    // Limit order offering the taxed token, at exactly the lowest accepted desiredAmount
+    pair = await client.getPair(init.pairId);
+    const minDesired = minDesiredAmountAfterTax(pair, taxedAddress, e("20"), 1000n);
+    const placeTooLow = () => previewLimitOrderAfterTax(pair, taxedAddress, e("20"), minDesired - 1n, 1000n, 0n);
+    expect(placeTooLow).to.throw("BadRatio");
+    const tooLow = await lp.placeLimitOrder(init.pairId, taxedAddress, e("20"), minDesired - 1n).catch((err) => err);
+    expect((tooLow as LiteswapError).errorName).to.equal("BadRatio");
+    const placed = await lp.placeLimitOrder(init.pairId, taxedAddress, e("20"), minDesired);
+    expect(placed.offerAmount).to.equal(netAmount(e("20"), 1000n));
+
+    // The other way round a taker pays the tax on the desired token, fillerPays completes the order
+    const bid = previewLimitOrderAfterTax(pair, plainAddress, e("10"), e("20"), 0n, 1000n);
+    const { orderId } = await lp.placeLimitOrder(init.pairId, plainAddress, e("10"), e("20"));
+    const makerBefore = await taxedToken.balanceOf(user1.address);
+    const filled = await client.fillLimitOrder(init.pairId, orderId, bid.fillerPays);
+    expect(filled.filled).to.equal(bid.fillerReceives);
+    expect((await client.getLimitOrder(init.pairId, orderId)).active).to.equal(false);
+    expect((await taxedToken.balanceOf(user1.address)) - makerBefore).to.equal(bid.makerReceives);
+  });
+});